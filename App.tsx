@@ -1,17 +1,50 @@
 import React, { useState, useEffect } from 'react';
-import { GameData, GameState, GameType, GameGenerationInput } from './types';
-import { generateGameFromContent } from './services/geminiService';
+import { GameData, GameState, GameType, GameGenerationInput, GenerationOptions, ActivityPackItem } from './types';
+import { generateGameFromContent, regenerateGameItem } from './services/geminiService';
+import { newSeed } from './services/random';
+import { AuthError, GenerationCancelledError, ValidationError, toAppError } from './services/errors';
+import { ACTIVE_GENERATOR } from './services/generators';
 import { InputForm } from './components/InputForm';
 import { GameView } from './components/GameView';
 import { GameMenu } from './components/GameMenu';
-import { Loader2, AlertCircle, Key, ExternalLink } from 'lucide-react';
-import { APP_TITLE, APP_VERSION } from './constants';
+import { PackDashboard } from './components/PackDashboard';
+import { GameLibrary } from './components/GameLibrary';
+import { GameEditor } from './components/editor/GameEditor';
+import { GenerationPreview } from './components/GenerationPreview';
+import { ErrorBanner, ErrorRecovery } from './components/ErrorBanner';
+import { saveToLibrary, getLibraryEntry, updateLibraryEntryGame, describeSource, sharedLinkEntryId, LibraryEntry } from './services/libraryService';
+import { Loader2, AlertCircle, Key, ExternalLink, CheckCircle, Library, X } from 'lucide-react';
+import { APP_TITLE, APP_VERSION, DEFAULT_GENERATION_OPTIONS } from './constants';
 import { Button } from './components/Button';
 import LZString from 'lz-string';
 import { getGameFromDatabase, createLiveSession } from './services/firebaseService';
+import { clearLiveLink } from './services/liveSessions';
 import { LiveSession } from './components/LiveSession';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { useI18n } from './i18n';
+
+// Id of the library's copy of a game, if this device has one
+const findLibraryCopy = async (id: string): Promise<string | undefined> => {
+  try {
+    return (await getLibraryEntry(id))?.id;
+  } catch {
+    return undefined;
+  }
+};
+
+// Records a game in the local library. Failures (e.g. private browsing) never block playing.
+const recordInLibrary = async (data: GameData, options: Parameters<typeof saveToLibrary>[1]): Promise<string | undefined> => {
+  try {
+    const entry = await saveToLibrary(data, options);
+    return entry.id;
+  } catch (e) {
+    console.warn("Could not save game to the local library:", e);
+    return undefined;
+  }
+};
 
 const App: React.FC = () => {
+  const { t } = useI18n();
   const [state, setState] = useState<GameState>({
     view: 'INPUT',
     data: null,
@@ -20,10 +53,33 @@ const App: React.FC = () => {
   // Track if we need to show the key selection dialog
   const [isKeyRequired, setIsKeyRequired] = useState<boolean>(false);
 
+  // Age group, difficulty, length and language for the next games; kept when starting over with a new Koivetz
+  const [generationOptions, setGenerationOptions] = useState<GenerationOptions>(DEFAULT_GENERATION_OPTIONS);
+
+  // Recovery actions offered by the error banner for the current error
+  const [errorRecovery, setErrorRecovery] = useState<ErrorRecovery | null>(null);
+
+  // The generation in progress (single game or pack), so it can be cancelled from the loading screen
+  const [generation, setGeneration] = useState<AbortController | null>(null);
+  // The game as far as it has streamed in, previewed while loading
+  const [streamPreview, setStreamPreview] = useState<{ type: GameType; preview: Partial<GameData> } | null>(null);
+
+  const startGeneration = () => {
+    const controller = new AbortController();
+    setGeneration(controller);
+    setStreamPreview(null);
+    return controller;
+  };
+
+  const finishGeneration = (controller: AbortController) => {
+    setGeneration(current => (current === controller ? null : current));
+  };
+
   useEffect(() => {
     const checkKeyStatus = async () => {
       const win = window as any;
-      if (!process.env.API_KEY && win.aistudio) {
+      // The offline fixture generator never needs a key
+      if (ACTIVE_GENERATOR === 'gemini' && !process.env.API_KEY && win.aistudio) {
         const hasKey = await win.aistudio.hasSelectedApiKey();
         setIsKeyRequired(!hasKey);
       }
@@ -42,14 +98,14 @@ const App: React.FC = () => {
         setState(prev => ({ ...prev, view: 'LOADING' }));
         try {
           const data = await getGameFromDatabase(gameId);
-          if (data) {
-            setState({ view: 'GAME', data });
-          } else {
-            setState(prev => ({ ...prev, view: 'MENU', error: "Game not found or expired." }));
-          }
+          const libraryEntryId = await recordInLibrary(data, { id: sharedLinkEntryId(gameId), origin: 'shared', sourceSnippet: t.app.sharedLink });
+          setState({ view: 'GAME', data, libraryEntryId });
         } catch (e) {
           console.error("Database load error:", e);
-          setState(prev => ({ ...prev, view: 'MENU', error: "Failed to load shared game." }));
+          // A copy kept when this link was opened before can still be played offline
+          const offlineCopyId = await findLibraryCopy(sharedLinkEntryId(gameId));
+          const failure = describeFailure(e, t.app.loadSharedFailed, { retry: handleHashChange, offlineCopyId });
+          setState(prev => ({ ...prev, view: 'MENU', ...failure }));
         }
         return;
       }
@@ -82,10 +138,12 @@ const App: React.FC = () => {
           }
           
           const data = JSON.parse(jsonString) as GameData;
-          setState({ view: 'GAME', data });
+          const libraryEntryId = await recordInLibrary(data, { id: sharedLinkEntryId(encoded), origin: 'shared', sourceSnippet: t.app.sharedLink });
+          setState({ view: 'GAME', data, libraryEntryId });
         } catch (e) {
           console.error("Shared link error:", e);
-          setState(prev => ({ ...prev, error: "Invalid shared link." }));
+          const failure = describeFailure(e, t.app.invalidLink);
+          setState(prev => ({ ...prev, ...failure }));
         }
       }
     };
@@ -104,51 +162,282 @@ const App: React.FC = () => {
     }
   };
 
+  /**
+   * Turns a failure into the error banner's message and details, and sets up the recovery actions
+   * that fit it: retry what failed, pick another API key, or play the copy saved in the library.
+   */
+  const describeFailure = (
+    error: unknown,
+    fallbackMessage: string,
+    { retry, offlineCopyId }: { retry?: () => void; offlineCopyId?: string } = {}
+  ): Pick<GameState, 'error' | 'errorDetails'> => {
+    const appError = toAppError(error, fallbackMessage);
+    const win = window as any;
+    setErrorRecovery({
+      // A fresh attempt can also get past a game that failed validation
+      onRetry: appError.retryable || appError instanceof ValidationError ? retry : undefined,
+      onPickKey: appError instanceof AuthError && win.aistudio ? handleOpenKeySelector : undefined,
+      onOpenOfflineCopy: offlineCopyId ? () => handleOpenLibraryEntryById(offlineCopyId) : undefined
+    });
+    return {
+      error: appError.message,
+      errorDetails: appError instanceof ValidationError ? appError.violations : undefined
+    };
+  };
+
+  const handleDismissError = () => {
+    setErrorRecovery(null);
+    setState(prev => ({ ...prev, error: undefined, errorDetails: undefined }));
+  };
+
   const handleInputSubmit = (input: GameGenerationInput) => {
     setState({ view: 'MENU', inputData: input, data: null });
   };
 
-  const handleSelectGame = async (type: GameType) => {
+  // `fresh` skips the generation cache, for a new variant of a game generated before
+  const handleSelectGame = async (type: GameType, fresh = false) => {
     if (!state.inputData) return;
 
-    setState(prev => ({ ...prev, view: 'LOADING', error: undefined }));
+    const controller = startGeneration();
+    let fromCache = false;
+    setState(prev => ({ ...prev, view: 'LOADING', error: undefined, errorDetails: undefined, activePackIndex: undefined, openedFromLibrary: false }));
     try {
-      const data = await generateGameFromContent(state.inputData, type);
-      setState(prev => ({ ...prev, view: 'GAME', data }));
+      const data = await generateGameFromContent(state.inputData, type, generationOptions, {
+        signal: controller.signal,
+        fresh,
+        onPreview: (preview) => setStreamPreview({ type, preview }),
+        onCacheHit: () => { fromCache = true; }
+      });
+      finishGeneration(controller);
+      setState(prev => ({ ...prev, view: 'GAME', data, libraryEntryId: undefined, fromCache }));
+
+      const libraryEntryId = await recordInLibrary(data, { sourceSnippet: describeSource(state.inputData) });
+      setState(prev => (prev.data === data ? { ...prev, libraryEntryId } : prev));
     } catch (error: any) {
+      finishGeneration(controller);
+      // The user already went back to the menu
+      if (error instanceof GenerationCancelledError) return;
+
       console.error("Generation error:", error);
-      
-      const errorMessage = error.message || "Failed to generate game.";
-      
-      // If the error looks like an API key issue, prompt for selection
-      if (errorMessage.toLowerCase().includes("key") || 
-          errorMessage.toLowerCase().includes("not found") ||
-          errorMessage.toLowerCase().includes("api_key")) {
+      const failure = describeFailure(error, t.app.generateFailed, { retry: () => handleSelectGame(type, fresh) });
+      setState(prev => ({ ...prev, view: 'MENU', ...failure }));
+    }
+  };
+
+  // Applies changes to one pack item, ignoring results that arrive for a pack that was replaced meanwhile
+  const updatePackItem = (packId: string, index: number, changes: Partial<ActivityPackItem>) => {
+    setState(prev => {
+      if (!prev.pack || prev.pack.id !== packId) return prev;
+      const items = prev.pack.items.map((item, i) => (i === index ? { ...item, ...changes } : item));
+      return { ...prev, pack: { ...prev.pack, items } };
+    });
+  };
+
+  const generatePackItem = async (
+    packId: string,
+    index: number,
+    type: GameType,
+    input: GameGenerationInput,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ): Promise<GameData> => {
+    try {
+      const data = await generateGameFromContent(input, type, options, { signal });
+      updatePackItem(packId, index, { status: 'ready', data });
+      return data;
+    } catch (error: any) {
+      if (error instanceof GenerationCancelledError) throw error;
+      console.error(`Pack generation error (${type}):`, error);
+      if (error instanceof AuthError) {
         setIsKeyRequired(true);
       }
+      updatePackItem(packId, index, { status: 'error', error: error.message || t.app.generateFailed });
+      throw error;
+    }
+  };
 
-      setState(prev => ({ 
-        ...prev, 
-        view: 'MENU',
-        error: errorMessage
-      }));
+  const handleGeneratePack = async (types: GameType[]) => {
+    if (!state.inputData || types.length === 0) return;
+
+    const input = state.inputData;
+    const options = generationOptions;
+    const controller = startGeneration();
+    const packId = Math.random().toString(36).substring(2, 8);
+    setState(prev => ({
+      ...prev,
+      view: 'LOADING',
+      error: undefined,
+      errorDetails: undefined,
+      activePackIndex: undefined,
+      openedFromLibrary: false,
+      pack: { id: packId, items: types.map(type => ({ type, status: 'loading' })), mentorKey: [], options }
+    }));
+
+    // All activities are generated in parallel; each card updates as soon as its game arrives
+    const results = await Promise.allSettled(types.map((type, index) => generatePackItem(packId, index, type, input, options, controller.signal)));
+    finishGeneration(controller);
+    if (controller.signal.aborted) return;
+
+    // The whole pack shares the Mentor's Corner of the first activity (in menu order) that succeeded
+    const first = results.find((r): r is PromiseFulfilledResult<GameData> => r.status === 'fulfilled');
+
+    const mentorKey = first?.value.mentorKey ?? [];
+    if (!first) {
+      const reason = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')?.reason;
+      const failure = describeFailure(reason, t.app.generateFailed, { retry: () => handleGeneratePack(types) });
+      setState(prev => (prev.pack?.id === packId
+        ? { ...prev, view: 'MENU', pack: undefined, ...failure, error: t.app.packFailed(failure.error ?? '') }
+        : prev));
+      return;
+    }
+
+    setState(prev => {
+      if (!prev.pack || prev.pack.id !== packId) return prev;
+      return {
+        ...prev,
+        view: 'PACK',
+        pack: {
+          ...prev.pack,
+          mentorKey,
+          items: prev.pack.items.map(item => (item.data ? { ...item, data: { ...item.data, mentorKey } } : item))
+        }
+      };
+    });
+
+    // Keep every pack activity in the library, as they'll be played with the shared Mentor's Corner
+    const sourceSnippet = describeSource(input);
+    results.forEach(async (result, index) => {
+      if (result.status !== 'fulfilled') return;
+      const libraryEntryId = await recordInLibrary({ ...result.value, mentorKey }, { sourceSnippet });
+      updatePackItem(packId, index, { libraryEntryId });
+    });
+  };
+
+  const handleRetryPackItem = async (index: number) => {
+    const pack = state.pack;
+    if (!pack || !state.inputData) return;
+
+    updatePackItem(pack.id, index, { status: 'loading', error: undefined });
+    try {
+      const data = await generatePackItem(pack.id, index, pack.items[index].type, state.inputData, pack.options);
+      // Adopt the pack's Mentor's Corner, or provide it if no activity had succeeded before
+      const mentorKey = pack.mentorKey.length > 0 ? pack.mentorKey : data.mentorKey;
+      const shared = { ...data, mentorKey };
+      setState(prev => {
+        if (!prev.pack || prev.pack.id !== pack.id) return prev;
+        const items = prev.pack.items.map((item, i) => (i === index ? { ...item, data: shared } : item));
+        return { ...prev, pack: { ...prev.pack, mentorKey, items } };
+      });
+
+      const libraryEntryId = await recordInLibrary(shared, { sourceSnippet: describeSource(state.inputData) });
+      updatePackItem(pack.id, index, { libraryEntryId });
+    } catch {
+      // Already recorded on the pack item
     }
   };
 
+  // Stops the generation in progress and goes back to the menu; a cancelled pack is discarded
+  const handleCancelGeneration = () => {
+    generation?.abort();
+    setGeneration(null);
+    setStreamPreview(null);
+    setState(prev => ({ ...prev, view: 'MENU', pack: prev.pack?.items.some(item => item.status === 'loading') ? undefined : prev.pack }));
+  };
+
+  const handleOpenPackItem = (index: number) => {
+    const item = state.pack?.items[index];
+    if (!item?.data) return;
+    setState(prev => ({ ...prev, view: 'GAME', data: item.data!, activePackIndex: index, libraryEntryId: item.libraryEntryId, fromCache: false, error: undefined }));
+  };
+
+  const handleOpenLibraryEntry = (entry: LibraryEntry) => {
+    setState(prev => ({
+      ...prev,
+      view: 'GAME',
+      data: entry.data,
+      libraryEntryId: entry.id,
+      openedFromLibrary: true,
+      fromCache: false,
+      activePackIndex: undefined,
+      error: undefined
+    }));
+    // Bump it to the top of the library as recently used
+    recordInLibrary(entry.data, { id: entry.id });
+  };
+
+  const handleOpenLibraryEntryById = async (id: string) => {
+    const entry = await getLibraryEntry(id);
+    if (entry) handleOpenLibraryEntry(entry);
+  };
+
+  const handleOpenLibrary = () => {
+    setState(prev => ({ ...prev, view: 'LIBRARY', data: null, error: undefined, errorDetails: undefined }));
+  };
+
   const handleBackToMenu = () => {
-    if (state.inputData) {
+    // Games opened from a pack or the library return there
+    if (state.openedFromLibrary) {
+      setState(prev => ({ ...prev, view: 'LIBRARY', data: null, libraryEntryId: undefined, openedFromLibrary: false }));
+    } else if (state.pack && state.activePackIndex !== undefined) {
+      setState(prev => ({ ...prev, view: 'PACK', data: null, activePackIndex: undefined }));
+    } else if (state.inputData) {
       setState(prev => ({ ...prev, view: 'MENU', data: null }));
     } else {
       setState({ view: 'INPUT', data: null });
     }
   };
 
+  // Leaving a live session takes it out of the address too, so a reload doesn't rejoin it
+  const handleExitLiveSession = () => {
+    clearLiveLink();
+    handleBackToMenu();
+  };
+
+  const handleSaveEdit = async (data: GameData) => {
+    const packIndex = state.activePackIndex;
+    const entryId = state.libraryEntryId;
+
+    // The edited game replaces the original everywhere: play, share, print, live and the pack
+    setState(prev => ({
+      ...prev,
+      view: 'GAME',
+      data,
+      fromCache: false,
+      pack: prev.pack && packIndex !== undefined
+        ? { ...prev.pack, items: prev.pack.items.map((item, i) => (i === packIndex ? { ...item, data } : item)) }
+        : prev.pack
+    }));
+
+    try {
+      if (entryId) {
+        await updateLibraryEntryGame(entryId, data);
+      } else {
+        const libraryEntryId = await recordInLibrary(data, { sourceSnippet: describeSource(state.inputData) });
+        setState(prev => (prev.data === data ? { ...prev, libraryEntryId } : prev));
+      }
+    } catch (e) {
+      console.warn("Could not save the edited game to the local library:", e);
+    }
+  };
+
+  // A new item matches the game it goes into, not what the options panel says now. Games made before
+  // their options were kept fall back to the panel, at the difficulty they were made at.
+  const optionsOf = (game: GameData): GenerationOptions =>
+    game.generationOptions ?? { ...generationOptions, ...(game.difficulty ? { difficulty: game.difficulty } : {}) };
+
+  // A new shuffle is kept like an edit, so shared links, prints and the library show the same board
+  const handleReshuffle = () => {
+    if (state.data) handleSaveEdit({ ...state.data, seed: newSeed() });
+  };
+
   const handleStartLiveSession = async () => {
     if (!state.data) return;
     setState(prev => ({ ...prev, view: 'LOADING' }));
     try {
       // Create session in Firebase
       const sessionId = await createLiveSession(state.data, "Host");
+      // Put the session in the address so a reload comes back to it; the host token kept on this device restores control
+      window.history.replaceState(null, '', `#live=${sessionId}`);
       setState(prev => ({ 
         ...prev, 
         view: 'LIVE_LOBBY', 
@@ -157,7 +446,8 @@ const App: React.FC = () => {
       }));
     } catch (e) {
       console.error(e);
-      setState(prev => ({ ...prev, view: 'GAME', error: "Failed to start live session." }));
+      const failure = describeFailure(e, t.app.liveFailed, { retry: handleStartLiveSession });
+      setState(prev => ({ ...prev, view: 'GAME', ...failure }));
     }
   };
 
@@ -165,6 +455,13 @@ const App: React.FC = () => {
     setState({ view: 'INPUT', data: null, inputData: undefined });
   };
 
+  const isGeneratingPack = !!state.pack && state.pack.items.some(item => item.status === 'loading');
+
+  // Single items can only be regenerated while the source content the game came from is at hand
+  const sourceInput = state.openedFromLibrary ? undefined : state.inputData;
+  // A fresh variant replaces the game on screen, which a pack activity can't be swapped for
+  const canGenerateVariant = !!sourceInput && state.activePackIndex === undefined;
+
   // If we are explicitly missing a key and have the platform selection tool
   const win = window as any;
   if (isKeyRequired && win.aistudio) {
@@ -174,13 +471,13 @@ const App: React.FC = () => {
           <div className="w-20 h-20 bg-indigo-100 text-indigo-600 rounded-full flex items-center justify-center mx-auto mb-6">
             <Key size={40} />
           </div>
-          <h1 className="text-3xl font-bold text-gray-800 mb-4">Setup API Key</h1>
+          <h1 className="text-3xl font-bold text-gray-800 mb-4">{t.app.keyTitle}</h1>
           <p className="text-gray-600 mb-8 leading-relaxed">
-            The application needs a valid, billing-enabled API key from your Google Cloud project to continue.
+            {t.app.keyBody}
           </p>
           <div className="space-y-4">
             <Button onClick={handleOpenKeySelector} className="w-full text-lg py-6 shadow-xl shadow-indigo-200">
-              Select My API Key
+              {t.app.selectKey}
             </Button>
             <a 
               href="https://ai.google.dev/gemini-api/docs/billing" 
@@ -188,7 +485,7 @@ const App: React.FC = () => {
               rel="noopener noreferrer"
               className="flex items-center justify-center gap-2 text-indigo-500 font-bold hover:text-indigo-600 transition-colors"
             >
-              Billing Documentation
+              {t.app.billingDocs}
               <ExternalLink size={16} />
             </a>
           </div>
@@ -206,20 +503,27 @@ const App: React.FC = () => {
               <span className="bg-indigo-600 text-white p-1 rounded-md text-xs">MS</span>
               {APP_TITLE}
             </h1>
+            <div className="flex items-center gap-2">
+              <LocaleSwitcher />
+              {state.view !== 'LIBRARY' && (
+                <Button onClick={handleOpenLibrary} variant="ghost" className="py-2 px-4 text-sm">
+                  <Library size={18} />
+                  {t.app.myLibrary}
+                </Button>
+              )}
+            </div>
           </div>
         </header>
       )}
 
       <main className="container mx-auto px-4 pb-12 print:p-0">
         {state.error && (
-          <div className="max-w-2xl mx-auto mb-6 p-4 bg-red-50 text-red-700 rounded-xl border border-red-200 flex items-start gap-3 animate-shake print:hidden">
-            <AlertCircle className="shrink-0 mt-0.5" size={20} />
-            <div className="flex-1">
-              <p className="font-bold">Error</p>
-              <p className="text-sm opacity-90">{state.error}</p>
-            </div>
-            <button onClick={() => setState(s => ({...s, error: undefined}))} className="text-red-900 font-bold px-2">&times;</button>
-          </div>
+          <ErrorBanner
+            message={state.error}
+            details={state.errorDetails}
+            recovery={errorRecovery}
+            onDismiss={handleDismissError}
+          />
         )}
 
         {state.view === 'INPUT' && (
@@ -229,38 +533,93 @@ const App: React.FC = () => {
         )}
 
         {state.view === 'MENU' && (
-          <GameMenu onSelectGame={handleSelectGame} onBack={handleResetToInput} />
+          <GameMenu
+            onSelectGame={handleSelectGame}
+            onGeneratePack={handleGeneratePack}
+            onBack={handleResetToInput}
+            onOpenPack={state.pack ? () => setState(prev => ({ ...prev, view: 'PACK', error: undefined })) : undefined}
+            options={generationOptions}
+            onOptionsChange={setGenerationOptions}
+          />
         )}
 
         {state.view === 'LOADING' && (
           <div className="flex flex-col items-center justify-center min-h-[50vh] text-indigo-600">
             <Loader2 className="w-16 h-16 animate-spin mb-4" />
-            <h3 className="text-xl font-bold text-gray-800">Designing your activity...</h3>
-            <p className="text-gray-500">Studying the Koivetz content...</p>
+            <h3 className="text-xl font-bold text-gray-800">{isGeneratingPack ? t.app.designingPack : t.app.designing}</h3>
+            <p className="text-gray-500">{t.app.studying}</p>
+            {isGeneratingPack && (
+              <ul className="mt-8 w-full max-w-sm space-y-2">
+                {state.pack!.items.map((item, i) => (
+                  <li key={i} className="flex items-center justify-between bg-white rounded-xl px-4 py-3 shadow-sm border border-slate-100 text-gray-700">
+                    <span className="font-bold">{t.gameTypes[item.type].label}</span>
+                    {item.status === 'loading' && <Loader2 size={18} className="animate-spin text-indigo-500" />}
+                    {item.status === 'ready' && <CheckCircle size={18} className="text-emerald-500" />}
+                    {item.status === 'error' && <AlertCircle size={18} className="text-red-500" />}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {!isGeneratingPack && streamPreview && <GenerationPreview type={streamPreview.type} preview={streamPreview.preview} />}
+            {generation && (
+              <Button onClick={handleCancelGeneration} variant="ghost" className="mt-8">
+                <X size={18} />
+                {t.common.cancel}
+              </Button>
+            )}
           </div>
         )}
 
+        {state.view === 'LIBRARY' && (
+          <GameLibrary
+            onOpen={handleOpenLibraryEntry}
+            onBack={() => setState(prev => ({ ...prev, view: prev.inputData ? 'MENU' : 'INPUT' }))}
+          />
+        )}
+
+        {state.view === 'PACK' && state.pack && (
+          <PackDashboard
+            pack={state.pack}
+            onOpen={handleOpenPackItem}
+            onRetry={handleRetryPackItem}
+            onBack={() => setState(prev => ({ ...prev, view: 'MENU' }))}
+          />
+        )}
+
         {state.view === 'GAME' && state.data && (
           <div className="animate-fade-in">
              <GameView 
                 data={state.data} 
                 onReset={handleBackToMenu}
                 onStartLiveSession={handleStartLiveSession} 
+                onEdit={() => setState(prev => ({ ...prev, view: 'EDIT', error: undefined }))}
+                fromCache={state.fromCache}
+                onFreshVariant={canGenerateVariant ? () => handleSelectGame(state.data!.type, true) : undefined}
+                onReshuffle={handleReshuffle}
              />
           </div>
         )}
 
+        {state.view === 'EDIT' && state.data && (
+          <GameEditor
+            data={state.data}
+            onSave={handleSaveEdit}
+            onCancel={() => setState(prev => ({ ...prev, view: 'GAME' }))}
+            onRegenerateItem={sourceInput ? (game, index) => regenerateGameItem(sourceInput, game, index, optionsOf(game)) : undefined}
+          />
+        )}
+
         {(state.view === 'LIVE_LOBBY' || state.view === 'LIVE_SESSION') && state.liveSessionId && (
           <LiveSession
             sessionId={state.liveSessionId}
             isHost={!!state.isHost}
-            onExit={handleBackToMenu}
+            onExit={handleExitLiveSession}
           />
         )}
       </main>
 
       <footer className="text-center text-gray-400 text-sm py-8 print:hidden">
-        <p>&copy; {new Date().getFullYear()} MyShliach Mentor Program</p>
+        <p>{t.app.footer(new Date().getFullYear())}</p>
       </footer>
     </div>
   );
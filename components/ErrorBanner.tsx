@@ -0,0 +1,65 @@
+import React from 'react';
+import { AlertCircle, RefreshCw, Key, Library } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+// What the banner can offer to get past the error; only the actions that apply are set
+export interface ErrorRecovery {
+  onRetry?: () => void;
+  onPickKey?: () => void;
+  onOpenOfflineCopy?: () => void;
+}
+
+interface ErrorBannerProps {
+  message: string;
+  details?: string[];
+  recovery?: ErrorRecovery | null;
+  onDismiss: () => void;
+}
+
+const actionClass = "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white border border-red-200 text-red-700 text-sm font-bold hover:bg-red-100 transition-colors";
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, details, recovery, onDismiss }) => {
+  const { t } = useI18n();
+  const run = (action?: () => void) => () => {
+    onDismiss();
+    action?.();
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto mb-6 p-4 bg-red-50 text-red-700 rounded-xl border border-red-200 flex items-start gap-3 animate-shake print:hidden">
+      <AlertCircle className="shrink-0 mt-0.5" size={20} />
+      <div className="flex-1">
+        <p className="font-bold">{t.errorBanner.title}</p>
+        <p className="text-sm opacity-90">{message}</p>
+        {details && details.length > 0 && (
+          <ul className="mt-2 text-xs opacity-80 list-disc ps-4 space-y-0.5">
+            {details.map((detail, i) => <li key={i}>{detail}</li>)}
+          </ul>
+        )}
+        {recovery && (recovery.onRetry || recovery.onPickKey || recovery.onOpenOfflineCopy) && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {recovery.onPickKey && (
+              <button onClick={run(recovery.onPickKey)} className={actionClass}>
+                <Key size={14} />
+                {t.errorBanner.selectKey}
+              </button>
+            )}
+            {recovery.onRetry && (
+              <button onClick={run(recovery.onRetry)} className={actionClass}>
+                <RefreshCw size={14} />
+                {t.common.tryAgain}
+              </button>
+            )}
+            {recovery.onOpenOfflineCopy && (
+              <button onClick={run(recovery.onOpenOfflineCopy)} className={actionClass}>
+                <Library size={14} />
+                {t.errorBanner.openSavedCopy}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <button onClick={onDismiss} title={t.errorBanner.dismiss} className="text-red-900 font-bold px-2">&times;</button>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useState, useEffect } from 'react';
+import { GameType } from '../types';
+import { Button } from './Button';
+import { GAME_OPTIONS, getGameOption } from './GameMenu';
+import { GenerationCachePanel } from './GenerationCachePanel';
+import {
+  LibraryEntry,
+  listLibraryEntries,
+  renameLibraryEntry,
+  duplicateLibraryEntry,
+  deleteLibraryEntry
+} from '../services/libraryService';
+import { Library, Search, Play, Pencil, Copy, Trash2, Check, X, Loader2 } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface GameLibraryProps {
+  onOpen: (entry: LibraryEntry) => void;
+  onBack: () => void;
+}
+
+export const GameLibrary: React.FC<GameLibraryProps> = ({ onOpen, onBack }) => {
+  const { t, locale } = useI18n();
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<GameType | 'ALL'>('ALL');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+
+  const refresh = async () => {
+    try {
+      setEntries(await listLibraryEntries());
+      setError(null);
+    } catch (e) {
+      console.error("Library load error:", e);
+      setError(t.library.loadFailed);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Runs a library mutation and reloads the list afterwards
+  const mutate = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("Library update error:", e);
+      setError(e.message || t.library.updateFailed);
+    }
+    await refresh();
+  };
+
+  const startRename = (entry: LibraryEntry) => {
+    setEditingId(entry.id);
+    setEditTitle(entry.title);
+  };
+
+  const submitRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !editTitle.trim()) return;
+    const id = editingId;
+    setEditingId(null);
+    await mutate(() => renameLibraryEntry(id, editTitle.trim()));
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!confirm(t.library.confirmDelete(entry.title))) return;
+    await mutate(() => deleteLibraryEntry(entry.id));
+  };
+
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleEntries = entries.filter(entry =>
+    (typeFilter === 'ALL' || entry.type === typeFilter) &&
+    (!normalizedQuery ||
+      entry.title.toLowerCase().includes(normalizedQuery) ||
+      entry.sourceSnippet.toLowerCase().includes(normalizedQuery))
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in-up">
+      <div className="text-center mb-8">
+        <div className="inline-flex items-center justify-center w-16 h-16 bg-indigo-100 rounded-full mb-4 text-indigo-600">
+          <Library size={32} />
+        </div>
+        <h2 className="text-3xl font-bold text-indigo-900 mb-2">{t.library.title}</h2>
+        <p className="text-gray-600">{t.library.subtitle}</p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3 mb-6">
+        <div className="flex-1 relative">
+          <Search size={18} className="absolute start-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.library.search}
+            className="w-full ps-10 pe-4 py-3 rounded-xl border-2 border-indigo-100 focus:border-indigo-500 outline-none bg-white"
+          />
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as GameType | 'ALL')}
+          className="px-4 py-3 rounded-xl border-2 border-indigo-100 focus:border-indigo-500 outline-none bg-white font-medium text-gray-700"
+        >
+          <option value="ALL">{t.library.allTypes}</option>
+          {GAME_OPTIONS.map(g => (
+            <option key={g.type} value={g.type}>{t.gameTypes[g.type].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-center text-red-600 text-sm font-bold">{error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16 text-indigo-600">
+          <Loader2 className="w-8 h-8 animate-spin" />
+        </div>
+      ) : visibleEntries.length === 0 ? (
+        <div className="text-center py-16 text-gray-400 italic">
+          {entries.length === 0 ? t.library.empty : t.library.noMatch}
+        </div>
+      ) : (
+        <ul className="space-y-3 mb-8">
+          {visibleEntries.map(entry => {
+            const option = getGameOption(entry.type);
+            return (
+              <li key={entry.id} className="flex flex-col md:flex-row md:items-center gap-4 bg-white p-4 rounded-2xl shadow-sm border-2 border-slate-100">
+                <div className={`w-12 h-12 rounded-full flex items-center justify-center shrink-0 ${option.color}`}>
+                  <option.icon size={24} />
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {editingId === entry.id ? (
+                    <form onSubmit={submitRename} className="flex gap-2">
+                      <input
+                        autoFocus
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        className="flex-1 px-3 py-1 rounded-lg border-2 border-indigo-300 outline-none"
+                      />
+                      <button type="submit" className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg" title={t.library.saveName}>
+                        <Check size={18} />
+                      </button>
+                      <button type="button" onClick={() => setEditingId(null)} className="p-2 text-gray-400 hover:bg-gray-50 rounded-lg" title={t.common.cancel}>
+                        <X size={18} />
+                      </button>
+                    </form>
+                  ) : (
+                    <h3 className="font-bold text-gray-800 truncate">{entry.title}</h3>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">
+                    <span className="font-bold uppercase tracking-wide">{t.gameTypes[entry.type].label}</span>
+                    {' · '}
+                    {new Date(entry.createdAt).toLocaleDateString(locale)}
+                    {entry.origin === 'shared' && ` · ${t.library.fromSharedLink}`}
+                  </p>
+                  {entry.sourceSnippet && (
+                    <p className="text-sm text-gray-500 mt-1 truncate">{entry.sourceSnippet}</p>
+                  )}
+                </div>
+
+                <div className="flex gap-1 shrink-0">
+                  <Button onClick={() => onOpen(entry)} className="py-2 px-4">
+                    <Play size={16} />
+                    {t.library.open}
+                  </Button>
+                  <button onClick={() => startRename(entry)} className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg" title={t.library.rename}>
+                    <Pencil size={18} />
+                  </button>
+                  <button onClick={() => mutate(() => duplicateLibraryEntry(entry.id, t.library.copyTitle))} className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg" title={t.library.duplicate}>
+                    <Copy size={18} />
+                  </button>
+                  <button onClick={() => handleDelete(entry)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg" title={t.library.delete}>
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <GenerationCachePanel />
+
+      <div className="flex justify-center">
+        <Button onClick={onBack} variant="ghost">
+          {t.common.back}
+        </Button>
+      </div>
+    </div>
+  );
+};
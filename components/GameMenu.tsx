@@ -1,7 +1,9 @@
 
-import React from 'react';
-import { GameType } from '../types';
+import React, { useState } from 'react';
+import { GameType, GenerationOptions } from '../types';
 import { Button } from './Button';
+import { GenerationOptionsPanel } from './GenerationOptionsPanel';
+import { useI18n } from '../i18n';
 import { 
   Brain, 
   Search, 
@@ -16,58 +18,129 @@ import {
   Map,
   Eye,
   Layers,
-  CheckSquare
+  CheckSquare,
+  Package,
+  Check,
+  LucideIcon
 } from 'lucide-react';
 
+// Names and descriptions come from the message catalogs (`t.gameTypes`)
+export interface GameOption {
+  type: GameType;
+  icon: LucideIcon;
+  color: string;
+}
+
+export const GAME_OPTIONS: GameOption[] = [
+  { type: GameType.QUIZ, icon: Brain, color: 'bg-indigo-100 text-indigo-600' },
+  { type: GameType.TRUE_FALSE, icon: CheckSquare, color: 'bg-lime-100 text-lime-600' },
+  { type: GameType.WORD_SEARCH, icon: Search, color: 'bg-emerald-100 text-emerald-600' },
+  { type: GameType.MATCHING, icon: ArrowRightLeft, color: 'bg-amber-100 text-amber-600' },
+  { type: GameType.MEMORY, icon: Layers, color: 'bg-rose-100 text-rose-600' },
+  { type: GameType.SEQUENCE, icon: ListOrdered, color: 'bg-blue-100 text-blue-600' },
+  { type: GameType.CROSSWORD, icon: Grid, color: 'bg-teal-100 text-teal-600' },
+  { type: GameType.EMOJI_CHALLENGE, icon: Smile, color: 'bg-yellow-100 text-yellow-600' },
+  { type: GameType.TRIVIA_TRAIL, icon: Map, color: 'bg-green-100 text-green-600' },
+  { type: GameType.FIND_MATCH, icon: Eye, color: 'bg-red-100 text-red-600' },
+  { type: GameType.SORTING, icon: LayoutGrid, color: 'bg-purple-100 text-purple-600' },
+  { type: GameType.FILL_IN_BLANK, icon: PenTool, color: 'bg-pink-100 text-pink-600' },
+  { type: GameType.RIDDLE, icon: HelpCircle, color: 'bg-orange-100 text-orange-600' },
+  { type: GameType.UNSCRAMBLE, icon: MessageSquare, color: 'bg-cyan-100 text-cyan-600' },
+];
+
+export const getGameOption = (type: GameType): GameOption =>
+  GAME_OPTIONS.find(g => g.type === type) ?? GAME_OPTIONS[0];
+
 interface GameMenuProps {
   onSelectGame: (type: GameType) => void;
+  onGeneratePack: (types: GameType[]) => void;
   onBack: () => void;
+  // Shown when a pack was already generated from this Koivetz
+  onOpenPack?: () => void;
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
 }
 
-export const GameMenu: React.FC<GameMenuProps> = ({ onSelectGame, onBack }) => {
-  const games = [
-    { type: GameType.QUIZ, label: 'Quiz Challenge', icon: Brain, color: 'bg-indigo-100 text-indigo-600', desc: 'Test your knowledge' },
-    { type: GameType.TRUE_FALSE, label: 'True or False', icon: CheckSquare, color: 'bg-lime-100 text-lime-600', desc: 'Fact checking' },
-    { type: GameType.WORD_SEARCH, label: 'Word Search', icon: Search, color: 'bg-emerald-100 text-emerald-600', desc: 'Find hidden words' },
-    { type: GameType.MATCHING, label: 'Matching', icon: ArrowRightLeft, color: 'bg-amber-100 text-amber-600', desc: 'Connect terms & meanings' },
-    { type: GameType.MEMORY, label: 'Memory Match', icon: Layers, color: 'bg-rose-100 text-rose-600', desc: 'Find matching pairs' },
-    { type: GameType.SEQUENCE, label: 'Story Order', icon: ListOrdered, color: 'bg-blue-100 text-blue-600', desc: 'Arrange the timeline' },
-    { type: GameType.CROSSWORD, label: 'Crossword', icon: Grid, color: 'bg-teal-100 text-teal-600', desc: 'Solve the puzzle' },
-    { type: GameType.EMOJI_CHALLENGE, label: 'Emoji Guess', icon: Smile, color: 'bg-yellow-100 text-yellow-600', desc: 'Decode the pictures' },
-    { type: GameType.TRIVIA_TRAIL, label: 'Parsha Maze', icon: Map, color: 'bg-green-100 text-green-600', desc: 'Board game adventure' },
-    { type: GameType.FIND_MATCH, label: 'Spot It!', icon: Eye, color: 'bg-red-100 text-red-600', desc: 'Find the matching pair' },
-    { type: GameType.SORTING, label: 'Category Sort', icon: LayoutGrid, color: 'bg-purple-100 text-purple-600', desc: 'Group items together' },
-    { type: GameType.FILL_IN_BLANK, label: 'Fill in Blanks', icon: PenTool, color: 'bg-pink-100 text-pink-600', desc: 'Complete the story' },
-    { type: GameType.RIDDLE, label: 'Riddle Me This', icon: HelpCircle, color: 'bg-orange-100 text-orange-600', desc: 'Guess from clues' },
-    { type: GameType.UNSCRAMBLE, label: 'Unscramble', icon: MessageSquare, color: 'bg-cyan-100 text-cyan-600', desc: 'Fix the mixed words' },
-  ];
+export const GameMenu: React.FC<GameMenuProps> = ({ onSelectGame, onGeneratePack, onBack, onOpenPack, options, onOptionsChange }) => {
+  const { t } = useI18n();
+  const [isPackMode, setIsPackMode] = useState(false);
+  const [selectedTypes, setSelectedTypes] = useState<GameType[]>([]);
+
+  const handleCardClick = (type: GameType) => {
+    if (!isPackMode) {
+      onSelectGame(type);
+      return;
+    }
+    setSelectedTypes(prev => (prev.includes(type) ? prev.filter(selected => selected !== type) : [...prev, type]));
+  };
+
+  const togglePackMode = () => {
+    setIsPackMode(prev => !prev);
+    setSelectedTypes([]);
+  };
 
   return (
     <div className="max-w-6xl mx-auto animate-fade-in-up">
       <div className="text-center mb-10">
-        <h2 className="text-3xl font-bold text-indigo-900 mb-2">Choose an Activity</h2>
-        <p className="text-gray-600">Pick a game format to generate from your Koivetz.</p>
+        <h2 className="text-3xl font-bold text-indigo-900 mb-2">{t.menu.title}</h2>
+        <p className="text-gray-600">
+          {isPackMode ? t.menu.packHint : t.menu.pickHint}
+        </p>
+        <div className="flex justify-center gap-2 mt-4">
+          <Button onClick={togglePackMode} variant={isPackMode ? 'secondary' : 'outline'} className="py-2 text-sm">
+            <Package size={16} />
+            {isPackMode ? t.menu.cancelPack : t.menu.buildPack}
+          </Button>
+          {onOpenPack && !isPackMode && (
+            <Button onClick={onOpenPack} variant="ghost" className="py-2 text-sm">
+              {t.menu.openPack}
+            </Button>
+          )}
+        </div>
       </div>
 
+      <GenerationOptionsPanel options={options} onChange={onOptionsChange} />
+
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 md:gap-6 mb-8">
-        {games.map((g) => (
-          <button
-            key={g.type}
-            onClick={() => onSelectGame(g.type)}
-            className="flex flex-col items-center p-6 bg-white rounded-2xl shadow-sm border-2 border-slate-100 hover:border-indigo-400 hover:shadow-md hover:-translate-y-1 transition-all text-center group h-full"
-          >
-            <div className={`w-14 h-14 rounded-full flex items-center justify-center mb-4 ${g.color} group-hover:scale-110 transition-transform`}>
-              <g.icon size={28} />
-            </div>
-            <h3 className="font-bold text-gray-800 text-lg mb-1">{g.label}</h3>
-            <p className="text-xs text-gray-400">{g.desc}</p>
-          </button>
-        ))}
+        {GAME_OPTIONS.map((g) => {
+          const isSelected = selectedTypes.includes(g.type);
+          return (
+            <button
+              key={g.type}
+              onClick={() => handleCardClick(g.type)}
+              className={`relative flex flex-col items-center p-6 bg-white rounded-2xl shadow-sm border-2 hover:border-indigo-400 hover:shadow-md hover:-translate-y-1 transition-all text-center group h-full ${isSelected ? 'border-indigo-500 ring-4 ring-indigo-100' : 'border-slate-100'}`}
+            >
+              {isPackMode && (
+                <span className={`absolute top-3 end-3 w-6 h-6 rounded-full border-2 flex items-center justify-center ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300'}`}>
+                  {isSelected && <Check size={14} />}
+                </span>
+              )}
+              <div className={`w-14 h-14 rounded-full flex items-center justify-center mb-4 ${g.color} group-hover:scale-110 transition-transform`}>
+                <g.icon size={28} />
+              </div>
+              <h3 className="font-bold text-gray-800 text-lg mb-1">{t.gameTypes[g.type].label}</h3>
+              <p className="text-xs text-gray-400">{t.gameTypes[g.type].desc}</p>
+            </button>
+          );
+        })}
       </div>
 
+      {isPackMode && (
+        <div className="sticky bottom-4 flex justify-center mb-8 z-10">
+          <Button
+            onClick={() => onGeneratePack(selectedTypes)}
+            disabled={selectedTypes.length === 0}
+            className="shadow-xl shadow-indigo-200"
+          >
+            <Package size={20} />
+            {t.menu.generatePack(selectedTypes.length)}
+          </Button>
+        </div>
+      )}
+
       <div className="flex justify-center">
         <Button onClick={onBack} variant="ghost">
-          Upload Different File
+          {t.menu.uploadDifferent}
         </Button>
       </div>
     </div>
@@ -13,20 +13,34 @@ import { CrosswordGame } from './games/CrosswordGame';
 import { EmojiGame } from './games/EmojiGame';
 import { TriviaTrailGame } from './games/TriviaTrailGame';
 import { FindMatchGame } from './games/FindMatchGame';
-import { Share2, User, CopyCheck, ArrowLeft, Printer, Loader2, Play } from 'lucide-react';
+import { Share2, User, CopyCheck, ArrowLeft, Printer, Loader2, Play, Pencil, Sparkles, History, Shuffle } from 'lucide-react';
 import { Button } from './Button';
+import { CitationList } from './SourceCitations';
 import LZString from 'lz-string';
 import { saveGameToDatabase } from '../services/firebaseService';
+import { textDirection } from '../services/hebrew';
+import { LocaleSwitcher } from './LocaleSwitcher';
+import { useI18n } from '../i18n';
 
 interface GameViewProps {
   data: GameData;
   onReset: () => void;
   onStartLiveSession: () => void;
+  onEdit?: () => void;
+  // Set when the game was reused from the generation cache rather than generated just now
+  fromCache?: boolean;
+  // Generates a new variant of the game from the same source, bypassing the cache
+  onFreshVariant?: () => void;
+  // Gives the game a new seed, so every shuffle and grid comes out differently
+  onReshuffle?: () => void;
 }
 
-export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSession }) => {
+export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSession, onEdit, fromCache, onFreshVariant, onReshuffle }) => {
+  const { t } = useI18n();
   const [copied, setCopied] = useState(false);
   const [isSharing, setIsSharing] = useState(false);
+  // Hebrew and Yiddish games are laid out right to left
+  const direction = textDirection(data.title, data.instructions);
 
   const handleShare = async () => {
     setIsSharing(true);
@@ -46,7 +60,7 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
       }
     } catch (e) {
       console.error("Failed to share", e);
-      alert("Could not generate share link.");
+      alert(t.gameView.shareFailed);
     } finally {
       setIsSharing(false);
     }
@@ -58,7 +72,7 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } else {
-      prompt("Copy this link to share:", url);
+      prompt(t.gameView.copyPrompt, url);
     }
   };
 
@@ -67,7 +81,7 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
       window.print();
     } catch (e) {
       console.error("Print failed", e);
-      alert("Printing seems to be blocked. Please press Ctrl+P (or Cmd+P) on your keyboard to print.");
+      alert(t.gameView.printBlocked);
     }
   };
 
@@ -101,7 +115,7 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
       case GameType.FIND_MATCH:
         return <FindMatchGame data={data} onReset={onReset} />;
       default:
-        return <div className="text-center text-red-500">Unsupported game type</div>;
+        return <div className="text-center text-red-500">{t.gameView.unsupported}</div>;
     }
   };
 
@@ -110,49 +124,78 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
       {/* Header - Hide on print */}
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-8 gap-4 print:hidden">
         <div className="flex items-center gap-4">
-           <button onClick={onReset} className="p-2 rounded-full hover:bg-slate-200 transition-colors">
-              <ArrowLeft size={24} className="text-gray-600" />
+           <button onClick={onReset} className="p-2 rounded-full hover:bg-slate-200 transition-colors" title={t.common.back}>
+              <ArrowLeft size={24} className="text-gray-600 rtl:rotate-180" />
            </button>
-           <div>
+           <div dir={direction}>
               <h1 className="text-3xl md:text-4xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-indigo-600 to-purple-600">
                 {data.title}
               </h1>
               <p className="text-gray-600 mt-2 text-lg flex items-center gap-2">
                 <span className="font-bold bg-amber-100 text-amber-800 px-3 py-1 rounded-full text-xs uppercase tracking-wide">
-                  {data.type.replace(/_/g, ' ')}
+                  {t.gameTypes[data.type].label}
                 </span>
                 {data.instructions}
               </p>
            </div>
         </div>
         
-        <div className="flex gap-2 shrink-0">
+        <div className="flex items-center gap-2 shrink-0">
+          <LocaleSwitcher />
           <Button onClick={onReset} variant="ghost" className="hidden md:flex">
-             Change Game
+             {t.gameView.changeGame}
           </Button>
-          <Button onClick={onStartLiveSession} variant="secondary" title="Start Live Session">
-             <Play size={20} className="mr-2" /> 
-             <span className="hidden lg:inline">Live Mode</span>
+          {onFreshVariant && (
+            <Button onClick={onFreshVariant} variant="outline" title={t.gameView.freshVariantTitle}>
+               <Sparkles size={20} />
+               <span className="ms-2 hidden lg:inline">{t.gameView.freshVariant}</span>
+            </Button>
+          )}
+          {onReshuffle && (
+            <Button onClick={onReshuffle} variant="outline" title={t.gameView.reshuffleTitle}>
+               <Shuffle size={20} />
+               <span className="ms-2 hidden lg:inline">{t.gameView.reshuffle}</span>
+            </Button>
+          )}
+          {onEdit && (
+            <Button onClick={onEdit} variant="outline" title={t.gameView.editTitle}>
+               <Pencil size={20} />
+               <span className="ms-2 hidden lg:inline">{t.gameView.edit}</span>
+            </Button>
+          )}
+          <Button onClick={onStartLiveSession} variant="secondary" title={t.gameView.liveModeTitle}>
+             <Play size={20} className="me-2" />
+             <span className="hidden lg:inline">{t.gameView.liveMode}</span>
           </Button>
-          <Button onClick={handlePrint} variant="outline" title="Print Game">
+          <Button onClick={handlePrint} variant="outline" title={t.gameView.printTitle}>
              <Printer size={20} />
-             <span className="ml-2 hidden lg:inline">Print</span>
+             <span className="ms-2 hidden lg:inline">{t.gameView.print}</span>
           </Button>
           <Button onClick={handleShare} disabled={isSharing}>
             {isSharing ? <Loader2 size={20} className="animate-spin" /> : (copied ? <CopyCheck size={20} /> : <Share2 size={20} />)}
-            {isSharing ? 'Saving...' : (copied ? 'Copied!' : 'Share Game')}
+            {isSharing ? t.gameView.saving : (copied ? t.gameView.copied : t.gameView.share)}
           </Button>
         </div>
       </div>
 
+      {fromCache && (
+        <div className="flex items-center gap-2 mb-6 px-4 py-3 bg-amber-50 border border-amber-200 text-amber-800 rounded-xl text-sm print:hidden">
+          <History size={18} className="shrink-0" />
+          <span className="flex-1">{t.gameView.fromCache}</span>
+          {onFreshVariant && (
+            <button onClick={onFreshVariant} className="font-bold underline hover:text-amber-900">{t.gameView.generateFresh}</button>
+          )}
+        </div>
+      )}
+
       {/* Print Header (Only visible when printing) */}
-      <div className="hidden print:block mb-6 text-center">
+      <div className="hidden print:block mb-6 text-center" dir={direction}>
          <h1 className="text-3xl font-bold mb-2">{data.title}</h1>
          <p className="text-gray-600 italic">{data.instructions}</p>
       </div>
 
-      {/* Game Area */}
-      <div className="bg-slate-50 rounded-3xl min-h-[400px] mb-12 border border-slate-200 p-6 md:p-8 print:border-none print:shadow-none print:bg-white print:p-0">
+      {/* Game Area; a new seed starts the game over with the new shuffle */}
+      <div key={data.seed} className="bg-slate-50 rounded-3xl min-h-[400px] mb-12 border border-slate-200 p-6 md:p-8 print:border-none print:shadow-none print:bg-white print:p-0" dir={direction}>
         {renderGame()}
       </div>
 
@@ -161,12 +204,12 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
         <div className="bg-indigo-50 rounded-2xl p-6 border border-indigo-200 print:bg-white print:border-slate-300">
           <div className="flex items-center gap-2 mb-4 text-indigo-800 print:text-black">
             <User size={24} />
-            <h3 className="text-xl font-bold">Mentor's Corner</h3>
+            <h3 className="text-xl font-bold">{t.common.mentorsCorner}</h3>
           </div>
           <p className="text-indigo-900/70 mb-4 text-sm italic print:text-black">
-            Use these key points to guide the discussion with your student after the game.
+            {t.gameView.mentorHint}
           </p>
-          <ul className="space-y-2">
+          <ul className="space-y-2" dir={direction}>
             {data.mentorKey.map((point, i) => (
               <li key={i} className="flex gap-3 text-indigo-900 print:text-black">
                 <span className="font-bold text-indigo-400 min-w-[20px] print:text-black">•</span>
@@ -174,6 +217,7 @@ export const GameView: React.FC<GameViewProps> = ({ data, onReset, onStartLiveSe
               </li>
             ))}
           </ul>
+          <CitationList data={data} />
         </div>
       </div>
     </div>
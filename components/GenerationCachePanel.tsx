@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import {
+  GenerationCacheEntry,
+  listCacheEntries,
+  deleteCacheEntry,
+  clearGenerationCache
+} from '../services/generationCache';
+import { Database, Trash2, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Shows what the generation cache holds on this device and lets the mentor remove entries,
+ * e.g. to force new games for content they generated before.
+ */
+export const GenerationCachePanel: React.FC = () => {
+  const { t, locale } = useI18n();
+  const [entries, setEntries] = useState<GenerationCacheEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setEntries(await listCacheEntries());
+      setError(null);
+    } catch (e) {
+      console.error("Cache load error:", e);
+      setError(t.cache.unavailable);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const mutate = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e: any) {
+      console.error("Cache update error:", e);
+      setError(e.message || t.cache.updateFailed);
+    }
+    await refresh();
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t.cache.confirmClear)) return;
+    await mutate(clearGenerationCache);
+  };
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const totalHits = entries.reduce((sum, entry) => sum + entry.hits, 0);
+
+  return (
+    <section className="mb-8 bg-white rounded-2xl shadow-sm border-2 border-slate-100 p-4">
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <div className="flex items-center gap-3 flex-1">
+          <div className="w-10 h-10 rounded-full bg-slate-100 text-slate-600 flex items-center justify-center shrink-0">
+            <Database size={20} />
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800">{t.cache.title}</h3>
+            <p className="text-sm text-gray-500">
+              {isLoading ? t.common.loading : t.cache.summary(entries.length, formatSize(totalSize), totalHits)}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsOpen(open => !open)}
+            disabled={entries.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-bold text-indigo-600 hover:bg-indigo-50 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            {isOpen ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+            {isOpen ? t.cache.hideEntries : t.cache.showEntries}
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-bold text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            <Trash2 size={16} />
+            {t.cache.clear}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-3 text-red-600 text-sm font-bold">{error}</p>}
+
+      {isLoading && isOpen && (
+        <div className="flex justify-center py-6 text-indigo-600">
+          <Loader2 className="w-6 h-6 animate-spin" />
+        </div>
+      )}
+
+      {!isLoading && isOpen && entries.length > 0 && (
+        <ul className="mt-4 divide-y divide-slate-100">
+          {entries.map(entry => (
+            <li key={entry.key} className="flex items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-800 truncate">{entry.title}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  <span className="font-bold uppercase tracking-wide">{t.gameTypes[entry.type].label}</span>
+                  {' · '}
+                  {formatSize(entry.sizeBytes)}
+                  {' · '}
+                  {t.cache.lastUsed(new Date(entry.lastUsedAt).toLocaleDateString(locale))}
+                  {entry.sourceSnippet && ` · ${entry.sourceSnippet}`}
+                </p>
+              </div>
+              <button onClick={() => mutate(() => deleteCacheEntry(entry.key))} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg" title={t.cache.removeEntry}>
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
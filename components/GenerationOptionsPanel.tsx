@@ -0,0 +1,94 @@
+import React from 'react';
+import { GenerationOptions, AgeBand, Difficulty, OutputLanguage, HebrewTermStyle } from '../types';
+import { SlidersHorizontal } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+const AGE_BANDS: AgeBand[] = ['6-8', '8-12', '12-16'];
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+const LANGUAGES: OutputLanguage[] = ['en', 'mixed', 'he', 'yi'];
+const HEBREW_TERM_STYLES: HebrewTermStyle[] = ['transliterate', 'gloss', 'translate'];
+
+const selectClass = "w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-indigo-500 outline-none bg-white text-gray-800";
+
+interface SelectFieldProps<T extends string> {
+  label: string;
+  value: T;
+  choices: { value: T; label: string }[];
+  onChange: (value: T) => void;
+  disabled?: boolean;
+}
+
+function SelectField<T extends string>({ label, value, choices, onChange, disabled }: SelectFieldProps<T>) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-1">{label}</span>
+      <select value={value} onChange={(e) => onChange(e.target.value as T)} disabled={disabled} className={`${selectClass} disabled:opacity-50`}>
+        {choices.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+      </select>
+    </label>
+  );
+}
+
+interface GenerationOptionsPanelProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+}
+
+/**
+ * Audience, difficulty, length and language settings applied to every game generated from the menu.
+ */
+export const GenerationOptionsPanel: React.FC<GenerationOptionsPanelProps> = ({ options, onChange }) => {
+  const { t } = useI18n();
+  const set = (changes: Partial<GenerationOptions>) => onChange({ ...options, ...changes });
+  // Term spelling only applies to English text
+  const isEnglish = options.language === 'en' || options.language === 'mixed';
+
+  return (
+    <div className="bg-white p-5 rounded-2xl border-2 border-slate-100 shadow-sm mb-8">
+      <div className="flex items-center gap-2 mb-4 text-indigo-900">
+        <SlidersHorizontal size={18} />
+        <h3 className="font-bold">{t.options.title}</h3>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <SelectField
+          label={t.options.ageGroup}
+          value={options.ageBand}
+          choices={AGE_BANDS.map(value => ({ value, label: t.options.ages(value) }))}
+          onChange={(ageBand) => set({ ageBand })}
+        />
+        <SelectField
+          label={t.options.difficulty}
+          value={options.difficulty}
+          choices={DIFFICULTIES.map(value => ({ value, label: t.options.difficulties[value] }))}
+          onChange={(difficulty) => set({ difficulty })}
+        />
+        <label className="block">
+          <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-1">{t.options.items}</span>
+          <input
+            type="number"
+            min={2}
+            max={40}
+            value={options.itemCount ?? ''}
+            placeholder={t.options.itemsDefault}
+            onChange={(e) => set({ itemCount: e.target.value ? Number(e.target.value) : undefined })}
+            className={selectClass}
+            title={t.options.itemsHint}
+          />
+        </label>
+        <SelectField
+          label={t.options.language}
+          value={options.language}
+          choices={LANGUAGES.map(value => ({ value, label: t.options.languages[value] }))}
+          onChange={(language) => set({ language })}
+        />
+        <SelectField
+          label={t.options.hebrewTerms}
+          value={options.hebrewTerms}
+          choices={HEBREW_TERM_STYLES.map(value => ({ value, label: t.options.termStyles[value] }))}
+          onChange={(hebrewTerms) => set({ hebrewTerms })}
+          disabled={!isEnglish}
+        />
+      </div>
+    </div>
+  );
+};
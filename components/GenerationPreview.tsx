@@ -0,0 +1,53 @@
+import React from 'react';
+import { GameData, GameType } from '../types';
+import { GAME_TYPE_SPECS } from '../services/gameSchema';
+import { describeItem } from '../services/gameItems';
+import { useI18n } from '../i18n';
+
+const MAX_PREVIEW_ITEMS = 5;
+
+// Items written so far, skipping ones that don't have any text yet
+const previewItems = (preview: Partial<GameData>, type: GameType): string[] => {
+  const { contentKey } = GAME_TYPE_SPECS[type];
+  const content: any = preview[contentKey];
+  const items = contentKey === 'sortingContent' ? content?.items
+    : contentKey === 'fillBlankContent' ? content?.missingWords
+    : content;
+  return Array.isArray(items) ? items.map(describeItem).filter(text => text.trim().length > 0) : [];
+};
+
+interface GenerationPreviewProps {
+  type: GameType;
+  preview: Partial<GameData>;
+}
+
+/**
+ * The game as far as it has been written, shown on the loading screen while it streams in.
+ */
+export const GenerationPreview: React.FC<GenerationPreviewProps> = ({ type, preview }) => {
+  const { t } = useI18n();
+  const items = previewItems(preview, type);
+
+  if (!preview.title && items.length === 0) return null;
+
+  return (
+    <div className="mt-8 w-full max-w-lg bg-white rounded-2xl shadow-sm border-2 border-slate-100 p-6 text-start animate-fade-in">
+      <p className="text-xs font-bold uppercase tracking-wide text-gray-400">{t.gameTypes[type].label}</p>
+      {preview.title && <h4 className="text-xl font-extrabold text-indigo-900 mt-1" dir="auto">{preview.title}</h4>}
+      {preview.instructions && <p className="text-gray-600 mt-2" dir="auto">{preview.instructions}</p>}
+      {items.length > 0 && (
+        <ol className="mt-4 space-y-2">
+          {items.slice(0, MAX_PREVIEW_ITEMS).map((text, i) => (
+            <li key={i} className="flex gap-3 text-gray-700" dir="auto">
+              <span className="font-bold text-indigo-400">{i + 1}.</span>
+              <span className="line-clamp-2">{text}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {items.length > MAX_PREVIEW_ITEMS && (
+        <p className="mt-3 text-sm text-gray-400">{t.preview.more(items.length - MAX_PREVIEW_ITEMS)}</p>
+      )}
+    </div>
+  );
+};
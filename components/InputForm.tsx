@@ -1,65 +1,197 @@
-
 import React, { useState, useRef } from 'react';
 import { Button } from './Button';
-import { Sparkles, BookOpen, Upload, FileText, X } from 'lucide-react';
+import { Sparkles, BookOpen, Upload, FileText, X, Image, ChevronUp, ChevronDown, Loader2, Files } from 'lucide-react';
 // Import GameGenerationInput from types.ts instead of geminiService.ts to fix non-exported module error
-import { GameGenerationInput } from '../types';
+import { GameGenerationInput, SourcePart } from '../types';
+import {
+  ACCEPTED_FILES,
+  MAX_INLINE_BYTES,
+  SourceFileKind,
+  getSourceFileKind,
+  readSourceFile,
+  sourcePartBytes
+} from '../services/sourceFiles';
+import { PdfSource, PdfSelection, openPdf, closePdf, pdfSelectionParts, selectionText } from '../services/pdfSource';
+import { toAppError } from '../services/errors';
+import { PdfPagePicker } from './PdfPagePicker';
+import { useI18n } from '../i18n';
 
 interface InputFormProps {
   onSubmit: (input: GameGenerationInput) => void;
   isLoading: boolean;
 }
 
+// A picked file, and what will be sent of it
+interface SourceItem {
+  id: string;
+  name: string;
+  kind: SourceFileKind;
+  size: number;
+  // Sent as is: photos, text and Word files, and PDFs that couldn't be opened here
+  part?: SourcePart;
+  // PDFs opened in the browser: only the text of the selected pages (or passage) is sent
+  pdf?: { source: PdfSource; selection: PdfSelection };
+}
+
+const newItemId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Opens PDFs to pick pages from; any other file, or a PDF pdf.js can't open, is read as it is
+const readItem = async (file: File): Promise<SourceItem> => {
+  const kind = getSourceFileKind(file);
+  const item = { id: newItemId(), name: file.name, kind: kind!, size: file.size };
+
+  if (kind === 'pdf') {
+    try {
+      const source = await openPdf(file);
+      return { ...item, pdf: { source, selection: { from: 1, to: source.pages.length } } };
+    } catch (error) {
+      console.warn("Could not open the PDF here, sending it whole:", error);
+    }
+  }
+  return { ...item, part: await readSourceFile(file) };
+};
+
+// Approximate size of what will be sent; scanned PDF pages are not counted until they are rendered
+const itemBytes = (item: SourceItem): number =>
+  item.pdf
+    ? new Blob([item.pdf.selection.passage ?? selectionText(item.pdf.source, item.pdf.selection)]).size
+    : sourcePartBytes(item.part!);
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const SourcePreview: React.FC<{ item: SourceItem }> = ({ item }) => {
+  const { t } = useI18n();
+  const [imageFailed, setImageFailed] = useState(false);
+  const { part } = item;
+
+  if (item.pdf) {
+    return (
+      <div className="w-16 h-16 rounded-lg flex flex-col items-center justify-center shrink-0 bg-red-100 text-red-600">
+        <Files size={24} />
+        <span className="text-[10px] font-bold mt-0.5">{t.input.pageCount(item.pdf.source.pages.length)}</span>
+      </div>
+    );
+  }
+
+  // Most browsers can't show HEIC photos; they are still sent as they are
+  if (item.kind === 'image' && part?.type === 'file' && !imageFailed) {
+    return (
+      <img
+        src={`data:${part.mimeType};base64,${part.data}`}
+        alt={part.name}
+        onError={() => setImageFailed(true)}
+        className="w-16 h-16 object-cover rounded-lg border border-slate-200 shrink-0"
+      />
+    );
+  }
+  if (part?.type === 'text') {
+    return (
+      <div className="w-16 h-16 p-1.5 rounded-lg border border-slate-200 bg-white text-[6px] leading-tight text-gray-500 overflow-hidden shrink-0" dir="auto">
+        {part.value.slice(0, 300)}
+      </div>
+    );
+  }
+  return (
+    <div className={`w-16 h-16 rounded-lg flex items-center justify-center shrink-0 ${item.kind === 'pdf' ? 'bg-red-100 text-red-600' : 'bg-slate-100 text-slate-500'}`}>
+      {item.kind === 'pdf' ? <FileText size={28} /> : <Image size={28} />}
+    </div>
+  );
+};
+
 export const InputForm: React.FC<InputFormProps> = ({ onSubmit, isLoading }) => {
+  const { t } = useI18n();
   const [mode, setMode] = useState<'upload' | 'text'>('upload');
   const [text, setText] = useState('');
-  const [file, setFile] = useState<File | null>(null);
+  const [items, setItems] = useState<SourceItem[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const totalSize = items.reduce((sum, item) => sum + itemBytes(item), 0);
+  const isTooLarge = totalSize > MAX_INLINE_BYTES;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
+
     if (mode === 'text' && text.trim()) {
-      onSubmit({ type: 'text', value: text });
-    } else if (mode === 'upload' && file) {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Remove data URL prefix (e.g., "data:application/pdf;base64,")
-        const base64Data = result.split(',')[1];
-        onSubmit({ 
-          type: 'file', 
-          data: base64Data, 
-          mimeType: file.type 
-        });
-      };
-      reader.readAsDataURL(file);
+      onSubmit({ parts: [{ type: 'text', value: text }] });
+    } else if (mode === 'upload' && items.length > 0 && !isTooLarge) {
+      setIsPreparing(true);
+      try {
+        const parts: SourcePart[] = [];
+        for (const item of items) {
+          parts.push(...(item.pdf ? await pdfSelectionParts(item.pdf.source, item.pdf.selection) : [item.part!]));
+        }
+        onSubmit({ parts });
+      } catch (error) {
+        console.error("Could not prepare the PDF pages:", error);
+        setFileErrors([toAppError(error, t.input.prepareFailed).message]);
+      } finally {
+        setIsPreparing(false);
+      }
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const selectedFile = e.target.files[0];
-      if (selectedFile.type === 'application/pdf') {
-        setFile(selectedFile);
-      } else {
-        alert("Please upload a PDF file.");
+  // Reads the files one by one, keeping the ones we can use and reporting the others
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setIsReading(true);
+    const errors: string[] = [];
+    const added: SourceItem[] = [];
+
+    for (const file of files) {
+      try {
+        added.push(await readItem(file));
+      } catch (error) {
+        console.warn("Could not read source file:", error);
+        errors.push(toAppError(error, t.input.readFailed(file.name)).message);
       }
     }
+
+    setItems(current => [...current, ...added]);
+    setFileErrors(errors);
+    setIsReading(false);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again after removing it
+    e.target.value = '';
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      const selectedFile = e.dataTransfer.files[0];
-      if (selectedFile.type === 'application/pdf') {
-        setFile(selectedFile);
-      } else {
-        alert("Please upload a PDF file.");
-      }
-    }
+    addFiles(Array.from(e.dataTransfer.files ?? []));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    setItems(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeItem = (item: SourceItem) => {
+    if (item.pdf) closePdf(item.pdf.source);
+    setItems(current => current.filter(other => other.id !== item.id));
+  };
+
+  const setPdfSelection = (id: string, selection: PdfSelection) => {
+    setItems(current => current.map(item => (item.id === id && item.pdf ? { ...item, pdf: { ...item.pdf, selection } } : item)));
+  };
+
+  const describeSelection = ({ source, selection }: NonNullable<SourceItem['pdf']>) => {
+    if (selection.passage) return t.input.highlightedPassage;
+    if (selection.from === 1 && selection.to === source.pages.length) return t.input.allPages;
+    return selection.from === selection.to ? t.input.page(selection.from) : t.input.pages(selection.from, selection.to);
   };
 
   return (
@@ -68,8 +200,8 @@ export const InputForm: React.FC<InputFormProps> = ({ onSubmit, isLoading }) =>
         <div className="inline-flex items-center justify-center w-16 h-16 bg-indigo-100 rounded-full mb-4 text-indigo-600">
           <BookOpen size={32} />
         </div>
-        <h2 className="text-3xl font-bold text-gray-800 mb-2">Create a New Game</h2>
-        <p className="text-gray-600">Upload this week's Koivetz to choose from 8 fun activities!</p>
+        <h2 className="text-3xl font-bold text-gray-800 mb-2">{t.input.title}</h2>
+        <p className="text-gray-600">{t.input.subtitle}</p>
       </div>
 
       {/* Tabs */}
@@ -80,7 +212,7 @@ export const InputForm: React.FC<InputFormProps> = ({ onSubmit, isLoading }) =>
           type="button"
         >
           <Upload size={16} />
-          Upload PDF
+          {t.input.uploadTab}
         </button>
         <button
           className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all flex items-center justify-center gap-2 ${mode === 'text' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
@@ -88,55 +220,95 @@ export const InputForm: React.FC<InputFormProps> = ({ onSubmit, isLoading }) =>
           type="button"
         >
           <FileText size={16} />
-          Paste Text
+          {t.input.textTab}
         </button>
       </div>
 
       <form onSubmit={handleSubmit} className="space-y-6">
-        
+
         {mode === 'upload' && (
-          <div 
-            className={`
-              border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer relative
-              ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'}
-              ${file ? 'bg-indigo-50 border-indigo-200' : ''}
-            `}
-            onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
-            onDragLeave={() => setIsDragging(false)}
-            onDrop={handleDrop}
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <input 
-              type="file" 
-              accept="application/pdf" 
-              className="hidden" 
-              ref={fileInputRef}
-              onChange={handleFileChange}
-            />
-            
-            {file ? (
-              <div className="flex flex-col items-center">
-                <div className="w-12 h-12 bg-red-100 text-red-600 rounded-lg flex items-center justify-center mb-3">
-                  <FileText size={24} />
-                </div>
-                <p className="font-bold text-gray-800 mb-1">{file.name}</p>
-                <p className="text-sm text-gray-500">{(file.size / 1024 / 1024).toFixed(2)} MB</p>
-                <button 
-                  type="button"
-                  onClick={(e) => { e.stopPropagation(); setFile(null); }}
-                  className="absolute top-2 right-2 p-1 bg-white rounded-full text-gray-400 hover:text-red-500 shadow-sm"
-                >
-                  <X size={16} />
-                </button>
+          <div className="space-y-4">
+            <div
+              className={`
+                border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer
+                ${isDragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400 hover:bg-gray-50'}
+              `}
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <input
+                type="file"
+                accept={ACCEPTED_FILES}
+                multiple
+                className="hidden"
+                ref={fileInputRef}
+                onChange={handleFileChange}
+              />
+              <div className="w-12 h-12 bg-indigo-100 text-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
+                {isReading ? <Loader2 size={24} className="animate-spin" /> : <Upload size={24} />}
+              </div>
+              <p className="font-bold text-gray-700">{items.length > 0 ? t.input.addMore : t.input.dropHere}</p>
+              <p className="text-sm text-gray-500 mt-1">{t.input.accepted}</p>
+            </div>
+
+            {fileErrors.length > 0 && (
+              <ul className="text-sm text-red-600 font-medium space-y-1">
+                {fileErrors.map((message, i) => <li key={i}>{message}</li>)}
+              </ul>
+            )}
+
+            {items.length > 0 && (
+              <div>
+                <ol className="space-y-2">
+                  {items.map((item, index) => (
+                    <li key={item.id} className="p-2 bg-indigo-50 border border-indigo-100 rounded-xl">
+                      <div className="flex items-center gap-3">
+                        <span className="w-6 text-center font-bold text-indigo-400">{index + 1}</span>
+                        <SourcePreview item={item} />
+                        <div className="flex-1 min-w-0">
+                          <p className="font-bold text-gray-800 truncate">{item.name}</p>
+                          <p className="text-sm text-gray-500">
+                            {t.input.kinds[item.kind]} · {formatSize(item.size)}
+                            {item.pdf && (
+                              <>
+                                {' · '}
+                                <button type="button" onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} className="font-bold text-indigo-600 hover:underline">
+                                  {describeSelection(item.pdf)}
+                                </button>
+                              </>
+                            )}
+                          </p>
+                        </div>
+                        <div className="flex flex-col">
+                          <button type="button" onClick={() => moveItem(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30" title={t.common.moveUp}>
+                            <ChevronUp size={18} />
+                          </button>
+                          <button type="button" onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} className="p-1 text-gray-400 hover:text-indigo-600 disabled:opacity-30" title={t.common.moveDown}>
+                            <ChevronDown size={18} />
+                          </button>
+                        </div>
+                        <button type="button" onClick={() => removeItem(item)} className="p-2 text-gray-400 hover:text-red-500" title={t.common.remove}>
+                          <X size={16} />
+                        </button>
+                      </div>
+                      {item.pdf && expandedId === item.id && (
+                        <PdfPagePicker
+                          source={item.pdf.source}
+                          selection={item.pdf.selection}
+                          onChange={(selection) => setPdfSelection(item.id, selection)}
+                        />
+                      )}
+                    </li>
+                  ))}
+                </ol>
+                <p className={`mt-2 text-sm ${isTooLarge ? 'text-red-600 font-bold' : 'text-gray-500'}`}>
+                  {isTooLarge
+                    ? t.input.tooLarge(formatSize(totalSize), formatSize(MAX_INLINE_BYTES))
+                    : t.input.orderHint}
+                </p>
               </div>
-            ) : (
-              <>
-                <div className="w-12 h-12 bg-indigo-100 text-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <Upload size={24} />
-                </div>
-                <p className="font-bold text-gray-700">Click to upload or drag & drop</p>
-                <p className="text-sm text-gray-500 mt-1">PDF files only</p>
-              </>
             )}
           </div>
         )}
@@ -145,7 +317,7 @@ export const InputForm: React.FC<InputFormProps> = ({ onSubmit, isLoading }) =>
           <div>
             <textarea
               className="w-full h-64 p-4 rounded-xl border-2 border-indigo-100 focus:border-indigo-500 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 transition-all text-gray-700 bg-gray-50 resize-none"
-              placeholder="Paste text here (story, sicha, halacha, etc.)..."
+              placeholder={t.input.textPlaceholder}
               value={text}
               onChange={(e) => setText(e.target.value)}
               disabled={isLoading}
@@ -153,20 +325,20 @@ export const InputForm: React.FC<InputFormProps> = ({ onSubmit, isLoading }) =>
           </div>
         )}
 
-        <Button 
-          type="submit" 
-          variant="primary" 
+        <Button
+          type="submit"
+          variant="primary"
           className="w-full text-lg"
-          isLoading={isLoading}
-          disabled={mode === 'upload' ? !file : !text.trim()}
+          isLoading={isLoading || isPreparing}
+          disabled={mode === 'upload' ? items.length === 0 || isReading || isPreparing || isTooLarge : !text.trim()}
         >
           <Sparkles className="w-5 h-5" />
-          Choose Activity
+          {t.input.submit}
         </Button>
       </form>
 
       <div className="mt-6 text-center text-sm text-gray-500">
-        <p>Works best with the standard weekly Koivetz PDF.</p>
+        <p>{t.input.footnote}</p>
       </div>
     </div>
   );
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import { LivePlayer } from '../services/firebaseService';
+import { rankPlayers } from '../services/liveScoring';
+import { useI18n } from '../i18n';
+
+interface LiveLeaderboardProps {
+  players: Record<string, LivePlayer>;
+  // Highlights this player's row
+  playerId?: string | null;
+  // Shows the points each player just won
+  showLastPoints?: boolean;
+  // Rows shown; the highlighted player is always added below them
+  limit?: number;
+}
+
+const MEDALS = ['text-yellow-500', 'text-slate-400', 'text-amber-700'];
+
+/**
+ * Scores of a competitive live quiz, shown between questions and at the end.
+ */
+export const LiveLeaderboard: React.FC<LiveLeaderboardProps> = ({ players, playerId, showLastPoints, limit = 10 }) => {
+  const { t } = useI18n();
+  const ranked = rankPlayers(players);
+  const shown = ranked.slice(0, limit);
+  const me = ranked.find(p => p.id === playerId);
+  if (me && !shown.includes(me)) shown.push(me);
+
+  return (
+    <div className="bg-white p-6 rounded-3xl shadow-xl">
+      <h3 className="flex items-center gap-2 text-xl font-bold text-indigo-900 mb-4">
+        <Trophy size={22} className="text-yellow-500" />
+        {t.live.leaderboard}
+      </h3>
+      {ranked.length === 0 && <p className="text-gray-400 italic">{t.live.noPlayers}</p>}
+      <ol className="space-y-2">
+        {shown.map(player => (
+          <li
+            key={player.id}
+            className={`flex items-center gap-3 px-4 py-2 rounded-xl ${player.id === playerId ? 'bg-indigo-100 text-indigo-900 font-bold' : 'bg-slate-50 text-gray-700'}`}
+          >
+            <span className={`w-8 text-center font-extrabold ${MEDALS[player.rank - 1] ?? 'text-gray-400'}`}>{player.rank}</span>
+            <span className="flex-1 truncate">
+              {player.name}
+              {player.id === playerId && <span className="ms-2 text-xs text-indigo-500">{t.live.you}</span>}
+            </span>
+            {showLastPoints && !!player.lastPoints && (
+              <span className="text-sm font-bold text-green-600">{t.live.pointsGained(player.lastPoints)}</span>
+            )}
+            <span className="font-bold tabular-nums">{t.live.points(player.score)}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Lightbulb, WifiOff, XCircle } from 'lucide-react';
+import { LivePlayer, LivePresence, LiveProgress } from '../services/firebaseService';
+import { completedCount, formatDuration, isStuck } from '../services/liveProgress';
+import { isPlayerOnline } from '../services/liveSessions';
+import { useI18n } from '../i18n';
+
+interface LiveProgressBoardProps {
+  players: Record<string, LivePlayer>;
+  presence: Record<string, LivePresence>;
+  progress: Record<string, LiveProgress>;
+  // Item keys from progressItems, or null when the game has no fixed list
+  items: string[] | null;
+  startedAtMs?: number;
+  // The player whose board the host is watching; clicking a row watches that player
+  watchedPlayerId?: string | null;
+  onWatch: (playerId: string) => void;
+}
+
+// How often "stuck" is re-checked while nobody reports anything
+const TICK_MS = 5000;
+
+const ITEM_STYLES = {
+  done: 'bg-green-500',
+  wrong: 'bg-red-400',
+  todo: 'bg-slate-200',
+};
+
+/**
+ * The host's live view of a competitive board game: one row per student with the status of each
+ * item, their mistakes and hints, and a flag on anyone who seems stuck.
+ */
+export const LiveProgressBoard: React.FC<LiveProgressBoardProps> = ({ players, presence, progress, items, startedAtMs, watchedPlayerId, onWatch }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const rows = Object.keys(players).sort((a, b) => players[a].name.localeCompare(players[b].name));
+  if (rows.length === 0) return <p className="text-sm italic">{t.live.noPlayers}</p>;
+
+  return (
+    <div className="overflow-x-auto text-start">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500">
+            <th className="px-2 py-1 font-bold text-start">{t.live.progressPlayer}</th>
+            <th className="px-2 py-1 font-bold text-start">{t.live.progressItems}</th>
+            <th className="px-2 py-1 font-bold"><XCircle size={14} className="mx-auto" aria-label={t.live.progressMistakes} /></th>
+            <th className="px-2 py-1 font-bold"><Lightbulb size={14} className="mx-auto" aria-label={t.live.progressHints} /></th>
+            <th className="px-2 py-1 font-bold text-start">{t.live.progressStatus}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(id => {
+            const player = players[id];
+            const playerProgress = progress[id];
+            const statuses = playerProgress?.items || {};
+            const done = completedCount(playerProgress);
+            const finishedAt = playerProgress?.finishedAt?.toMillis();
+            const stuck = isStuck(playerProgress, startedAtMs, now);
+
+            return (
+              <tr
+                key={id}
+                onClick={() => onWatch(id)}
+                className={`cursor-pointer border-t border-yellow-100 ${watchedPlayerId === id ? 'bg-yellow-100' : 'hover:bg-yellow-50'}`}
+              >
+                <td className="px-2 py-1.5 font-bold truncate max-w-[10rem]">
+                  {!isPlayerOnline(presence[id], now) && (
+                    <WifiOff size={12} className="inline me-1 text-gray-400" aria-label={t.live.offline} />
+                  )}
+                  {player.name}
+                </td>
+                <td className="px-2 py-1.5">
+                  <div className="flex items-center gap-1">
+                    {items ? items.map((item, i) => {
+                      const status = statuses[item] ?? 'todo';
+                      return (
+                        <span
+                          key={item}
+                          title={`${i + 1}: ${t.live.itemStatus[status]}`}
+                          className={`w-4 h-4 rounded-sm shrink-0 ${ITEM_STYLES[status]}`}
+                        />
+                      );
+                    }) : null}
+                    <span className="ms-2 text-xs text-gray-500 tabular-nums">
+                      {items ? `${done}/${items.length}` : done}
+                    </span>
+                  </div>
+                </td>
+                <td className="px-2 py-1.5 text-center tabular-nums">{playerProgress?.mistakes || 0}</td>
+                <td className="px-2 py-1.5 text-center tabular-nums">{playerProgress?.hints || 0}</td>
+                <td className="px-2 py-1.5 whitespace-nowrap">
+                  {finishedAt !== undefined ? (
+                    <span className="inline-flex items-center gap-1 text-green-700 font-bold">
+                      <CheckCircle size={14} />
+                      {startedAtMs !== undefined ? t.live.finishedIn(formatDuration(finishedAt - startedAtMs)) : t.live.itemStatus.done}
+                    </span>
+                  ) : stuck ? (
+                    <span className="inline-flex items-center gap-1 text-red-600 font-bold">
+                      <AlertTriangle size={14} />
+                      {t.live.stuck}
+                    </span>
+                  ) : (
+                    <span className="text-gray-500">{t.live.playing}</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
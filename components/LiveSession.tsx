@@ -1,16 +1,37 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { GameData } from '../types';
 import { 
   subscribeToSession, 
+  subscribeToPresence,
   joinSession, 
   updateSessionState, 
-  updatePlayerScore,
   updateBoardState, // Added import
-  LiveSessionState 
+  setCrosswordCell,
+  setWordSearchGrid,
+  addFoundWord,
+  updatePlayerState,
+  reportProgress,
+  markPresence,
+  deleteLiveSession,
+  startQuestion,
+  submitAnswer,
+  revealAnswers,
+  LiveSessionState,
+  LiveQuizMode,
+  LiveAnswer,
+  LivePlayer,
+  LivePresence,
+  StateUpdate
 } from '../services/firebaseService';
+import { progressItems } from '../services/liveProgress';
+import { HEARTBEAT_MS, SESSION_TTL_MS, clearLiveLink, isPlayerOnline, isSessionExpired, rememberedSession } from '../services/liveSessions';
+import { LiveLeaderboard } from './LiveLeaderboard';
+import { LiveProgressBoard } from './LiveProgressBoard';
+import { toAppError } from '../services/errors';
+import { gridLetters, sameLetters, textDirection } from '../services/hebrew';
 import { Button } from './Button';
-import { Loader2, Users, Play, Trophy, ArrowRight, Copy, CheckCircle, XCircle } from 'lucide-react';
-import { QuizGame } from './games/QuizGame';
+import { Loader2, Users, Play, Trophy, ArrowRight, Copy, CheckCircle, XCircle, Eye, Lock, Trash2 } from 'lucide-react';
+import { QuizGame, optionLabel } from './games/QuizGame';
 import { WordSearchGame } from './games/WordSearchGame';
 import { MatchingGame } from './games/MatchingGame';
 import { MemoryGame } from './games/MemoryGame';
@@ -23,7 +44,25 @@ import { CrosswordGame } from './games/CrosswordGame';
 import { EmojiGame } from './games/EmojiGame';
 import { TriviaTrailGame } from './games/TriviaTrailGame';
 import { FindMatchGame } from './games/FindMatchGame';
+import { LiveGameProps } from './games/useGameState';
 import { GameType } from '../types';
+import { useI18n } from '../i18n';
+
+// Author id of crossword cells the host fills in (players use their player id)
+const HOST_AUTHOR = 'host';
+
+// Games whose progress is kept in the session through their externalState/onStateChange props
+const SYNCED_GAMES = [
+  GameType.MATCHING,
+  GameType.MEMORY,
+  GameType.SEQUENCE,
+  GameType.SORTING,
+  GameType.FILL_IN_BLANK,
+  GameType.RIDDLE,
+  GameType.EMOJI_CHALLENGE,
+  GameType.TRIVIA_TRAIL,
+  GameType.FIND_MATCH
+];
 
 interface LiveSessionProps {
   sessionId: string;
@@ -34,12 +73,18 @@ interface LiveSessionProps {
 
 export const LiveSession: React.FC<LiveSessionProps> = ({ 
   sessionId, 
-  isHost, 
+  isHost: startedAsHost, 
   onExit,
   initialGameData 
 }) => {
+  const { t } = useI18n();
   const [session, setSession] = useState<LiveSessionState | null>(null);
   const [playerName, setPlayerName] = useState('');
+  // The host token kept on this device; a host who reloads gets control back when it matches the session's
+  const [hostToken, setHostToken] = useState(() => rememberedSession(sessionId)?.hostId);
+  const isHost = startedAsHost || (!!session && !!hostToken && hostToken === session.hostId);
+  // Ticks so expiry and disconnected players show up even while nothing else changes
+  const [now, setNow] = useState(Date.now());
   
   // Robust check for joined state
   const [studentJoined, setStudentJoined] = useState(false);
@@ -52,28 +97,88 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
   const [error, setError] = useState<string | null>(null);
   
   // Gameplay state
-  // We now use session.sharedAnswer instead of local state for cooperative play
-  const isCollaborative = true; // Defaulting to true as per request
+  // Cooperative quizzes share one answer (session.sharedAnswer); competitive ones keep an answer per player
+  const isCompetitive = session?.mode === 'competitive';
+  // The player whose board the host is watching in a competitive board game
+  const [watchedPlayerId, setWatchedPlayerId] = useState<string | null>(null);
+  // Who is still connected, by player id; only the host watches it
+  const [presence, setPresence] = useState<Record<string, LivePresence>>({});
+  // Set once the session document is deleted, here or elsewhere, so presence stops writing to it
+  const sessionGone = useRef(false);
 
   // Reset local state when sessionId changes
   useEffect(() => {
+    sessionGone.current = false;
     setSession(null);
     setStudentJoined(false);
     setPlayerName('');
     setPlayerId(null);
+    setWatchedPlayerId(null);
+    setPresence({});
+    setHostToken(rememberedSession(sessionId)?.hostId);
     setError(null);
     setLoading(true);
   }, [sessionId]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   // Subscribe to session updates
   useEffect(() => {
     const unsubscribe = subscribeToSession(sessionId, (data) => {
+      if (!data) sessionGone.current = true;
       setSession(data as LiveSessionState);
       setLoading(false);
+    }, (err) => {
+      setError(err.message);
+      setLoading(false);
     });
     return () => unsubscribe();
   }, [sessionId]);
 
+  useEffect(() => {
+    if (!isHost) return;
+    return subscribeToPresence(sessionId, setPresence);
+  }, [sessionId, isHost]);
+
+  // A finished, expired or deleted session isn't reopened by a reload
+  const sessionEnded = !loading && (session ? session.status === 'finished' || isSessionExpired(session, now) : !error);
+  useEffect(() => {
+    if (sessionEnded) clearLiveLink();
+  }, [sessionEnded]);
+
+  // A student who reloads rejoins as the same player, as long as they're still in the session
+  useEffect(() => {
+    if (!session || isHost || studentJoined) return;
+    const remembered = rememberedSession(sessionId);
+    const player = remembered?.playerId ? session.players?.[remembered.playerId] : undefined;
+    if (remembered?.playerId && player) {
+      setPlayerId(remembered.playerId);
+      setPlayerName(remembered.playerName || player.name);
+      setStudentJoined(true);
+    }
+  }, [session, isHost, studentJoined, sessionId]);
+
+  // Presence: a heartbeat while the page is open, and a last update when the player leaves
+  useEffect(() => {
+    if (!playerId) return;
+    const update = (connected: boolean) => {
+      if (sessionGone.current) return;
+      markPresence(sessionId, playerId, connected).catch(err => console.warn("Presence update failed", err));
+    };
+    const leave = () => update(false);
+    update(true);
+    const timer = setInterval(() => update(true), HEARTBEAT_MS);
+    window.addEventListener('pagehide', leave);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [sessionId, playerId]);
+
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!playerName.trim()) return;
@@ -85,7 +190,7 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
       setStudentJoined(true);
     } catch (err) {
       console.error(err);
-      setError("Failed to join session");
+      setError(toAppError(err, t.live.joinFailed).message);
     } finally {
       setLoading(false);
     }
@@ -93,7 +198,16 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
 
   const handleStartGame = async () => {
     if (!isHost) return;
-    await updateSessionState(sessionId, { status: 'active' });
+    if (isCompetitive) {
+      await startQuestion(sessionId, { status: 'active' });
+    } else {
+      await updateSessionState(sessionId, { status: 'active' });
+    }
+  };
+
+  const handleModeChange = async (mode: LiveQuizMode) => {
+    if (!isHost) return;
+    await updateSessionState(sessionId, { mode });
   };
 
   const handleNextQuestion = async () => {
@@ -113,7 +227,45 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
     } else {
       updates.currentQuestionIndex = nextIndex;
     }
-    await updateSessionState(sessionId, updates);
+
+    try {
+      if (isCompetitive && nextIndex < totalQuestions) {
+        await startQuestion(sessionId, updates);
+      } else {
+        await updateSessionState(sessionId, updates);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(toAppError(err, t.live.nextQuestionFailed).message);
+    }
+  };
+
+  // Competitive mode: each player answers once; nobody sees the result until the host reveals it
+  const handleCompetitiveAnswer = async (option: string) => {
+    if (!playerId || !session || session.revealed || session.answers?.[playerId]) return;
+    try {
+      await submitAnswer(sessionId, playerId, option);
+    } catch (err) {
+      console.error(err);
+      setError(toAppError(err, t.live.answerFailed).message);
+    }
+  };
+
+  // Board moves are sent without waiting for them; one that fails is shown rather than lost silently
+  const reportMoveError = (err: unknown) => {
+    console.error(err);
+    setError(toAppError(err, t.live.moveFailed).message);
+  };
+
+  // The host scores every answer at once, so all players are judged by the same rules and clock
+  const handleReveal = async () => {
+    if (!isHost || !session || session.revealed) return;
+    try {
+      await revealAnswers(sessionId);
+    } catch (err) {
+      console.error(err);
+      setError(toAppError(err, t.live.revealFailed).message);
+    }
   };
 
   const handleAnswer = async (option: string, correctAnswer: string) => {
@@ -134,17 +286,30 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
     }
   };
 
+  const handleDeleteSession = async () => {
+    if (!isHost || !confirm(t.live.deleteConfirm)) return;
+    try {
+      sessionGone.current = true;
+      await deleteLiveSession(sessionId);
+      onExit();
+    } catch (err) {
+      sessionGone.current = false;
+      console.error(err);
+      alert(toAppError(err, t.live.deleteFailed).message);
+    }
+  };
+
   const copyInviteLink = () => {
     const url = `${window.location.origin}/#live=${sessionId}`;
     navigator.clipboard.writeText(url);
-    alert("Invite link copied!");
+    alert(t.live.linkCopied);
   };
 
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px]">
         <Loader2 className="w-8 h-8 animate-spin text-indigo-600 mb-4" />
-        <p>Connecting to Live Session...</p>
+        <p>{t.live.connecting}</p>
       </div>
     );
   }
@@ -152,8 +317,27 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
   if (!session) {
     return (
       <div className="text-center p-8">
-        <h2 className="text-2xl font-bold text-red-500 mb-4">Session Not Found</h2>
-        <Button onClick={onExit}>Back to Menu</Button>
+        <h2 className="text-2xl font-bold text-red-500 mb-4">{t.live.notFound}</h2>
+        {error && <p className="text-gray-600 mb-4">{error}</p>}
+        <Button onClick={onExit}>{t.live.backToMenu}</Button>
+      </div>
+    );
+  }
+
+  if (isSessionExpired(session, now)) {
+    return (
+      <div className="text-center p-8">
+        <h2 className="text-2xl font-bold text-red-500 mb-4">{t.live.expired}</h2>
+        <p className="text-gray-600 mb-4">{t.live.expiredBody(SESSION_TTL_MS / 3_600_000)}</p>
+        <div className="flex justify-center gap-3">
+          {isHost && (
+            <Button onClick={handleDeleteSession} variant="outline">
+              <Trash2 size={16} className="me-2" />
+              {t.live.deleteSession}
+            </Button>
+          )}
+          <Button onClick={onExit}>{t.live.backToMenu}</Button>
+        </div>
       </div>
     );
   }
@@ -162,21 +346,24 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
   if (!hasJoined) {
     return (
       <div className="max-w-md mx-auto bg-white p-8 rounded-2xl shadow-xl">
-        <h2 className="text-2xl font-bold text-indigo-900 mb-6 text-center">Join Live Game</h2>
+        <h2 className="text-2xl font-bold text-indigo-900 mb-6 text-center">{t.live.joinTitle}</h2>
+        {error && (
+          <p className="mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200">{error}</p>
+        )}
         <form onSubmit={handleJoin} className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Your Name</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t.live.yourName}</label>
             <input
               type="text"
               value={playerName}
               onChange={(e) => setPlayerName(e.target.value)}
               className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-              placeholder="Enter your name"
+              placeholder={t.live.namePlaceholder}
               required
             />
           </div>
           <Button type="submit" className="w-full">
-            Join Game <ArrowRight size={16} className="ml-2" />
+            {t.live.join} <ArrowRight size={16} className="ms-2 rtl:rotate-180" />
           </Button>
         </form>
       </div>
@@ -186,6 +373,9 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
   // --- Lobby Screen ---
   if (session.status === 'waiting') {
     const playerCount = Object.keys(session.players || {}).length;
+    const isQuiz = !!session.gameData?.quizContent?.length;
+    const isSyncedGame = !!session.gameData && SYNCED_GAMES.includes(session.gameData.type);
+    const modes: LiveQuizMode[] = ['cooperative', 'competitive'];
     
     return (
       <div className="max-w-2xl mx-auto text-center">
@@ -193,36 +383,70 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
           <div className="inline-flex items-center justify-center w-20 h-20 bg-indigo-100 rounded-full mb-6 text-indigo-600">
             <Users size={40} />
           </div>
-          <h1 className="text-3xl font-bold text-indigo-900 mb-2">Waiting for Players...</h1>
+          <h1 className="text-3xl font-bold text-indigo-900 mb-2">{t.live.waiting}</h1>
           <p className="text-gray-500 mb-8">
-            {isHost ? "Share the link so students can join." : "Waiting for the host to start."}
+            {isHost ? t.live.shareHint : t.live.waitingForHost}
           </p>
           
           {isHost && (
             <div className="flex justify-center gap-4 mb-8">
               <Button onClick={copyInviteLink} variant="outline">
-                <Copy size={16} className="mr-2" />
-                Copy Link
+                <Copy size={16} className="me-2" />
+                {t.live.copyLink}
               </Button>
               <Button onClick={handleStartGame}>
-                <Play size={16} className="mr-2" />
-                Start Game
+                <Play size={16} className="me-2" />
+                {t.live.startGame}
+              </Button>
+              <Button onClick={handleDeleteSession} variant="outline">
+                <Trash2 size={16} className="me-2" />
+                {t.live.deleteSession}
               </Button>
             </div>
           )}
 
+          {(isQuiz || isSyncedGame) && (
+            <div className="mb-8">
+              <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-2">{t.live.mode}</span>
+              {isHost ? (
+                <div className="inline-flex gap-1 bg-slate-100 p-1 rounded-lg" role="group" aria-label={t.live.mode}>
+                  {modes.map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => handleModeChange(mode)}
+                      className={`px-4 py-1.5 rounded-md text-sm font-bold transition-colors ${(session.mode ?? 'cooperative') === mode ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                    >
+                      {t.live.modes[mode].label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <span className="font-bold text-indigo-700">{t.live.modes[session.mode ?? 'cooperative'].label}</span>
+              )}
+              <p className="text-sm text-gray-500 mt-2">{t.live.modes[session.mode ?? 'cooperative'][isQuiz ? 'hint' : 'boardHint']}</p>
+            </div>
+          )}
+
           <div className="bg-slate-50 rounded-xl p-6">
             <h3 className="font-bold text-gray-700 mb-4 flex items-center justify-center gap-2">
               <Users size={18} />
-              Players Joined ({playerCount})
+              {t.live.playersJoined(playerCount)}
             </h3>
             <div className="flex flex-wrap justify-center gap-3">
-              {Object.values(session.players || {}).map((p: any, i) => (
-                <span key={i} className="bg-white px-4 py-2 rounded-full shadow-sm text-indigo-600 font-bold">
-                  {p.name}
-                </span>
-              ))}
-              {playerCount === 0 && <span className="text-gray-400 italic">No players yet...</span>}
+              {Object.keys(session.players || {}).map(id => {
+                const p: LivePlayer = session.players[id];
+                const online = isPlayerOnline(presence[id], now);
+                return (
+                  <span
+                    key={id}
+                    title={online ? undefined : t.live.offline}
+                    className={`bg-white px-4 py-2 rounded-full shadow-sm font-bold ${online ? 'text-indigo-600' : 'text-gray-400 line-through'}`}
+                  >
+                    {p.name}
+                  </span>
+                );
+              })}
+              {playerCount === 0 && <span className="text-gray-400 italic">{t.live.noPlayers}</span>}
             </div>
           </div>
         </div>
@@ -232,8 +456,8 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
   
   // Debug/Role Indicator
   const RoleBadge = () => (
-    <div className="fixed top-20 right-4 bg-white/90 backdrop-blur px-3 py-1 rounded-full shadow-sm text-xs font-bold text-gray-500 z-50 pointer-events-none">
-        {isHost ? "HOST" : `PLAYER: ${playerName || 'Guest'}`}
+    <div className="fixed top-20 end-4 bg-white/90 backdrop-blur px-3 py-1 rounded-full shadow-sm text-xs font-bold text-gray-500 z-50 pointer-events-none">
+        {isHost ? t.live.host : t.live.player(playerName || t.live.guest)}
     </div>
   );
 
@@ -244,32 +468,25 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
   
   const gameData = session.gameData as any; // We know it's stored here
   const currentQ = gameData.quizContent?.[session.currentQuestionIndex];
-
-  // Handle Games played independently (Board Games)
-  // For these games, we show the game component directly.
-  const independentGames = [
-    GameType.MATCHING,
-    GameType.MEMORY,
-    GameType.SEQUENCE,
-    GameType.SORTING,
-    GameType.UNSCRAMBLE,
-    GameType.FILL_IN_BLANK,
-    GameType.RIDDLE,
-    GameType.CROSSWORD,
-    GameType.EMOJI_CHALLENGE,
-    GameType.TRIVIA_TRAIL,
-    GameType.FIND_MATCH
-  ];
+  // Hebrew and Yiddish games are laid out right to left
+  const gameDirection = textDirection(gameData.title, gameData.instructions);
 
   // Cooperative games that are NOT question-based (like Crossword, Unscramble)
   if (session.status === 'active' && 
       (gameData.type === GameType.CROSSWORD || 
        gameData.type === GameType.UNSCRAMBLE || 
        gameData.type === GameType.WORD_SEARCH)) {
-     const handleBoardUpdate = (updates: any) => {
-        updateBoardState(sessionId, updates);
+     const handleBoardUpdate = (update: StateUpdate) => {
+        updateBoardState(sessionId, update).catch(reportMoveError);
      };
 
+     // Crossword attribution: who last wrote each cell, by name
+     const cellAuthors: Record<string, string> = {};
+     Object.keys(session.cellAuthors || {}).forEach(key => {
+        const authorId = session.cellAuthors![key];
+        cellAuthors[key] = authorId === HOST_AUTHOR ? t.live.hostName : session.players?.[authorId]?.name ?? t.live.guest;
+     });
+
      const renderCooperativeGame = () => {
         switch (gameData.type) {
             case GameType.CROSSWORD: 
@@ -277,7 +494,8 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
                 data={gameData} 
                 onReset={() => {}} 
                 externalInputs={session.boardState || {}}
-                onCellChange={(key, val) => handleBoardUpdate({[key]: val})}
+                onCellChange={(key, val) => setCrosswordCell(sessionId, key, val, playerId ?? HOST_AUTHOR).catch(reportMoveError)}
+                cellAuthors={cellAuthors}
               />;
             case GameType.UNSCRAMBLE:
               return <UnscrambleGame 
@@ -288,7 +506,7 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
               />;
             case GameType.WORD_SEARCH:
                 if (!isHost && !session.boardState?.grid) {
-                   return <div className="text-center p-8 text-indigo-600 animate-pulse">Waiting for host to start game...</div>;
+                   return <div className="text-center p-8 text-indigo-600 animate-pulse">{t.live.waitingForHost}</div>;
                 }
                 
                 // Firestore doesn't support nested arrays, so we likely stored it as a JSON string
@@ -307,15 +525,10 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
                     onReset={() => {}}
                     externalGrid={gridToUse}
                     externalFoundWords={session.boardState?.foundWords}
-                    onGridGenerated={(grid) => handleBoardUpdate({ grid: JSON.stringify(grid) })}
-                    onWordFound={(word) => {
-                        const currentFound = session.boardState?.foundWords || [];
-                        if (!currentFound.includes(word)) {
-                            handleBoardUpdate({ foundWords: [...currentFound, word] });
-                        }
-                    }}
+                    onGridGenerated={(grid) => setWordSearchGrid(sessionId, JSON.stringify(grid)).catch(reportMoveError)}
+                    onWordFound={(word) => addFoundWord(sessionId, word).catch(reportMoveError)}
                 />;
-            default: return <div>Game not supported in Live Mode yet.</div>;
+            default: return <div>{t.live.notSupported}</div>;
         }
      };
 
@@ -324,62 +537,83 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
          <RoleBadge />
          {isHost && (
            <div className="bg-cyan-50 p-4 rounded-xl mb-4 border border-cyan-200 text-cyan-800 text-center sticky top-4 z-50 shadow-md mx-4">
-             <p className="font-bold text-lg">Host Control Panel</p>
-             <p className="text-sm mb-2">You are solving this puzzle together with your student!</p>
+             <p className="font-bold text-lg">{t.live.hostPanel}</p>
+             <p className="text-sm mb-2">{t.live.solvingTogether}</p>
              { gameData.type === GameType.UNSCRAMBLE && (
                 <Button onClick={
                     () => {
                         const items = gameData.unscrambleContent;
                         if (!items) return;
                         const currentItem = items[session.boardState.currentIndex];
-                        if(session.boardState.currentGuess.join('') === currentItem.original.toUpperCase()){
+                        if(sameLetters(session.boardState.currentGuess.join(''), currentItem.original)){
                             // This is a bit of a hack, we need a better way to trigger next level
                             // For now, let's just do it
-                            const newIndex = session.boardState.currentIndex + 1;
+                            const index = session.boardState.currentIndex;
+                            const newIndex = index + 1;
                             if(newIndex < items.length){
                                 const nextItem = items[newIndex];
-                                 updateBoardState(sessionId, {
+                                // Checked again against the latest board, so a double click only moves on once
+                                updateBoardState(sessionId, board => board.currentIndex !== index ? null : {
                                     currentIndex: newIndex,
-                                    completedCount: session.boardState.completedCount + 1,
+                                    completedCount: (board.completedCount || 0) + 1,
                                     currentGuess: [],
-                                    availableLetters: nextItem.original.toUpperCase().split('').map((c: string, i: number) => ({char: c, id: i}))
-                                });
+                                    availableLetters: Array.from(gridLetters(nextItem.original)).map((c: string, i: number) => ({char: c, id: i}))
+                                }).catch(reportMoveError);
                             } else {
-                                updateSessionState(sessionId, { status: 'finished' });
+                                updateSessionState(sessionId, { status: 'finished' }).catch(reportMoveError);
                             }
                         }
                     }
                 } size="sm" className="mt-1">
-                  Next Word
+                  {t.live.nextWord}
                 </Button>
              )}
              <Button onClick={async () => await updateSessionState(sessionId, { status: 'finished' })} className="mt-1">
-               End Session
+               {t.live.endSession}
              </Button>
            </div>
          )}
-         <div className="pointer-events-auto">
+         {error && <p className="mx-4 mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200 text-center">{error}</p>}
+         <div className="pointer-events-auto" dir={gameDirection}>
             {renderCooperativeGame()}
          </div>
        </div>
      );
   }
 
-  // Handle Independent Play games
-  if (session.status === 'active' && independentGames.includes(gameData.type)) {
-     const renderIndependentGame = () => {
+  // Synced board games: cooperative sessions share boardState, competitive ones give each player their own state
+  if (session.status === 'active' && SYNCED_GAMES.includes(gameData.type)) {
+     const players: Record<string, LivePlayer> = session.players || {};
+     const watchedId = isHost ? watchedPlayerId : playerId;
+     // The host only watches a competitive player's board, so their clicks are dropped
+     const live: LiveGameProps<any> = isCompetitive
+       ? {
+           externalState: (watchedId && session.playerStates?.[watchedId]) || {},
+           onStateChange: (updates) => {
+             if (!isHost && playerId) updatePlayerState(sessionId, playerId, updates).catch(reportMoveError);
+           },
+           // Progress is best effort: a lost event only leaves the host's dashboard a step behind
+           onProgress: isHost || !playerId ? undefined : (event) => {
+             reportProgress(sessionId, playerId, event).catch(err => console.error("Failed to report progress", err));
+           }
+         }
+       : {
+           externalState: session.boardState || {},
+           onStateChange: (updates) => { updateBoardState(sessionId, updates).catch(reportMoveError); }
+         };
+
+     const renderSyncedGame = () => {
         switch (gameData.type) {
-            case GameType.WORD_SEARCH: return <WordSearchGame data={gameData} onReset={() => {}} />;
-            case GameType.MATCHING: return <MatchingGame data={gameData} onReset={() => {}} />;
-            case GameType.MEMORY: return <MemoryGame data={gameData} onReset={() => {}} />;
-            case GameType.SEQUENCE: return <SequenceGame data={gameData} onReset={() => {}} />;
-            case GameType.SORTING: return <SortingGame data={gameData} onReset={() => {}} />;
-            case GameType.FILL_IN_BLANK: return <FillBlankGame data={gameData} onReset={() => {}} />;
-            case GameType.RIDDLE: return <RiddleGame data={gameData} onReset={() => {}} />;
-            case GameType.EMOJI_CHALLENGE: return <EmojiGame data={gameData} onReset={() => {}} />;
-            case GameType.TRIVIA_TRAIL: return <TriviaTrailGame data={gameData} onReset={() => {}} />;
-            case GameType.FIND_MATCH: return <FindMatchGame data={gameData} onReset={() => {}} />;
-            default: return <div>Game not supported in Live Mode yet.</div>;
+            case GameType.MATCHING: return <MatchingGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.MEMORY: return <MemoryGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.SEQUENCE: return <SequenceGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.SORTING: return <SortingGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.FILL_IN_BLANK: return <FillBlankGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.RIDDLE: return <RiddleGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.EMOJI_CHALLENGE: return <EmojiGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.TRIVIA_TRAIL: return <TriviaTrailGame data={gameData} onReset={() => {}} {...live} />;
+            case GameType.FIND_MATCH: return <FindMatchGame data={gameData} onReset={() => {}} {...live} />;
+            default: return <div>{t.live.notSupported}</div>;
         }
      };
 
@@ -388,24 +622,131 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
          <RoleBadge />
          {isHost && (
            <div className="bg-yellow-50 p-4 rounded-xl mb-4 border border-yellow-200 text-yellow-800 text-center sticky top-4 z-50 shadow-md mx-4">
-             <p className="font-bold text-lg">Host Control Panel</p>
+             <p className="font-bold text-lg">{t.live.hostPanel}</p>
              <p className="text-sm mb-2">
-               {gameData.type === GameType.CROSSWORD 
-                 ? "Students are solving the Crossword together!" 
-                 : "Students are playing independently on their devices."}
+               {isCompetitive ? t.live.playingIndependently : t.live.playingTogether}
              </p>
+             {isCompetitive && (
+               <div className="bg-white rounded-lg p-3 mb-2 max-h-64 overflow-y-auto">
+                 <p className="text-xs font-bold mb-1">{t.live.watchPlayer}</p>
+                 <LiveProgressBoard
+                   players={players}
+                   presence={presence}
+                   progress={session.progress || {}}
+                   items={progressItems(gameData)}
+                   startedAtMs={session.questionStartedAt?.toMillis()}
+                   watchedPlayerId={watchedPlayerId}
+                   onWatch={setWatchedPlayerId}
+                 />
+               </div>
+             )}
              <Button onClick={async () => await updateSessionState(sessionId, { status: 'finished' })} className="mt-1">
-               End Session
+               {t.live.endSession}
              </Button>
            </div>
          )}
-         <div className="pointer-events-auto">
-            {renderIndependentGame()}
-         </div>
+         {error && <p className="mx-4 mb-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200 text-center">{error}</p>}
+         {isHost && isCompetitive && !watchedId ? (
+           <div className="text-center p-8 text-gray-500">{t.live.pickPlayerToWatch}</div>
+         ) : (
+           // Remount when the host switches players so no selection carries over between boards
+           <div key={watchedId ?? 'board'} className="pointer-events-auto" dir={gameDirection}>
+              {renderSyncedGame()}
+           </div>
+         )}
        </div>
      );
   }
 
+  if (session.status === 'active' && currentQ && isCompetitive) {
+    const answers: Record<string, LiveAnswer> = session.answers || {};
+    const players = session.players || {};
+    const myAnswer = playerId ? answers[playerId] : undefined;
+    const revealed = !!session.revealed;
+    const lastPoints = playerId ? players[playerId]?.lastPoints : undefined;
+
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        <RoleBadge />
+        <div className="bg-white p-8 rounded-3xl shadow-xl">
+          <div className="flex justify-between items-center mb-6 gap-4">
+            <span className="text-sm font-bold text-gray-400 uppercase tracking-wider">
+              {t.common.questionOf(session.currentQuestionIndex + 1, gameData.quizContent.length)}
+            </span>
+            {isHost && (
+              <div className="flex items-center gap-3">
+                <span className="text-sm text-gray-500">{t.live.answersIn(Object.keys(answers).length, Object.keys(players).length)}</span>
+                {revealed ? (
+                  <Button onClick={handleNextQuestion} size="sm">
+                    {t.live.next} <ArrowRight size={16} className="rtl:rotate-180" />
+                  </Button>
+                ) : (
+                  <Button onClick={handleReveal} size="sm">
+                    <Eye size={16} /> {t.live.reveal}
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+
+          <h2 className="text-2xl font-bold text-gray-800 mb-8" dir={gameDirection}>{currentQ.question}</h2>
+
+          <div className="grid gap-4" dir={gameDirection}>
+            {currentQ.options.map((opt: string, i: number) => {
+              const isMine = myAnswer?.option === opt;
+              const isCorrectAnswer = opt === currentQ.correctAnswer;
+              const picks = Object.values(answers).filter(a => a.option === opt).length;
+
+              let btnClass = "border-gray-200 hover:border-indigo-200 hover:bg-slate-50 text-gray-700";
+              if (revealed) {
+                if (isCorrectAnswer) btnClass = "border-green-500 bg-green-50 text-green-700";
+                else if (isMine) btnClass = "border-red-500 bg-red-50 text-red-700";
+                else btnClass = "border-gray-100 text-gray-400";
+              } else if (isMine) {
+                btnClass = "border-indigo-500 bg-indigo-50 text-indigo-700";
+              } else if (myAnswer) {
+                btnClass = "border-gray-100 text-gray-400";
+              }
+
+              return (
+                <button
+                  key={i}
+                  disabled={isHost || revealed || !!myAnswer}
+                  className={`w-full p-4 text-start rounded-xl border-2 transition-all font-semibold flex justify-between items-center gap-3 ${btnClass}`}
+                  onClick={() => handleCompetitiveAnswer(opt)}
+                >
+                  <span>{optionLabel(t, gameData, opt)}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    {/* The host sees how the room answered once it's revealed */}
+                    {isHost && revealed && <span className="text-sm font-bold">{picks}</span>}
+                    {!revealed && isMine && <Lock size={18} />}
+                    {revealed && isCorrectAnswer && <CheckCircle size={20} />}
+                    {revealed && isMine && !isCorrectAnswer && <XCircle size={20} />}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {!isHost && (
+            <p className="mt-6 text-center font-bold text-gray-600">
+              {!revealed && (myAnswer ? t.live.answerLocked : t.live.pickAnswer)}
+              {revealed && (!myAnswer
+                ? t.live.noAnswer
+                : myAnswer.option === currentQ.correctAnswer
+                  ? <span className="text-green-600">{t.live.correctPoints(lastPoints ?? 0)}</span>
+                  : <span className="text-red-600">{t.live.wrongAnswer}</span>)}
+            </p>
+          )}
+          {error && <p className="mt-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200">{error}</p>}
+        </div>
+
+        {/* Between questions everyone sees the standings */}
+        {revealed && <LiveLeaderboard players={players} playerId={playerId} showLastPoints />}
+      </div>
+    );
+  }
+
   if (session.status === 'active' && currentQ) {
     return (
       <div className="max-w-3xl mx-auto">
@@ -413,18 +754,18 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
         <div className="bg-white p-8 rounded-3xl shadow-xl mb-6">
           <div className="flex justify-between items-center mb-6">
             <span className="text-sm font-bold text-gray-400 uppercase tracking-wider">
-              Question {session.currentQuestionIndex + 1}/{gameData.quizContent.length}
+              {t.common.questionOf(session.currentQuestionIndex + 1, gameData.quizContent.length)}
             </span>
             {isHost && (
                <Button onClick={handleNextQuestion} size="sm">
-                 Next <ArrowRight size={16} />
+                 {t.live.next} <ArrowRight size={16} className="rtl:rotate-180" />
                </Button>
             )}
           </div>
           
-          <h2 className="text-2xl font-bold text-gray-800 mb-8">{currentQ.question}</h2>
+          <h2 className="text-2xl font-bold text-gray-800 mb-8" dir={gameDirection}>{currentQ.question}</h2>
           
-          <div className="grid gap-4">
+          <div className="grid gap-4" dir={gameDirection}>
             {currentQ.options.map((opt: string, i: number) => {
               const isSelected = session.sharedAnswer === opt;
               const isCorrectAnswer = opt === currentQ.correctAnswer;
@@ -448,15 +789,16 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
                 <button
                   key={i}
                   disabled={!!session.sharedAnswer} // Disable all buttons once an answer is shared
-                  className={`w-full p-4 text-left rounded-xl border-2 transition-all font-semibold flex justify-between items-center ${btnClass}`}
+                  className={`w-full p-4 text-start rounded-xl border-2 transition-all font-semibold flex justify-between items-center ${btnClass}`}
                   onClick={() => handleAnswer(opt, currentQ.correctAnswer)}
                 >
-                  <span>{opt}</span>
+                  <span>{optionLabel(t, gameData, opt)}</span>
                   {isSelected && (session.answerFeedback ? <CheckCircle size={20} /> : <XCircle size={20} />)}
                 </button>
               );
             })}
           </div>
+          {error && <p className="mt-4 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200">{error}</p>}
         </div>
       </div>
     );
@@ -464,9 +806,22 @@ export const LiveSession: React.FC<LiveSessionProps> = ({
 
   return (
     <div className="text-center p-8">
-      <h2 className="text-3xl font-bold mb-4">Game Finished!</h2>
+      <h2 className="text-3xl font-bold mb-4">{t.live.finished}</h2>
       <Trophy size={64} className="mx-auto text-yellow-500 mb-4" />
-      <Button onClick={onExit}>Exit</Button>
+      {isCompetitive && (
+        <div className="max-w-xl mx-auto mb-6 text-start">
+          <LiveLeaderboard players={session.players || {}} playerId={playerId} />
+        </div>
+      )}
+      <div className="flex justify-center gap-3">
+        {isHost && (
+          <Button onClick={handleDeleteSession} variant="outline">
+            <Trash2 size={16} className="me-2" />
+            {t.live.deleteSession}
+          </Button>
+        )}
+        <Button onClick={onExit}>{t.live.exit}</Button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, Locale, useI18n } from '../i18n';
+
+/**
+ * Picks the interface language; each language is listed in its own name.
+ */
+export const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-500 print:hidden">
+      <Languages size={18} />
+      <span className="sr-only">{t.locale.label}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="px-2 py-1.5 rounded-lg border-2 border-slate-200 focus:border-indigo-500 outline-none bg-white text-gray-800 font-bold"
+      >
+        {LOCALES.map(({ code, name }) => <option key={code} value={code} lang={code}>{name}</option>)}
+      </select>
+    </label>
+  );
+};
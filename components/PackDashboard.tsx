@@ -0,0 +1,109 @@
+import React from 'react';
+import { ActivityPack } from '../types';
+import { Button } from './Button';
+import { getGameOption } from './GameMenu';
+import { Loader2, AlertCircle, RotateCcw, Play, User, Package } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+interface PackDashboardProps {
+  pack: ActivityPack;
+  onOpen: (index: number) => void;
+  onRetry: (index: number) => void;
+  onBack: () => void;
+}
+
+export const PackDashboard: React.FC<PackDashboardProps> = ({ pack, onOpen, onRetry, onBack }) => {
+  const { t } = useI18n();
+  const readyCount = pack.items.filter(item => item.status === 'ready').length;
+
+  return (
+    <div className="max-w-5xl mx-auto animate-fade-in-up">
+      <div className="text-center mb-10">
+        <div className="inline-flex items-center justify-center w-16 h-16 bg-indigo-100 rounded-full mb-4 text-indigo-600">
+          <Package size={32} />
+        </div>
+        <h2 className="text-3xl font-bold text-indigo-900 mb-2">{t.pack.title}</h2>
+        <p className="text-gray-600">
+          {t.pack.progress(readyCount, pack.items.length)}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 md:gap-6 mb-10">
+        {pack.items.map((item, index) => {
+          const option = getGameOption(item.type);
+          return (
+            <div
+              key={`${item.type}-${index}`}
+              className="flex flex-col p-6 bg-white rounded-2xl shadow-sm border-2 border-slate-100 h-full"
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <div className={`w-12 h-12 rounded-full flex items-center justify-center shrink-0 ${option.color}`}>
+                  <option.icon size={24} />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-xs font-bold uppercase tracking-wide text-gray-400">{t.gameTypes[item.type].label}</p>
+                  <h3 className="font-bold text-gray-800 truncate">
+                    {item.data?.title || (item.status === 'loading' ? t.pack.generating : t.pack.notAvailable)}
+                  </h3>
+                </div>
+              </div>
+
+              <div className="mt-auto">
+                {item.status === 'ready' && (
+                  <Button onClick={() => onOpen(index)} className="w-full py-2">
+                    <Play size={16} />
+                    {t.pack.play}
+                  </Button>
+                )}
+                {item.status === 'loading' && (
+                  <div className="flex items-center justify-center gap-2 text-indigo-500 text-sm font-bold py-2">
+                    <Loader2 size={16} className="animate-spin" />
+                    {t.pack.designing}
+                  </div>
+                )}
+                {item.status === 'error' && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-red-600 flex items-start gap-1">
+                      <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                      {item.error}
+                    </p>
+                    <Button onClick={() => onRetry(index)} variant="outline" className="w-full py-2">
+                      <RotateCcw size={16} />
+                      {t.common.tryAgain}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {pack.mentorKey.length > 0 && (
+        <div className="bg-indigo-50 rounded-2xl p-6 border border-indigo-200 mb-8">
+          <div className="flex items-center gap-2 mb-4 text-indigo-800">
+            <User size={24} />
+            <h3 className="text-xl font-bold">{t.common.mentorsCorner}</h3>
+          </div>
+          <p className="text-indigo-900/70 mb-4 text-sm italic">
+            {t.pack.sharedMentorKey}
+          </p>
+          <ul className="space-y-2">
+            {pack.mentorKey.map((point, i) => (
+              <li key={i} className="flex gap-3 text-indigo-900">
+                <span className="font-bold text-indigo-400 min-w-[20px]">•</span>
+                <span>{point}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <Button onClick={onBack} variant="ghost">
+          {t.pack.backToActivities}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PdfSource, PdfSelection, renderPdfPage, isScannedPage, selectionText } from '../services/pdfSource';
+import { Highlighter, ScanLine, X } from 'lucide-react';
+import { useI18n } from '../i18n';
+
+const THUMBNAIL_WIDTH = 120;
+
+interface PdfPagePickerProps {
+  source: PdfSource;
+  selection: PdfSelection;
+  onChange: (selection: PdfSelection) => void;
+}
+
+/**
+ * Page thumbnails of an uploaded PDF. Clicking a page starts a new range, the next click ends it;
+ * within the range a passage can be highlighted to send only that.
+ */
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ source, selection, onChange }) => {
+  const { t } = useI18n();
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  // Set after the first click of a range, until the second one
+  const [rangeStart, setRangeStart] = useState<number | null>(null);
+  const [highlight, setHighlight] = useState('');
+  const textRef = useRef<HTMLDivElement>(null);
+  const pageCount = source.pages.length;
+
+  // Render thumbnails one after another, so the first pages show up quickly
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (const page of source.pages) {
+        if (cancelled) return;
+        try {
+          const image = await renderPdfPage(source, page.pageNumber, THUMBNAIL_WIDTH);
+          if (!cancelled) setThumbnails(current => ({ ...current, [page.pageNumber]: image }));
+        } catch (error) {
+          console.warn(`Could not render page ${page.pageNumber}:`, error);
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [source]);
+
+  const handlePageClick = (pageNumber: number) => {
+    if (rangeStart === null) {
+      setRangeStart(pageNumber);
+      onChange({ from: pageNumber, to: pageNumber });
+    } else {
+      setRangeStart(null);
+      onChange({ from: Math.min(rangeStart, pageNumber), to: Math.max(rangeStart, pageNumber) });
+    }
+  };
+
+  const setBound = (bound: 'from' | 'to', value: number) => {
+    if (!Number.isFinite(value)) return;
+    const page = Math.min(pageCount, Math.max(1, Math.round(value)));
+    const next = { ...selection, [bound]: page, passage: undefined };
+    if (next.from > next.to) {
+      if (bound === 'from') next.to = page;
+      else next.from = page;
+    }
+    setRangeStart(null);
+    onChange(next);
+  };
+
+  // Picks up text selected with the mouse (or by touch) inside the page text
+  const captureHighlight = () => {
+    const selected = window.getSelection();
+    const text = selected?.toString().trim() ?? '';
+    if (text && textRef.current && selected?.anchorNode && textRef.current.contains(selected.anchorNode)) {
+      setHighlight(text);
+    } else {
+      setHighlight('');
+    }
+  };
+
+  const rangeText = selectionText(source, selection);
+  const scannedInRange = source.pages.filter(p => p.pageNumber >= selection.from && p.pageNumber <= selection.to && isScannedPage(p)).length;
+  const inputClass = "w-16 px-2 py-1 rounded-lg border-2 border-indigo-100 focus:border-indigo-500 outline-none text-center";
+
+  return (
+    <div className="mt-3 p-3 bg-white rounded-xl border border-indigo-100 space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <span className="font-bold text-gray-700">{t.pdfPicker.pages}</span>
+        <input type="number" min={1} max={pageCount} value={selection.from} onChange={(e) => setBound('from', Number(e.target.value))} className={inputClass} />
+        <span>{t.pdfPicker.to}</span>
+        <input type="number" min={1} max={pageCount} value={selection.to} onChange={(e) => setBound('to', Number(e.target.value))} className={inputClass} />
+        <span>{t.pdfPicker.of(pageCount)}</span>
+        {(selection.from !== 1 || selection.to !== pageCount) && (
+          <button type="button" onClick={() => { setRangeStart(null); onChange({ from: 1, to: pageCount }); }} className="ms-auto text-indigo-600 font-bold hover:underline">
+            {t.pdfPicker.allPages}
+          </button>
+        )}
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {source.pages.map(page => {
+          const selected = page.pageNumber >= selection.from && page.pageNumber <= selection.to;
+          return (
+            <button
+              key={page.pageNumber}
+              type="button"
+              onClick={() => handlePageClick(page.pageNumber)}
+              className={`relative shrink-0 rounded-lg border-2 overflow-hidden transition-all ${selected ? 'border-indigo-500 opacity-100' : 'border-slate-200 opacity-50 hover:opacity-80'} ${rangeStart === page.pageNumber ? 'ring-2 ring-amber-400' : ''}`}
+              style={{ width: THUMBNAIL_WIDTH / 1.5 }}
+              title={isScannedPage(page) ? t.pdfPicker.scannedPage(page.pageNumber) : t.pdfPicker.page(page.pageNumber)}
+            >
+              {thumbnails[page.pageNumber]
+                ? <img src={thumbnails[page.pageNumber]} alt={t.pdfPicker.page(page.pageNumber)} className="w-full" />
+                : <div className="aspect-[3/4] bg-slate-100 animate-pulse" />}
+              <span className="absolute bottom-0 inset-x-0 bg-white/90 text-xs font-bold text-gray-700 flex items-center justify-center gap-1">
+                {isScannedPage(page) && <ScanLine size={10} />}
+                {page.pageNumber}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {rangeStart !== null && <p className="text-xs text-amber-700">{t.pdfPicker.endRange}</p>}
+
+      {selection.passage ? (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs font-bold uppercase tracking-wide text-amber-700">{t.pdfPicker.passageOnly}</span>
+            <button type="button" onClick={() => onChange({ ...selection, passage: undefined })} className="p-1 text-amber-700 hover:text-amber-900" title={t.pdfPicker.useWholeRange}>
+              <X size={14} />
+            </button>
+          </div>
+          <p className="text-sm text-gray-800 whitespace-pre-wrap max-h-40 overflow-y-auto" dir="auto">
+            <mark className="bg-amber-200">{selection.passage}</mark>
+          </p>
+        </div>
+      ) : rangeText ? (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">{t.pdfPicker.selectPassage}</p>
+          <div
+            ref={textRef}
+            onMouseUp={captureHighlight}
+            onTouchEnd={captureHighlight}
+            className="text-sm text-gray-700 whitespace-pre-wrap max-h-48 overflow-y-auto p-3 bg-slate-50 rounded-lg border border-slate-200 select-text"
+            dir="auto"
+          >
+            {rangeText}
+          </div>
+          {highlight && (
+            <button
+              type="button"
+              onClick={() => { onChange({ ...selection, passage: highlight }); setHighlight(''); }}
+              className="mt-2 inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-100 text-amber-800 text-sm font-bold hover:bg-amber-200"
+            >
+              <Highlighter size={14} />
+              {t.pdfPicker.useHighlight(highlight.split(/\s+/).length)}
+            </button>
+          )}
+        </div>
+      ) : null}
+
+      {!selection.passage && scannedInRange > 0 && (
+        <p className="text-xs text-gray-500 flex items-center gap-1">
+          <ScanLine size={12} />
+          {t.pdfPicker.scannedNote(scannedInRange)}
+        </p>
+      )}
+    </div>
+  );
+};
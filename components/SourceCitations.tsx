@@ -0,0 +1,82 @@
+import React from 'react';
+import { CitationStatus, GameData, SourceCitation } from '../types';
+import { getContentItems, describeItem } from '../services/gameItems';
+import { countUnverifiedItems } from '../services/citations';
+import { BookMarked, CheckCircle, CircleDashed, AlertTriangle, HelpCircle } from 'lucide-react';
+import { useI18n, Messages } from '../i18n';
+
+// Labels come from `t.citations.status`
+const STATUS: Record<CitationStatus, { icon: React.ElementType; className: string }> = {
+  'found': { icon: CheckCircle, className: 'text-emerald-600' },
+  'approximate': { icon: CircleDashed, className: 'text-amber-600' },
+  'not-found': { icon: AlertTriangle, className: 'text-red-600' },
+  'unchecked': { icon: HelpCircle, className: 'text-gray-400' },
+};
+
+const pageLabel = (t: Messages, citation: SourceCitation) => (citation.sourcePage ? ` ${t.citations.pageRef(citation.sourcePage)}` : '');
+
+/**
+ * The source quote of an item, shown with the answer once it is revealed.
+ */
+export const SourceQuote: React.FC<{ citation: SourceCitation }> = ({ citation }) => {
+  const { t } = useI18n();
+  if (!citation.sourceQuote) return null;
+  return (
+    <div className="mb-6 p-4 bg-amber-50/60 text-gray-700 rounded-2xl border border-amber-100 flex gap-3 text-sm">
+      <BookMarked size={18} className="shrink-0 mt-0.5 text-amber-600" />
+      <p dir="auto">
+        <span className="font-bold text-amber-800">{t.citations.fromKoivetz}{pageLabel(t, citation)}: </span>
+        <q className="italic">{citation.sourceQuote}</q>
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Every item's source quote with the result of the check against the source, for the Mentor's Corner.
+ */
+export const CitationList: React.FC<{ data: GameData }> = ({ data }) => {
+  const { t } = useI18n();
+  const cited = getContentItems(data)
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => typeof item === 'object' && !!(item as SourceCitation).sourceQuote);
+  if (cited.length === 0) return null;
+
+  const unverified = countUnverifiedItems(data);
+
+  return (
+    <div className="mt-6 pt-6 border-t border-indigo-200 print:border-slate-300">
+      <div className="flex items-center gap-2 mb-1 text-indigo-800 print:text-black">
+        <BookMarked size={20} />
+        <h4 className="text-lg font-bold">{t.citations.sources}</h4>
+      </div>
+      <p className={`mb-4 text-sm ${unverified > 0 ? 'text-red-700 font-bold' : 'text-indigo-900/70 italic'} print:text-black`}>
+        {unverified > 0 ? t.citations.unverified(unverified) : t.citations.intro}
+      </p>
+      <ol className="space-y-3">
+        {cited.map(({ item, index }) => {
+          const citation = item as SourceCitation;
+          const status = citation.sourceCheck ? STATUS[citation.sourceCheck] : undefined;
+          const statusLabel = citation.sourceCheck ? t.citations.status[citation.sourceCheck] : undefined;
+          return (
+            <li key={index} className="flex gap-3 text-sm text-indigo-900 print:text-black">
+              <span className="font-bold text-indigo-400 min-w-[20px] print:text-black">{index + 1}.</span>
+              <div className="flex-1 min-w-0" dir="auto">
+                <p className="font-bold">{describeItem(item)}</p>
+                <p className="text-indigo-900/80 print:text-black">
+                  <q className="italic">{citation.sourceQuote}</q>{pageLabel(t, citation)}
+                </p>
+              </div>
+              {status && (
+                <span title={statusLabel} className={`shrink-0 ${status.className} print:hidden`}>
+                  <status.icon size={18} />
+                  <span className="sr-only">{statusLabel}</span>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
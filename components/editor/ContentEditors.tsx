@@ -0,0 +1,323 @@
+import React from 'react';
+import {
+  GameData,
+  GameType,
+  QuizItem,
+  MatchingItem,
+  SequenceItem,
+  SortingItem,
+  UnscrambleItem,
+  RiddleItem,
+  CrosswordItem,
+  EmojiChallengeItem,
+  TriviaTrailItem
+} from '../../types';
+import { TextField, ItemListEditor, StringListEditor, ChoiceEditor, AddButton, newItemId } from './EditorControls';
+import { Trash2 } from 'lucide-react';
+import { useI18n } from '../../i18n';
+
+interface ContentEditorProps {
+  game: GameData;
+  onChange: (game: GameData) => void;
+  // Extra actions for the item at a given index of the content (see getContentItems)
+  itemActions?: (index: number) => React.ReactNode;
+}
+
+const ordinal = (label: string) => (index: number) => `${label} ${index + 1}`;
+
+/**
+ * Edits the content field of the game's type (quizContent for a quiz, sortingContent for sorting, ...).
+ */
+export const ContentEditor: React.FC<ContentEditorProps> = ({ game, onChange, itemActions }) => {
+  const { t } = useI18n();
+  const set = (changes: Partial<GameData>) => onChange({ ...game, ...changes });
+  const renderActions = itemActions && ((_item: unknown, index: number) => itemActions(index));
+
+  switch (game.type) {
+    case GameType.QUIZ:
+    case GameType.TRUE_FALSE: {
+      const isTrueFalse = game.type === GameType.TRUE_FALSE;
+      return (
+        <ItemListEditor<QuizItem>
+          items={game.quizContent || []}
+          onChange={(quizContent) => set({ quizContent })}
+          createItem={() => ({ question: '', options: isTrueFalse ? ['True', 'False'] : ['', '', '', ''], correctAnswer: isTrueFalse ? 'True' : '' })}
+          addLabel={t.editor.addQuestion}
+          itemLabel={ordinal(isTrueFalse ? t.editor.statement : t.editor.question)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <TextField label={isTrueFalse ? t.editor.statement : t.editor.question} value={item.question} onChange={(question) => update({ question })} multiline />
+              <ChoiceEditor
+                options={item.options}
+                answer={item.correctAnswer}
+                fixedOptions={isTrueFalse}
+                onChange={(options, correctAnswer) => update({ options, correctAnswer })}
+              />
+              <TextField label={t.editor.explanation} value={item.explanation || ''} onChange={(explanation) => update({ explanation })} />
+            </>
+          )}
+        />
+      );
+    }
+
+    case GameType.MATCHING:
+    case GameType.MEMORY:
+      return (
+        <ItemListEditor<MatchingItem>
+          items={game.matchingContent || []}
+          onChange={(matchingContent) => set({ matchingContent })}
+          createItem={() => ({ id: newItemId('pair'), term: '', definition: '' })}
+          addLabel={t.editor.addPair}
+          itemLabel={ordinal(t.editor.pair)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <TextField label={t.editor.term} value={item.term} onChange={(term) => update({ term })} />
+              <TextField label={t.editor.definition} value={item.definition} onChange={(definition) => update({ definition })} multiline />
+            </>
+          )}
+        />
+      );
+
+    case GameType.SEQUENCE:
+      return (
+        <>
+          <p className="text-sm text-gray-500 mb-3">{t.editor.sequenceHint}</p>
+          <ItemListEditor<SequenceItem>
+            items={game.sequenceContent || []}
+            // The list order is the answer, so keep `order` in step with it
+            onChange={(steps) => set({ sequenceContent: steps.map((step, i) => ({ ...step, order: i + 1 })) })}
+            createItem={() => ({ id: newItemId('step'), text: '', order: (game.sequenceContent?.length || 0) + 1 })}
+            addLabel={t.editor.addStep}
+            itemLabel={ordinal(t.editor.step)}
+            renderActions={renderActions}
+            renderItem={(item, update) => (
+              <TextField value={item.text} onChange={(text) => update({ text })} multiline />
+            )}
+          />
+        </>
+      );
+
+    case GameType.SORTING: {
+      const sorting = game.sortingContent || { categories: [], items: [] };
+      return (
+        <div className="space-y-6">
+          <div className="bg-white p-4 rounded-2xl border-2 border-slate-100">
+            <StringListEditor
+              label={t.editor.categories}
+              values={sorting.categories}
+              addLabel={t.editor.addCategory}
+              onChange={(categories) => {
+                // Items follow a renamed category (exactly one entry edited); a reorder leaves them alone,
+                // and items of a removed category need a new one
+                const edited = categories.length === sorting.categories.length
+                  ? categories.map((_, i) => i).filter(i => categories[i] !== sorting.categories[i])
+                  : [];
+                const items = edited.length === 1
+                  ? sorting.items.map(item => item.category === sorting.categories[edited[0]] ? { ...item, category: categories[edited[0]] } : item)
+                  : sorting.items;
+                set({ sortingContent: { categories, items } });
+              }}
+            />
+          </div>
+          <ItemListEditor<SortingItem>
+            items={sorting.items}
+            onChange={(items) => set({ sortingContent: { ...sorting, items } })}
+            createItem={() => ({ id: newItemId('item'), text: '', category: sorting.categories[0] || '' })}
+            addLabel={t.editor.addItem}
+            itemLabel={ordinal(t.editor.item)}
+            renderActions={renderActions}
+            renderItem={(item, update) => (
+              <>
+                <TextField label={t.editor.item} value={item.text} onChange={(text) => update({ text })} />
+                <label className="block">
+                  <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-1">{t.editor.category}</span>
+                  <select
+                    value={item.category}
+                    onChange={(e) => update({ category: e.target.value })}
+                    className="w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-indigo-500 outline-none bg-white"
+                  >
+                    {!sorting.categories.includes(item.category) && <option value={item.category}>{item.category || t.editor.chooseCategory}</option>}
+                    {sorting.categories.map((c, i) => <option key={i} value={c}>{c}</option>)}
+                  </select>
+                </label>
+              </>
+            )}
+          />
+        </div>
+      );
+    }
+
+    case GameType.UNSCRAMBLE:
+      return (
+        <ItemListEditor<UnscrambleItem>
+          items={game.unscrambleContent || []}
+          onChange={(unscrambleContent) => set({ unscrambleContent })}
+          createItem={() => ({ id: newItemId('word'), original: '', hint: '' })}
+          addLabel={t.editor.addWord}
+          itemLabel={ordinal(t.editor.word)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <TextField label={t.editor.word} value={item.original} onChange={(original) => update({ original })} />
+              <TextField label={t.editor.hint} value={item.hint} onChange={(hint) => update({ hint })} />
+            </>
+          )}
+        />
+      );
+
+    case GameType.WORD_SEARCH:
+      return (
+        <div className="bg-white p-4 rounded-2xl border-2 border-slate-100">
+          <StringListEditor
+            label={t.editor.wordsToFind}
+            values={game.wordSearchContent || []}
+            onChange={(wordSearchContent) => set({ wordSearchContent })}
+            addLabel={t.editor.addWord}
+            renderActions={itemActions}
+          />
+        </div>
+      );
+
+    case GameType.FILL_IN_BLANK:
+      return <FillBlankEditor game={game} onChange={onChange} itemActions={itemActions} />;
+
+    case GameType.RIDDLE:
+      return (
+        <ItemListEditor<RiddleItem>
+          items={game.riddleContent || []}
+          onChange={(riddleContent) => set({ riddleContent })}
+          createItem={() => ({ id: newItemId('riddle'), clues: ['', '', ''], answer: '' })}
+          addLabel={t.editor.addRiddle}
+          itemLabel={ordinal(t.editor.riddle)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <StringListEditor label={t.editor.clues} values={item.clues} onChange={(clues) => update({ clues })} addLabel={t.editor.addClue} />
+              <TextField label={t.editor.answer} value={item.answer} onChange={(answer) => update({ answer })} />
+            </>
+          )}
+        />
+      );
+
+    case GameType.CROSSWORD:
+      return (
+        <ItemListEditor<CrosswordItem>
+          items={game.crosswordContent || []}
+          onChange={(crosswordContent) => set({ crosswordContent })}
+          createItem={() => ({ word: '', clue: '' })}
+          addLabel={t.editor.addWord}
+          itemLabel={ordinal(t.editor.entry)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <TextField label={t.editor.gridWord} value={item.word} onChange={(word) => update({ word })} />
+              <TextField label={t.editor.clue} value={item.clue} onChange={(clue) => update({ clue })} />
+            </>
+          )}
+        />
+      );
+
+    case GameType.EMOJI_CHALLENGE:
+      return (
+        <ItemListEditor<EmojiChallengeItem>
+          items={game.emojiContent || []}
+          onChange={(emojiContent) => set({ emojiContent })}
+          createItem={() => ({ id: newItemId('emoji'), emojis: '', answer: '', hint: '', options: ['', '', '', ''] })}
+          addLabel={t.editor.addChallenge}
+          itemLabel={ordinal(t.editor.challenge)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <TextField label={t.editor.emojis} value={item.emojis} onChange={(emojis) => update({ emojis })} />
+              <ChoiceEditor options={item.options} answer={item.answer} onChange={(options, answer) => update({ options, answer })} />
+              <TextField label={t.editor.hint} value={item.hint} onChange={(hint) => update({ hint })} />
+            </>
+          )}
+        />
+      );
+
+    case GameType.TRIVIA_TRAIL:
+      return (
+        <ItemListEditor<TriviaTrailItem>
+          items={game.triviaTrailContent || []}
+          onChange={(triviaTrailContent) => set({ triviaTrailContent })}
+          createItem={() => ({ id: newItemId('step'), question: '', options: ['', '', '', ''], correctAnswer: '' })}
+          addLabel={t.editor.addQuestion}
+          itemLabel={ordinal(t.editor.stop)}
+          renderActions={renderActions}
+          renderItem={(item, update) => (
+            <>
+              <TextField label={t.editor.question} value={item.question} onChange={(question) => update({ question })} multiline />
+              <ChoiceEditor options={item.options} answer={item.correctAnswer} onChange={(options, correctAnswer) => update({ options, correctAnswer })} />
+            </>
+          )}
+        />
+      );
+
+    case GameType.FIND_MATCH:
+      return (
+        <div className="bg-white p-4 rounded-2xl border-2 border-slate-100">
+          <StringListEditor
+            label={t.editor.findMatchTerms}
+            values={game.findMatchContent || []}
+            onChange={(findMatchContent) => set({ findMatchContent })}
+            addLabel={t.editor.addTerm}
+            renderActions={itemActions}
+          />
+        </div>
+      );
+
+    default:
+      return <div className="text-center text-red-500">{t.editor.notEditable}</div>;
+  }
+};
+
+/**
+ * The story is edited as alternating text / blank pairs, so storySegments always stays
+ * exactly one longer than missingWords.
+ */
+const FillBlankEditor: React.FC<ContentEditorProps> = ({ game, onChange, itemActions }) => {
+  const { t } = useI18n();
+  const content = game.fillBlankContent || { storySegments: [''], missingWords: [] };
+  const { storySegments, missingWords } = content;
+  const set = (segments: string[], words: string[]) =>
+    onChange({ ...game, fillBlankContent: { storySegments: segments, missingWords: words } });
+
+  const updateSegment = (index: number, value: string) =>
+    set(storySegments.map((s, i) => (i === index ? value : s)), missingWords);
+
+  const updateWord = (index: number, value: string) =>
+    set(storySegments, missingWords.map((w, i) => (i === index ? value : w)));
+
+  // Removing a blank joins the text around it
+  const removeBlank = (index: number) => {
+    const segments = [...storySegments];
+    segments.splice(index, 2, `${storySegments[index]}${missingWords[index]}${storySegments[index + 1] ?? ''}`);
+    set(segments, missingWords.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-2xl border-2 border-slate-100 space-y-3">
+      <p className="text-sm text-gray-500">{t.editor.fillBlankHint}</p>
+      {storySegments.map((segment, index) => (
+        <React.Fragment key={index}>
+          <TextField label={t.editor.text(index + 1)} value={segment} onChange={(value) => updateSegment(index, value)} multiline />
+          {index < missingWords.length && (
+            <div className="flex items-end gap-2 ps-6 border-s-4 border-indigo-200">
+              <div className="flex-1">
+                <TextField label={t.editor.blank(index + 1)} value={missingWords[index]} onChange={(value) => updateWord(index, value)} />
+              </div>
+              {itemActions && <div className="mb-1">{itemActions(index)}</div>}
+              <button type="button" onClick={() => removeBlank(index)} className="p-2 mb-0.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50" title={t.editor.removeBlank}>
+                <Trash2 size={18} />
+              </button>
+            </div>
+          )}
+        </React.Fragment>
+      ))}
+      <AddButton label={t.editor.addBlank} onClick={() => set([...storySegments, ''], [...missingWords, ''])} />
+    </div>
+  );
+};
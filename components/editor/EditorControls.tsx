@@ -0,0 +1,247 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, CheckCircle, Circle, RefreshCw, Loader2 } from 'lucide-react';
+import { useI18n } from '../../i18n';
+
+// Small building blocks shared by the content editors
+
+export const newItemId = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 5)}`;
+
+const inputClass = "w-full px-3 py-2 rounded-lg border-2 border-slate-200 focus:border-indigo-500 outline-none bg-white text-gray-800";
+
+interface TextFieldProps {
+  label?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  dir?: 'auto' | 'ltr' | 'rtl';
+}
+
+export const TextField: React.FC<TextFieldProps> = ({ label, value, onChange, placeholder, multiline, dir = 'auto' }) => (
+  <label className="block">
+    {label && <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-1">{label}</span>}
+    {multiline ? (
+      <textarea
+        className={`${inputClass} min-h-[80px] resize-y`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        dir={dir}
+      />
+    ) : (
+      <input
+        type="text"
+        className={inputClass}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        dir={dir}
+      />
+    )}
+  </label>
+);
+
+export const AddButton: React.FC<{ label: string; onClick: () => void }> = ({ label, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="w-full py-3 rounded-xl border-2 border-dashed border-indigo-200 text-indigo-500 font-bold hover:bg-indigo-50 hover:border-indigo-400 transition-colors flex items-center justify-center gap-2"
+  >
+    <Plus size={18} />
+    {label}
+  </button>
+);
+
+interface RegenerateButtonProps {
+  onClick: () => void;
+  busy: boolean;
+  disabled?: boolean;
+}
+
+// Asks for a fresh replacement of a single item
+export const RegenerateButton: React.FC<RegenerateButtonProps> = ({ onClick, busy, disabled }) => {
+  const { t } = useI18n();
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled || busy}
+      className="p-1.5 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-amber-50 disabled:opacity-30 disabled:hover:bg-transparent"
+      title={busy ? t.editor.regenerating : t.editor.regenerate}
+    >
+      {busy ? <Loader2 size={16} className="animate-spin text-amber-600" /> : <RefreshCw size={16} />}
+    </button>
+  );
+};
+
+const move = <T,>(list: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+interface ItemListEditorProps<T> {
+  items: T[];
+  onChange: (items: T[]) => void;
+  createItem: () => T;
+  addLabel: string;
+  itemLabel: (index: number) => string;
+  renderItem: (item: T, update: (changes: Partial<T>) => void, index: number) => React.ReactNode;
+  // Extra per-item actions rendered next to the move / delete buttons
+  renderActions?: (item: T, index: number) => React.ReactNode;
+}
+
+/**
+ * List of editable cards with reorder / remove controls and an "add" button.
+ */
+export function ItemListEditor<T extends object>({
+  items,
+  onChange,
+  createItem,
+  addLabel,
+  itemLabel,
+  renderItem,
+  renderActions
+}: ItemListEditorProps<T>) {
+  const { t } = useI18n();
+  const update = (index: number, changes: Partial<T>) =>
+    onChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  return (
+    <div className="space-y-4">
+      {items.map((item, index) => (
+        <div key={index} className="bg-white p-4 rounded-2xl border-2 border-slate-100 shadow-sm">
+          <div className="flex items-center justify-between mb-3">
+            <span className="text-sm font-bold text-indigo-400 uppercase tracking-wide">{itemLabel(index)}</span>
+            <div className="flex gap-1">
+              {renderActions?.(item, index)}
+              <button type="button" onClick={() => onChange(move(items, index, index - 1))} disabled={index === 0} className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30" title={t.common.moveUp}>
+                <ArrowUp size={16} />
+              </button>
+              <button type="button" onClick={() => onChange(move(items, index, index + 1))} disabled={index === items.length - 1} className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30" title={t.common.moveDown}>
+                <ArrowDown size={16} />
+              </button>
+              <button type="button" onClick={() => onChange(items.filter((_, i) => i !== index))} className="p-1.5 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50" title={t.common.remove}>
+                <Trash2 size={16} />
+              </button>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {renderItem(item, (changes) => update(index, changes), index)}
+          </div>
+        </div>
+      ))}
+      <AddButton label={addLabel} onClick={() => onChange([...items, createItem()])} />
+    </div>
+  );
+}
+
+interface StringListEditorProps {
+  label?: string;
+  values: string[];
+  onChange: (values: string[]) => void;
+  addLabel: string;
+  placeholder?: string;
+  // Extra per-value actions rendered before the move / delete buttons
+  renderActions?: (index: number) => React.ReactNode;
+}
+
+// Compact editor for plain string lists (mentor key points, clues, word lists...)
+export const StringListEditor: React.FC<StringListEditorProps> = ({ label, values, onChange, addLabel, placeholder, renderActions }) => {
+  const { t } = useI18n();
+  return (
+    <div>
+      {label && <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-1">{label}</span>}
+      <div className="space-y-2">
+        {values.map((value, index) => (
+          <div key={index} className="flex gap-1 items-center">
+            <input
+              type="text"
+              className={inputClass}
+              value={value}
+              placeholder={placeholder}
+              dir="auto"
+              onChange={(e) => onChange(values.map((v, i) => (i === index ? e.target.value : v)))}
+            />
+            {renderActions?.(index)}
+            <button type="button" onClick={() => onChange(move(values, index, index - 1))} disabled={index === 0} className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 disabled:opacity-30" title={t.common.moveUp}>
+              <ArrowUp size={16} />
+            </button>
+            <button type="button" onClick={() => onChange(move(values, index, index + 1))} disabled={index === values.length - 1} className="p-1.5 rounded-lg text-gray-400 hover:text-indigo-600 disabled:opacity-30" title={t.common.moveDown}>
+              <ArrowDown size={16} />
+            </button>
+            <button type="button" onClick={() => onChange(values.filter((_, i) => i !== index))} className="p-1.5 rounded-lg text-gray-400 hover:text-red-600" title={t.common.remove}>
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button type="button" onClick={() => onChange([...values, ''])} className="text-sm font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1">
+          <Plus size={16} />
+          {addLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ChoiceEditorProps {
+  options: string[];
+  answer: string;
+  onChange: (options: string[], answer: string) => void;
+  // True/False style questions keep a fixed set of options
+  fixedOptions?: boolean;
+}
+
+// Answer options with a "this one is correct" marker. Renaming the correct option keeps it correct.
+export const ChoiceEditor: React.FC<ChoiceEditorProps> = ({ options, answer, onChange, fixedOptions }) => {
+  const { t } = useI18n();
+  return (
+    <div>
+      <span className="block text-xs font-bold uppercase tracking-wide text-gray-400 mb-1">{t.editor.options}</span>
+      <div className="space-y-2">
+        {options.map((option, index) => {
+          const isCorrect = option === answer;
+          return (
+            <div key={index} className="flex gap-2 items-center">
+              <button
+                type="button"
+                onClick={() => onChange(options, option)}
+                className={isCorrect ? 'text-emerald-600' : 'text-gray-300 hover:text-emerald-400'}
+                title={t.editor.markCorrect}
+              >
+                {isCorrect ? <CheckCircle size={22} /> : <Circle size={22} />}
+              </button>
+              {fixedOptions ? (
+                <span className="font-medium text-gray-700">{option}</span>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    className={inputClass}
+                    value={option}
+                    dir="auto"
+                    onChange={(e) => {
+                      const next = options.map((o, i) => (i === index ? e.target.value : o));
+                      onChange(next, isCorrect ? e.target.value : answer);
+                    }}
+                  />
+                  <button type="button" onClick={() => onChange(options.filter((_, i) => i !== index), isCorrect ? '' : answer)} className="p-1.5 rounded-lg text-gray-400 hover:text-red-600" title={t.editor.removeOption}>
+                    <Trash2 size={16} />
+                  </button>
+                </>
+              )}
+            </div>
+          );
+        })}
+        {!fixedOptions && (
+          <button type="button" onClick={() => onChange([...options, ''], answer)} className="text-sm font-bold text-indigo-500 hover:text-indigo-700 flex items-center gap-1">
+            <Plus size={16} />
+            {t.editor.addOption}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { GameData } from '../../types';
+import { Button } from '../Button';
+import { TextField, StringListEditor, RegenerateButton } from './EditorControls';
+import { ContentEditor } from './ContentEditors';
+import { validateAndRepairGame } from '../../services/gameValidator';
+import { ContentItem, replaceContentItem } from '../../services/gameItems';
+import { ArrowLeft, Save, AlertCircle, User } from 'lucide-react';
+import { useI18n } from '../../i18n';
+
+interface GameEditorProps {
+  data: GameData;
+  onSave: (data: GameData) => void;
+  onCancel: () => void;
+  // Writes a replacement for one content item. Not available when the game's source content is unknown.
+  onRegenerateItem?: (game: GameData, index: number) => Promise<ContentItem>;
+}
+
+export const GameEditor: React.FC<GameEditorProps> = ({ data, onSave, onCancel, onRegenerateItem }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<GameData>(data);
+  const [violations, setViolations] = useState<string[]>([]);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const [regenerateError, setRegenerateError] = useState<string | null>(null);
+
+  const handleChange = (next: GameData) => {
+    setDraft(next);
+    // Problems shown are for the last save attempt; clear them once the mentor starts fixing
+    if (violations.length > 0) setViolations([]);
+  };
+
+  const handleRegenerate = async (index: number) => {
+    if (!onRegenerateItem) return;
+    setRegeneratingIndex(index);
+    setRegenerateError(null);
+    try {
+      const item = await onRegenerateItem(draft, index);
+      // Splice into the latest draft, keeping edits made to other items while waiting
+      setDraft(current => replaceContentItem(current, index, item));
+    } catch (e: any) {
+      setRegenerateError(e.message || t.editor.regenerateFailed);
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  const itemActions = onRegenerateItem && ((index: number) => (
+    <RegenerateButton
+      onClick={() => handleRegenerate(index)}
+      busy={regeneratingIndex === index}
+      disabled={regeneratingIndex !== null}
+    />
+  ));
+
+  // Edited games go through the same checks (and safe repairs) as generated ones
+  const handleSave = () => {
+    const result = validateAndRepairGame(draft, draft.type);
+    if (result.violations.length > 0) {
+      setViolations(result.violations);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+      return;
+    }
+    onSave(result.data);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8 animate-fade-in-up">
+      <div className="flex items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-4">
+          <button onClick={onCancel} className="p-2 rounded-full hover:bg-slate-200 transition-colors" title={t.editor.discard}>
+            <ArrowLeft size={24} className="text-gray-600 rtl:rotate-180" />
+          </button>
+          <div>
+            <p className="text-xs font-bold uppercase tracking-wide text-gray-400">{t.editor.editing(t.gameTypes[data.type].label)}</p>
+            <h1 className="text-2xl md:text-3xl font-extrabold text-indigo-900">{draft.title || t.editor.untitled}</h1>
+          </div>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button onClick={onCancel} variant="ghost">{t.common.cancel}</Button>
+          <Button onClick={handleSave}>
+            <Save size={20} />
+            {t.common.save}
+          </Button>
+        </div>
+      </div>
+
+      {violations.length > 0 && (
+        <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-xl border border-red-200 flex items-start gap-3">
+          <AlertCircle className="shrink-0 mt-0.5" size={20} />
+          <div>
+            <p className="font-bold">{t.editor.fixProblems}</p>
+            <ul className="mt-2 text-sm list-disc ps-4 space-y-0.5">
+              {violations.map((v, i) => <li key={i}>{v}</li>)}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <section className="bg-white p-6 rounded-2xl border-2 border-slate-100 shadow-sm space-y-4 mb-8">
+        <TextField label={t.editor.title} value={draft.title} onChange={(title) => handleChange({ ...draft, title })} />
+        <TextField label={t.editor.instructions} value={draft.instructions} onChange={(instructions) => handleChange({ ...draft, instructions })} multiline />
+      </section>
+
+      <section className="mb-8">
+        <h2 className="text-xl font-bold text-indigo-900 mb-4">{t.editor.content}</h2>
+        {regenerateError && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-xl border border-red-200 flex items-start gap-2 text-sm">
+            <AlertCircle className="shrink-0 mt-0.5" size={16} />
+            <span>{regenerateError}</span>
+          </div>
+        )}
+        <ContentEditor game={draft} onChange={handleChange} itemActions={itemActions} />
+      </section>
+
+      <section className="bg-indigo-50 p-6 rounded-2xl border border-indigo-200 mb-8">
+        <div className="flex items-center gap-2 mb-4 text-indigo-800">
+          <User size={24} />
+          <h2 className="text-xl font-bold">{t.common.mentorsCorner}</h2>
+        </div>
+        <StringListEditor
+          values={draft.mentorKey}
+          onChange={(mentorKey) => handleChange({ ...draft, mentorKey })}
+          addLabel={t.editor.addDiscussionPoint}
+        />
+      </section>
+
+      <div className="flex justify-end gap-2">
+        <Button onClick={onCancel} variant="ghost">{t.common.cancel}</Button>
+        <Button onClick={handleSave}>
+          <Save size={20} />
+          {t.editor.saveChanges}
+        </Button>
+      </div>
+    </div>
+  );
+};
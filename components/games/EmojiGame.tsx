@@ -1,52 +1,63 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { GameData, EmojiChallengeItem } from '../../types';
 import { Button } from '../Button';
 import { CheckCircle, XCircle, RotateCcw, Lightbulb, Smile } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface EmojiGameProps {
+export interface EmojiState {
+  currentIdx: number;
+  showHint: boolean;
+  selectedOption: string | null;
+  isFinished: boolean;
+  score: number;
+}
+
+interface EmojiGameProps extends LiveGameProps<EmojiState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const EmojiGame: React.FC<EmojiGameProps> = ({ data, onReset }) => {
-  const [currentIdx, setCurrentIdx] = useState(0);
-  const [showHint, setShowHint] = useState(false);
-  const [selectedOption, setSelectedOption] = useState<string | null>(null);
-  const [isFinished, setIsFinished] = useState(false);
-  const [score, setScore] = useState(0);
+export const EmojiGame: React.FC<EmojiGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
+  const [{ currentIdx, showHint, selectedOption, isFinished, score }, setState] = useGameState<EmojiState>({
+    currentIdx: 0,
+    showHint: false,
+    selectedOption: null,
+    isFinished: false,
+    score: 0
+  }, live);
 
   const questions = data.emojiContent || [];
   const currentQ = questions[currentIdx];
 
   const handleGuess = (option: string) => {
     if (selectedOption) return;
-    setSelectedOption(option);
-    if (option === currentQ.answer) {
-      setScore(prev => prev + 1);
-    }
+    // The first answer to reach the session counts
+    setState(s => s.currentIdx !== currentIdx || s.selectedOption ? null : { selectedOption: option, score: option === currentQ.answer ? s.score + 1 : s.score });
+    onProgress?.({ type: option === currentQ.answer ? 'completed' : 'mistake', items: [String(currentIdx)] });
   };
 
   const handleNext = () => {
     if (currentIdx < questions.length - 1) {
-      setCurrentIdx(prev => prev + 1);
-      setSelectedOption(null);
-      setShowHint(false);
+      setState(s => s.currentIdx === currentIdx ? { currentIdx: currentIdx + 1, selectedOption: null, showHint: false } : null);
     } else {
-      setIsFinished(true);
+      setState({ isFinished: true });
+      onProgress?.({ type: 'finished' });
     }
   };
 
-  if (questions.length === 0) return <div>No emoji questions generated.</div>;
+  if (questions.length === 0) return <div>{t.emoji.none}</div>;
 
   if (isFinished) {
     return (
       <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto animate-fade-in-up">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">You're an Emoji Expert!</h2>
-        <p className="text-2xl text-gray-700 mb-8">Score: {score} / {questions.length}</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.emoji.expert}</h2>
+        <p className="text-2xl text-gray-700 mb-8">{t.emoji.finalScore(score, questions.length)}</p>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -56,8 +67,8 @@ export const EmojiGame: React.FC<EmojiGameProps> = ({ data, onReset }) => {
     <div className="max-w-2xl mx-auto">
       {/* HUD */}
       <div className="flex justify-between items-center mb-6 text-gray-400 font-bold uppercase tracking-widest text-sm">
-        <span>Question {currentIdx + 1}/{questions.length}</span>
-        <span>Score: {score}</span>
+        <span>{t.common.questionOf(currentIdx + 1, questions.length)}</span>
+        <span>{t.emoji.score(score)}</span>
       </div>
 
       {/* Card */}
@@ -72,14 +83,17 @@ export const EmojiGame: React.FC<EmojiGameProps> = ({ data, onReset }) => {
           <div className="mb-6">
              {showHint ? (
                <div className="bg-indigo-50 text-indigo-800 p-3 rounded-lg text-center animate-fade-in">
-                 <strong>Hint:</strong> {currentQ.hint}
+                 <strong>{t.emoji.hint}</strong> {currentQ.hint}
                </div>
              ) : (
                <button 
-                 onClick={() => setShowHint(true)}
+                 onClick={() => {
+                   setState({ showHint: true });
+                   onProgress?.({ type: 'hint' });
+                 }}
                  className="flex items-center justify-center gap-2 text-indigo-400 hover:text-indigo-600 w-full text-sm font-bold"
                >
-                 <Lightbulb size={16} /> Need a hint?
+                 <Lightbulb size={16} /> {t.common.needHint}
                </button>
              )}
           </div>
@@ -117,7 +131,7 @@ export const EmojiGame: React.FC<EmojiGameProps> = ({ data, onReset }) => {
       {selectedOption && (
         <div className="flex justify-center animate-fade-in-up">
           <Button onClick={handleNext} className="px-10 py-3 text-lg">
-            {currentIdx < questions.length - 1 ? "Next Emoji" : "Finish Game"}
+            {currentIdx < questions.length - 1 ? t.emoji.nextEmoji : t.common.finishGame}
           </Button>
         </div>
       )}
@@ -3,29 +3,39 @@ import React, { useState, useEffect } from 'react';
 import { GameData, FillBlankData } from '../../types';
 import { Button } from '../Button';
 import { CheckCircle, RotateCcw } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { gameRandom, shuffle } from '../../services/random';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface FillBlankGameProps {
+export interface FillBlankState {
+  // The word in each blank, or null while it's empty
+  answers: (string | null)[];
+  isComplete: boolean;
+}
+
+interface FillBlankGameProps extends LiveGameProps<FillBlankState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) => {
+export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
   const [segments, setSegments] = useState<string[]>([]);
   const [options, setOptions] = useState<{ id: string, word: string }[]>([]);
-  const [answers, setAnswers] = useState<(string | null)[]>([]); // Array matching blank slots
-  const [isComplete, setIsComplete] = useState(false);
+  const [{ answers, isComplete }, setState] = useGameState<FillBlankState>({
+    answers: new Array(data.fillBlankContent?.missingWords.length ?? 0).fill(null),
+    isComplete: false
+  }, live);
   const [feedback, setFeedback] = useState<boolean | null>(null);
 
   useEffect(() => {
     if (data.fillBlankContent) {
       const content = data.fillBlankContent;
       setSegments(content.storySegments);
-      // Initialize answers array (options length)
-      setAnswers(new Array(content.missingWords.length).fill(null));
       
       // Create shuffle options
       const words = content.missingWords.map((w, i) => ({ id: `word-${i}`, word: w }));
-      setOptions(words.sort(() => Math.random() - 0.5));
+      setOptions(shuffle(words, gameRandom(data, 'words')));
     }
   }, [data]);
 
@@ -38,26 +48,31 @@ export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) =
     const word = e.dataTransfer.getData("text/plain");
     
     // Update answers
-    const newAnswers = [...answers];
-    newAnswers[index] = word;
-    setAnswers(newAnswers);
+    setState(s => {
+      const newAnswers = [...s.answers];
+      newAnswers[index] = word;
+      return { answers: newAnswers };
+    });
     setFeedback(null); // Reset feedback on change
   };
 
   const handleOptionClick = (word: string) => {
     // Find first empty slot
-    const emptyIndex = answers.findIndex(a => a === null);
-    if (emptyIndex !== -1) {
-      const newAnswers = [...answers];
+    setState(s => {
+      const emptyIndex = s.answers.findIndex(a => a === null);
+      if (emptyIndex === -1) return null;
+      const newAnswers = [...s.answers];
       newAnswers[emptyIndex] = word;
-      setAnswers(newAnswers);
-    }
+      return { answers: newAnswers };
+    });
   };
 
   const removeAnswer = (index: number) => {
-    const newAnswers = [...answers];
-    newAnswers[index] = null;
-    setAnswers(newAnswers);
+    setState(s => {
+      const newAnswers = [...s.answers];
+      newAnswers[index] = null;
+      return { answers: newAnswers };
+    });
     setFeedback(null);
   };
 
@@ -68,14 +83,20 @@ export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) =
     const isCorrect = answers.every((ans, i) => ans === correctWords[i]);
     
     setFeedback(isCorrect);
-    if (isCorrect) setIsComplete(true);
+    if (isCorrect) setState(s => s.answers.every((ans, i) => ans === correctWords[i]) ? { isComplete: true } : null);
+
+    const blanks = answers.map((_, i) => String(i));
+    const right = blanks.filter((_, i) => answers[i] === correctWords[i]);
+    if (right.length) onProgress?.({ type: 'completed', items: right });
+    if (isCorrect) onProgress?.({ type: 'finished' });
+    else onProgress?.({ type: 'mistake', items: blanks.filter((_, i) => answers[i] !== correctWords[i]) });
   };
 
   if (isComplete) {
     return (
        <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto animate-bounce-in">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Story Complete!</h2>
-        <p className="text-xl text-gray-600 mb-8">You filled in all the blanks correctly.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.fillBlank.complete}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.fillBlank.completeBody}</p>
         
         {/* Read full story */}
         <div className="bg-indigo-50 p-6 rounded-xl text-lg leading-relaxed text-indigo-900 mb-8 border border-indigo-100">
@@ -93,7 +114,7 @@ export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) =
 
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -134,7 +155,7 @@ export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) =
 
       {/* Word Bank */}
       <div className="bg-slate-100 p-4 rounded-xl mb-6">
-        <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">Word Bank (Click or Drag)</p>
+        <p className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-3">{t.fillBlank.wordBank}</p>
         <div className="flex flex-wrap gap-3">
           {availableOptions.map((opt) => (
             <div
@@ -148,7 +169,7 @@ export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) =
             </div>
           ))}
           {availableOptions.length === 0 && (
-             <span className="text-gray-400 italic text-sm">All words used! Check your answers.</span>
+             <span className="text-gray-400 italic text-sm">{t.fillBlank.allUsed}</span>
           )}
         </div>
       </div>
@@ -159,11 +180,11 @@ export const FillBlankGame: React.FC<FillBlankGameProps> = ({ data, onReset }) =
           disabled={answers.includes(null)} 
           className="px-12 py-3"
         >
-          Check My Story
+          {t.fillBlank.check}
         </Button>
         
         {feedback === false && (
-          <p className="text-red-500 font-bold animate-pulse">Some words are in the wrong spot. Try again!</p>
+          <p className="text-red-500 font-bold animate-pulse">{t.fillBlank.wrong}</p>
         )}
       </div>
     </div>
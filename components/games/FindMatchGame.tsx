@@ -1,63 +1,66 @@
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { GameData } from '../../types';
 import { Button } from '../Button';
 import { RotateCcw, Eye } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { gameRandom, shuffle } from '../../services/random';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface FindMatchGameProps {
+export interface FindMatchState {
+  round: number;
+  score: number;
+}
+
+interface FindMatchGameProps extends LiveGameProps<FindMatchState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const FindMatchGame: React.FC<FindMatchGameProps> = ({ data, onReset }) => {
-  const [round, setRound] = useState(0);
-  const [cardA, setCardA] = useState<string[]>([]);
-  const [cardB, setCardB] = useState<string[]>([]);
-  const [targetMatch, setTargetMatch] = useState<string>("");
-  const [score, setScore] = useState(0);
-  const [items, setItems] = useState<string[]>([]);
-
-  // Setup initial items
-  useEffect(() => {
-    if (data.findMatchContent && data.findMatchContent.length > 0) {
-      setItems(data.findMatchContent);
-      generateRound(data.findMatchContent);
-    }
-  }, [data]);
+interface Round {
+  cardA: string[];
+  cardB: string[];
+  match: string;
+}
 
-  const generateRound = (sourceItems: string[]) => {
-    if (sourceItems.length < 5) return; // Need enough items
+// Each round is drawn from the game's seed and the round number, so round N is the same card pair on every device
+const dealRound = (data: GameData, round: number): Round | null => {
+  const sourceItems = data.findMatchContent || [];
+  if (sourceItems.length < 5) return null; // Need enough items
+  const random = gameRandom(data, `round-${round}`);
 
-    // 1. Pick a random item to be the "Match"
-    const match = sourceItems[Math.floor(Math.random() * sourceItems.length)];
-    setTargetMatch(match);
+  // 1. Pick a random item to be the "Match"
+  const match = sourceItems[Math.floor(random() * sourceItems.length)];
 
-    // 2. Filter out the match to get remaining pool
-    const pool = sourceItems.filter(i => i !== match);
-    
-    // 3. Shuffle pool
-    const shuffled = [...pool].sort(() => Math.random() - 0.5);
+  // 2. Filter out the match to get remaining pool
+  const pool = sourceItems.filter(i => i !== match);
 
-    // 4. Fill Card A with match + 3 randoms
-    const fillA = shuffled.slice(0, 3);
-    const setA = [match, ...fillA].sort(() => Math.random() - 0.5);
+  // 3. Shuffle pool
+  const shuffled = shuffle(pool, random);
 
-    // 5. Fill Card B with match + 3 DIFFERENT randoms
-    const fillB = shuffled.slice(3, 6);
-    const setB = [match, ...fillB].sort(() => Math.random() - 0.5);
+  // 4. Fill Card A with match + 3 randoms
+  const cardA = shuffle([match, ...shuffled.slice(0, 3)], random);
 
-    setCardA(setA);
-    setCardB(setB);
-  };
+  // 5. Fill Card B with match + 3 DIFFERENT randoms
+  const cardB = shuffle([match, ...shuffled.slice(3, 6)], random);
+
+  return { cardA, cardB, match };
+};
+
+export const FindMatchGame: React.FC<FindMatchGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
+  const [{ round, score }, setState] = useGameState<FindMatchState>({ round: 0, score: 0 }, live);
+  const { cardA, cardB, match: targetMatch } = dealRound(data, round) ?? { cardA: [], cardB: [], match: '' };
 
   const handleItemClick = (item: string) => {
     if (item === targetMatch) {
       // Correct!
-      setScore(prev => prev + 1);
-      setRound(prev => prev + 1);
-      generateRound(items);
+      // Only the first player to spot the match wins the round
+      setState(s => s.round === round ? { score: s.score + 1, round: round + 1 } : null);
+      onProgress?.({ type: 'completed', items: [String(round)] });
     } else {
       // Wrong - shake effect?
+      onProgress?.({ type: 'mistake' });
       const el = document.getElementById('game-container');
       el?.classList.add('shake');
       setTimeout(() => el?.classList.remove('shake'), 500);
@@ -67,9 +70,9 @@ export const FindMatchGame: React.FC<FindMatchGameProps> = ({ data, onReset }) =
   return (
     <div id="game-container" className="max-w-4xl mx-auto">
       <div className="text-center mb-8">
-        <h3 className="text-xl font-bold text-indigo-900">Find the one matching item!</h3>
+        <h3 className="text-xl font-bold text-indigo-900">{t.findMatch.title}</h3>
         <div className="inline-block bg-indigo-100 text-indigo-700 px-4 py-1 rounded-full mt-2 font-bold">
-           Score: {score}
+           {t.findMatch.score(score)}
         </div>
       </div>
 
@@ -83,7 +86,7 @@ export const FindMatchGame: React.FC<FindMatchGameProps> = ({ data, onReset }) =
            ))}
         </div>
 
-        <div className="text-indigo-300 font-bold text-2xl">VS</div>
+        <div className="text-indigo-300 font-bold text-2xl">{t.findMatch.versus}</div>
 
         {/* Card B (Interactive) */}
         <div className="w-64 h-64 bg-white rounded-full shadow-xl border-8 border-indigo-100 relative flex flex-wrap items-center justify-center p-8 content-center gap-4 animate-fade-in">
@@ -100,7 +103,7 @@ export const FindMatchGame: React.FC<FindMatchGameProps> = ({ data, onReset }) =
       </div>
       
       <div className="text-center mt-12">
-        <p className="text-gray-500 text-sm">Be quick! The items shuffle every time you find a match.</p>
+        <p className="text-gray-500 text-sm">{t.findMatch.tip}</p>
       </div>
     </div>
   );
@@ -2,25 +2,33 @@ import React, { useState, useEffect } from 'react';
 import { GameData, MatchingItem } from '../../types';
 import { Button } from '../Button';
 import { RotateCcw, Link } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { gameRandom, shuffle } from '../../services/random';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface MatchingGameProps {
+export interface MatchingState {
+  matchedIds: string[];
+}
+
+interface MatchingGameProps extends LiveGameProps<MatchingState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) => {
+export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
   const [items] = useState<MatchingItem[]>(data.matchingContent || []);
   const [leftItems, setLeftItems] = useState<MatchingItem[]>([]);
   const [rightItems, setRightItems] = useState<MatchingItem[]>([]);
   
   const [selectedLeft, setSelectedLeft] = useState<string | null>(null);
-  const [matchedIds, setMatchedIds] = useState<string[]>([]);
+  const [{ matchedIds }, setState] = useGameState<MatchingState>({ matchedIds: [] }, live);
   const [wrongAttempt, setWrongAttempt] = useState<string | null>(null);
 
   useEffect(() => {
     // Shuffle logic
-    const shuffledLeft = [...items].sort(() => Math.random() - 0.5);
-    const shuffledRight = [...items].sort(() => Math.random() - 0.5);
+    const shuffledLeft = shuffle(items, gameRandom(data, 'left'));
+    const shuffledRight = shuffle(items, gameRandom(data, 'right'));
     setLeftItems(shuffledLeft);
     setRightItems(shuffledRight);
   }, [items]);
@@ -36,11 +44,14 @@ export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) =>
 
     if (selectedLeft === id) {
       // Match found
-      setMatchedIds(prev => [...prev, id]);
+      setState(s => s.matchedIds.includes(id) ? null : { matchedIds: [...s.matchedIds, id] });
       setSelectedLeft(null);
+      onProgress?.({ type: 'completed', items: [id] });
+      if (matchedIds.length + 1 === items.length) onProgress?.({ type: 'finished' });
     } else {
       // Wrong match
       setWrongAttempt(id);
+      onProgress?.({ type: 'mistake', items: [selectedLeft] });
       setTimeout(() => {
         setWrongAttempt(null);
         setSelectedLeft(null);
@@ -51,11 +62,11 @@ export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) =>
   if (matchedIds.length === items.length && items.length > 0) {
     return (
       <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">All Matched!</h2>
-        <p className="text-xl text-gray-600 mb-8">Great job connecting the concepts.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.matching.allMatched}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.matching.allMatchedBody}</p>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -67,7 +78,7 @@ export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) =>
         
         {/* Left Column - Terms */}
         <div className="flex-1 space-y-4">
-          <h3 className="text-center text-lg font-bold text-indigo-400 mb-4 uppercase tracking-wider">Terms</h3>
+          <h3 className="text-center text-lg font-bold text-indigo-400 mb-4 uppercase tracking-wider">{t.matching.terms}</h3>
           {leftItems.map((item) => {
             const isMatched = matchedIds.includes(item.id);
             const isSelected = selectedLeft === item.id;
@@ -78,7 +89,7 @@ export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) =>
                 onClick={() => handleLeftClick(item.id)}
                 disabled={isMatched}
                 className={`
-                  w-full p-4 rounded-xl text-left transition-all font-medium border-2
+                  w-full p-4 rounded-xl text-start transition-all font-medium border-2
                   ${isMatched 
                     ? 'bg-emerald-100 border-emerald-400 text-emerald-800 opacity-60' 
                     : isSelected 
@@ -100,7 +111,7 @@ export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) =>
 
         {/* Right Column - Definitions */}
         <div className="flex-1 space-y-4">
-          <h3 className="text-center text-lg font-bold text-indigo-400 mb-4 uppercase tracking-wider">Definitions</h3>
+          <h3 className="text-center text-lg font-bold text-indigo-400 mb-4 uppercase tracking-wider">{t.matching.definitions}</h3>
           {rightItems.map((item) => {
              const isMatched = matchedIds.includes(item.id);
              const isWrong = wrongAttempt === item.id;
@@ -111,7 +122,7 @@ export const MatchingGame: React.FC<MatchingGameProps> = ({ data, onReset }) =>
                  onClick={() => handleRightClick(item.id)}
                  disabled={isMatched}
                  className={`
-                   w-full p-4 rounded-xl text-left transition-all text-sm md:text-base border-2
+                   w-full p-4 rounded-xl text-start transition-all text-sm md:text-base border-2
                    ${isMatched 
                      ? 'bg-emerald-100 border-emerald-400 text-emerald-800 opacity-60' 
                      : isWrong
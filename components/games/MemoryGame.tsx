@@ -2,8 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { GameData, MatchingItem } from '../../types';
 import { Button } from '../Button';
 import { RotateCcw } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { gameRandom, shuffle } from '../../services/random';
+import { LiveGameProps, useGameState } from './useGameState';
+
+export interface MemoryState {
+  // Item ids of the pairs found so far
+  matchedIds: string[];
+  // Cards turned face up while looking for a pair (at most two)
+  flipped: string[];
+}
 
-interface MemoryGameProps {
+interface MemoryGameProps extends LiveGameProps<MemoryState> {
   data: GameData;
   onReset: () => void;
 }
@@ -17,9 +27,10 @@ interface Card {
   isMatched: boolean;
 }
 
-export const MemoryGame: React.FC<MemoryGameProps> = ({ data, onReset }) => {
-  const [cards, setCards] = useState<Card[]>([]);
-  const [flippedIndices, setFlippedIndices] = useState<number[]>([]);
+export const MemoryGame: React.FC<MemoryGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
+  const [deck, setDeck] = useState<Card[]>([]);
+  const [{ matchedIds, flipped }, setState] = useGameState<MemoryState>({ matchedIds: [], flipped: [] }, live);
   const [isProcessing, setIsProcessing] = useState(false);
 
   useEffect(() => {
@@ -48,46 +59,43 @@ export const MemoryGame: React.FC<MemoryGameProps> = ({ data, onReset }) => {
     });
 
     // Shuffle
-    setCards(gameCards.sort(() => Math.random() - 0.5));
+    setDeck(shuffle(gameCards, gameRandom(data, 'cards')));
   }, [data]);
 
+  const cards = deck.map(card => ({
+    ...card,
+    isFlipped: flipped.includes(card.uniqueId),
+    isMatched: matchedIds.includes(card.itemId)
+  }));
+
   const handleCardClick = (index: number) => {
-    // Prevent clicking if processing (waiting for unflip), card already flipped, or already matched
-    if (isProcessing || cards[index].isFlipped || cards[index].isMatched) return;
+    // Prevent clicking if processing (waiting for unflip), two cards are already up, card already flipped, or already matched
+    if (isProcessing || flipped.length >= 2 || cards[index].isFlipped || cards[index].isMatched) return;
 
     // Flip the card
-    const newCards = [...cards];
-    newCards[index].isFlipped = true;
-    setCards(newCards);
-
-    const newFlippedIndices = [...flippedIndices, index];
-    setFlippedIndices(newFlippedIndices);
+    const uniqueId = cards[index].uniqueId;
+    const newFlipped = [...flipped, uniqueId];
+    // Another player may have turned up a card meanwhile; then this flip doesn't happen
+    setState(s => s.flipped.length >= 2 || s.flipped.includes(uniqueId) ? null : { flipped: [...s.flipped, uniqueId] });
 
     // Check for match
-    if (newFlippedIndices.length === 2) {
+    if (newFlipped.length === 2) {
       setIsProcessing(true);
-      const [firstIdx, secondIdx] = newFlippedIndices;
-      const card1 = cards[firstIdx];
-      const card2 = cards[secondIdx];
+      const [card1, card2] = newFlipped.map(id => cards.find(c => c.uniqueId === id)!);
 
       if (card1.itemId === card2.itemId) {
         // Match found!
         setTimeout(() => {
-          const matchedCards = [...newCards];
-          matchedCards[firstIdx].isMatched = true;
-          matchedCards[secondIdx].isMatched = true;
-          setCards(matchedCards);
-          setFlippedIndices([]);
+          setState(s => newFlipped.every(id => s.flipped.includes(id)) ? { matchedIds: [...s.matchedIds, card1.itemId], flipped: [] } : null);
           setIsProcessing(false);
+          onProgress?.({ type: 'completed', items: [card1.itemId] });
+          if (matchedIds.length + 1 === deck.length / 2) onProgress?.({ type: 'finished' });
         }, 500);
       } else {
         // No match, unflip after delay
+        onProgress?.({ type: 'mistake', items: [card1.itemId, card2.itemId] });
         setTimeout(() => {
-          const resetCards = [...newCards];
-          resetCards[firstIdx].isFlipped = false;
-          resetCards[secondIdx].isFlipped = false;
-          setCards(resetCards);
-          setFlippedIndices([]);
+          setState(s => newFlipped.every(id => s.flipped.includes(id)) ? { flipped: [] } : null);
           setIsProcessing(false);
         }, 1500);
       }
@@ -99,10 +107,10 @@ export const MemoryGame: React.FC<MemoryGameProps> = ({ data, onReset }) => {
   if (allMatched) {
     return (
       <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Memory Master!</h2>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.memory.master}</h2>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
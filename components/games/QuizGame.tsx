@@ -1,15 +1,22 @@
 
 import React, { useState } from 'react';
-import { GameData, QuizItem } from '../../types';
+import { GameData, GameType, QuizItem } from '../../types';
 import { Button } from '../Button';
+import { SourceQuote } from '../SourceCitations';
 import { CheckCircle, XCircle, ArrowRight, RotateCcw, Flame } from 'lucide-react';
+import { Messages, useI18n } from '../../i18n';
 
 interface QuizGameProps {
   data: GameData;
   onReset: () => void;
 }
 
+// True/False games keep "True" and "False" in their data; players see them in their own language
+export const optionLabel = (t: Messages, data: GameData, option: string): string =>
+  data.type === GameType.TRUE_FALSE && (option === 'True' || option === 'False') ? t.quiz.trueFalse[option] : option;
+
 export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
+  const { t } = useI18n();
   const [currentIdx, setCurrentIdx] = useState(0);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [score, setScore] = useState(0);
@@ -56,19 +63,19 @@ export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
         <div className="mb-6">
           <span className="text-6xl">🎉</span>
         </div>
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Mazel Tov!</h2>
-        <p className="text-2xl text-gray-700 mb-8">You scored {score} out of {questions.length}</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.quiz.mazelTov}</h2>
+        <p className="text-2xl text-gray-700 mb-8">{t.quiz.scored(score, questions.length)}</p>
         
         {maxStreak > 2 && (
           <div className="inline-block bg-orange-100 text-orange-600 px-6 py-3 rounded-full font-bold mb-8 animate-bounce">
-            🔥 Best Streak: {maxStreak} in a row!
+            {t.quiz.bestStreak(maxStreak)}
           </div>
         )}
 
         <div className="flex justify-center gap-4">
           <Button onClick={onReset} variant="outline">
             <RotateCcw className="w-5 h-5" />
-            Play Again
+            {t.common.playAgain}
           </Button>
         </div>
       </div>
@@ -80,7 +87,7 @@ export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
       {/* HUD */}
       <div className="mb-8">
         <div className="flex justify-between items-end mb-2 px-2">
-           <span className="font-bold text-gray-400 text-sm uppercase tracking-wider">Question {currentIdx + 1}/{questions.length}</span>
+           <span className="font-bold text-gray-400 text-sm uppercase tracking-wider">{t.common.questionOf(currentIdx + 1, questions.length)}</span>
            <div className={`flex items-center gap-1 font-bold ${streak > 1 ? 'text-orange-500' : 'text-gray-300'}`}>
              <Flame size={20} className={streak > 1 ? 'animate-pulse' : ''} />
              <span>{streak}</span>
@@ -96,7 +103,7 @@ export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
 
       <div className="bg-white p-6 md:p-10 rounded-3xl shadow-xl mb-6 relative overflow-hidden">
         {/* Decoration */}
-        <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-50 rounded-bl-full -mr-8 -mt-8 -z-0" />
+        <div className="absolute top-0 end-0 w-32 h-32 bg-indigo-50 rounded-es-full -me-8 -mt-8 -z-0" />
         
         <h3 className="relative z-10 text-2xl md:text-3xl font-extrabold text-gray-800 mb-8 leading-tight">
           {currentQuestion.question}
@@ -104,7 +111,7 @@ export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
         
         <div className="grid gap-4 relative z-10">
           {currentQuestion.options.map((option, idx) => {
-            let btnClass = "text-left text-lg md:text-xl font-medium transition-all transform duration-200 border-2";
+            let btnClass = "text-start text-lg md:text-xl font-medium transition-all transform duration-200 border-2";
             
             if (showResult) {
               if (option === currentQuestion.correctAnswer) {
@@ -126,7 +133,7 @@ export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
                 className={`w-full p-5 rounded-2xl ${btnClass}`}
               >
                 <div className="flex items-center justify-between">
-                  <span>{option}</span>
+                  <span>{optionLabel(t, data, option)}</span>
                   {showResult && option === currentQuestion.correctAnswer && <CheckCircle className="text-green-600 w-6 h-6" />}
                   {showResult && option === selectedOption && option !== currentQuestion.correctAnswer && <XCircle className="text-red-500 w-6 h-6" />}
                 </div>
@@ -142,16 +149,17 @@ export const QuizGame: React.FC<QuizGameProps> = ({ data, onReset }) => {
             <div className="mb-6 p-5 bg-blue-50 text-blue-900 rounded-2xl border border-blue-100 shadow-sm flex gap-3">
                 <span className="text-2xl">💡</span>
                 <div>
-                  <p className="font-bold mb-1">Did you know?</p>
+                  <p className="font-bold mb-1">{t.quiz.didYouKnow}</p>
                   <p>{currentQuestion.explanation}</p>
                 </div>
             </div>
           )}
+          <SourceQuote citation={currentQuestion} />
 
           <div className="flex justify-center">
             <Button onClick={handleNext} variant="primary" className="text-xl px-12 py-4 shadow-xl shadow-indigo-200 hover:shadow-indigo-300">
-              {currentIdx === questions.length - 1 ? "Finish Game" : "Next Question"}
-              <ArrowRight className="w-6 h-6 ml-2" />
+              {currentIdx === questions.length - 1 ? t.common.finishGame : t.common.nextQuestion}
+              <ArrowRight className="w-6 h-6 ms-2 rtl:rotate-180" />
             </Button>
           </div>
         </div>
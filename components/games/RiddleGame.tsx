@@ -1,63 +1,79 @@
 
-import React, { useState } from 'react';
+import React from 'react';
 import { GameData, RiddleItem } from '../../types';
 import { Button } from '../Button';
+import { SourceQuote } from '../SourceCitations';
 import { Eye, RotateCcw, HelpCircle } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface RiddleGameProps {
+export interface RiddleState {
+  currentRiddleIdx: number;
+  revealedClues: number;
+  showAnswer: boolean;
+  isFinished: boolean;
+}
+
+interface RiddleGameProps extends LiveGameProps<RiddleState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const RiddleGame: React.FC<RiddleGameProps> = ({ data, onReset }) => {
-  const [currentRiddleIdx, setCurrentRiddleIdx] = useState(0);
-  const [revealedClues, setRevealedClues] = useState(1);
-  const [showAnswer, setShowAnswer] = useState(false);
-  const [isFinished, setIsFinished] = useState(false);
+export const RiddleGame: React.FC<RiddleGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
+  const [{ currentRiddleIdx, revealedClues, showAnswer, isFinished }, setState] = useGameState<RiddleState>({
+    currentRiddleIdx: 0,
+    revealedClues: 1,
+    showAnswer: false,
+    isFinished: false
+  }, live);
 
   const riddles = data.riddleContent || [];
   const currentRiddle = riddles[currentRiddleIdx];
 
   const handleNextClue = () => {
     if (currentRiddle && revealedClues < currentRiddle.clues.length) {
-      setRevealedClues(prev => prev + 1);
+      // Ignored if another player has moved on to the next riddle meanwhile
+      setState(s => s.currentRiddleIdx === currentRiddleIdx ? { revealedClues: Math.min(s.revealedClues + 1, currentRiddle.clues.length) } : null);
+      onProgress?.({ type: 'hint' });
     }
   };
 
   const handleRevealAnswer = () => {
-    setShowAnswer(true);
+    setState({ showAnswer: true });
+    onProgress?.({ type: 'hint' });
   };
 
   const handleNextRiddle = () => {
+    onProgress?.({ type: 'completed', items: [String(currentRiddleIdx)] });
     if (currentRiddleIdx < riddles.length - 1) {
-      setCurrentRiddleIdx(prev => prev + 1);
-      setRevealedClues(1);
-      setShowAnswer(false);
+      setState(s => s.currentRiddleIdx === currentRiddleIdx ? { currentRiddleIdx: currentRiddleIdx + 1, revealedClues: 1, showAnswer: false } : null);
     } else {
-      setIsFinished(true);
+      setState({ isFinished: true });
+      onProgress?.({ type: 'finished' });
     }
   };
 
   if (isFinished) {
     return (
        <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto animate-fade-in-up">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Riddle Master!</h2>
-        <p className="text-xl text-gray-600 mb-8">You solved all the riddles.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.riddle.master}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.riddle.masterBody}</p>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
   }
 
-  if (!currentRiddle) return <div>No riddles found.</div>;
+  if (!currentRiddle) return <div>{t.riddle.none}</div>;
 
   return (
     <div className="max-w-2xl mx-auto">
       <div className="mb-4 text-center">
         <span className="bg-indigo-100 text-indigo-700 px-3 py-1 rounded-full text-xs font-bold uppercase">
-          Riddle {currentRiddleIdx + 1} of {riddles.length}
+          {t.riddle.riddleOf(currentRiddleIdx + 1, riddles.length)}
         </span>
       </div>
 
@@ -67,7 +83,7 @@ export const RiddleGame: React.FC<RiddleGameProps> = ({ data, onReset }) => {
           return (
             <div 
               key={idx} 
-              className="bg-white p-6 rounded-2xl shadow-md border-l-8 border-indigo-500 animate-fade-in flex items-start gap-4"
+              className="bg-white p-6 rounded-2xl shadow-md border-s-8 border-indigo-500 animate-fade-in flex items-start gap-4"
             >
               <div className="bg-indigo-100 text-indigo-600 rounded-full w-8 h-8 flex items-center justify-center font-bold shrink-0 mt-1">
                 {idx + 1}
@@ -87,11 +103,11 @@ export const RiddleGame: React.FC<RiddleGameProps> = ({ data, onReset }) => {
               variant="secondary"
             >
               <HelpCircle className="w-5 h-5" />
-              Need Another Clue
+              {t.riddle.anotherClue}
             </Button>
             <Button onClick={handleRevealAnswer} variant="primary">
               <Eye className="w-5 h-5" />
-              I Know It!
+              {t.riddle.iKnowIt}
             </Button>
           </div>
         )}
@@ -99,12 +115,13 @@ export const RiddleGame: React.FC<RiddleGameProps> = ({ data, onReset }) => {
         {showAnswer && (
           <div className="w-full animate-bounce-in">
              <div className="bg-emerald-50 border-2 border-emerald-200 p-8 rounded-2xl text-center mb-6">
-                <p className="text-gray-500 uppercase text-xs tracking-wider mb-2">The Answer Is</p>
+                <p className="text-gray-500 uppercase text-xs tracking-wider mb-2">{t.riddle.answerIs}</p>
                 <h3 className="text-3xl font-extrabold text-emerald-700">{currentRiddle.answer}</h3>
              </div>
+             <SourceQuote citation={currentRiddle} />
              <div className="flex justify-center">
                <Button onClick={handleNextRiddle} className="px-12">
-                 {currentRiddleIdx < riddles.length - 1 ? 'Next Riddle' : 'Finish Game'}
+                 {currentRiddleIdx < riddles.length - 1 ? t.riddle.nextRiddle : t.common.finishGame}
                </Button>
              </div>
           </div>
@@ -1,37 +1,45 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { GameData, SequenceItem } from '../../types';
 import { Button } from '../Button';
 import { ArrowDown, ArrowUp, CheckCircle, RotateCcw, HelpCircle } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { gameRandom, shuffle } from '../../services/random';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface SequenceGameProps {
+export interface SequenceState {
+  // Item ids in the order the player has put them
+  order: string[];
+  hasChecked: boolean;
+  isCorrect: boolean;
+}
+
+interface SequenceGameProps extends LiveGameProps<SequenceState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) => {
-  const [items, setItems] = useState<SequenceItem[]>([]);
-  const [isCorrect, setIsCorrect] = useState(false);
-  const [hasChecked, setHasChecked] = useState(false);
+export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
+  const content = data.sequenceContent || [];
+  // Items start shuffled
+  const [{ order, hasChecked, isCorrect }, setState] = useGameState<SequenceState>({
+    order: shuffle<SequenceItem>(content, gameRandom(data, 'items')).map(item => item.id),
+    hasChecked: false,
+    isCorrect: false
+  }, live);
   const [selectedId, setSelectedId] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (data.sequenceContent) {
-      // Shuffle items on load
-      const shuffled = [...data.sequenceContent].sort(() => Math.random() - 0.5);
-      setItems(shuffled);
-    }
-  }, [data]);
+  const items = order.map(id => content.find(item => item.id === id)).filter((item): item is SequenceItem => !!item);
 
   const handleSwap = (id1: string, id2: string) => {
-    const idx1 = items.findIndex(i => i.id === id1);
-    const idx2 = items.findIndex(i => i.id === id2);
-    
-    const newItems = [...items];
-    [newItems[idx1], newItems[idx2]] = [newItems[idx2], newItems[idx1]];
-    
-    setItems(newItems);
-    setHasChecked(false);
+    setState(s => {
+      const idx1 = s.order.indexOf(id1);
+      const idx2 = s.order.indexOf(id2);
+
+      const newOrder = [...s.order];
+      [newOrder[idx1], newOrder[idx2]] = [newOrder[idx2], newOrder[idx1]];
+      return { order: newOrder, hasChecked: false };
+    });
     setSelectedId(null);
   };
 
@@ -52,8 +60,15 @@ export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) =>
     // Check if sorted (assuming order is 1, 2, 3...)
     const isSorted = currentOrder.every((val, i, arr) => !i || (arr[i-1] <= val));
     
-    setIsCorrect(isSorted);
-    setHasChecked(true);
+    // The result only counts if nobody has moved an item since this check
+    setState(s => s.order.join() === order.join() ? { isCorrect: isSorted, hasChecked: true } : null);
+    if (isSorted) {
+      onProgress?.({ type: 'completed', items: order });
+      onProgress?.({ type: 'finished' });
+    } else {
+      const sortedOrder = [...currentOrder].sort((a, b) => a - b);
+      onProgress?.({ type: 'mistake', items: items.filter((item, i) => item.order !== sortedOrder[i]).map(item => item.id) });
+    }
   };
 
   if (isCorrect) {
@@ -62,13 +77,13 @@ export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) =>
         <div className="w-20 h-20 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto mb-6">
           <CheckCircle size={48} />
         </div>
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Story Solved!</h2>
-        <p className="text-xl text-gray-600 mb-8">You put everything in the perfect order.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.sequence.solved}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.sequence.solvedBody}</p>
         
         {/* Show the story read-through */}
-        <div className="text-left bg-indigo-50 p-6 rounded-xl mb-8 border border-indigo-100">
-           <h3 className="font-bold text-indigo-800 mb-4">The Full Story:</h3>
-           <ol className="list-decimal pl-5 space-y-2">
+        <div className="text-start bg-indigo-50 p-6 rounded-xl mb-8 border border-indigo-100">
+           <h3 className="font-bold text-indigo-800 mb-4">{t.sequence.fullStory}</h3>
+           <ol className="list-decimal ps-5 space-y-2">
              {items.map((item) => (
                <li key={item.id} className="text-indigo-900">{item.text}</li>
              ))}
@@ -77,7 +92,7 @@ export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) =>
 
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -89,7 +104,7 @@ export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) =>
         <div className="flex items-center gap-3">
           <HelpCircle className="text-indigo-500" />
           <p className="text-indigo-800 text-sm md:text-base font-medium">
-            Tap two cards to swap them until the story is in order!
+            {t.sequence.instructions}
           </p>
         </div>
       </div>
@@ -119,8 +134,8 @@ export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) =>
               <p className="font-medium text-lg leading-snug">{item.text}</p>
               
               {isSelected && (
-                <div className="absolute right-4 text-xs font-bold bg-white/20 px-2 py-1 rounded">
-                  SWAP
+                <div className="absolute end-4 text-xs font-bold bg-white/20 px-2 py-1 rounded">
+                  {t.sequence.swap}
                 </div>
               )}
             </div>
@@ -134,13 +149,13 @@ export const SequenceGame: React.FC<SequenceGameProps> = ({ data, onReset }) =>
           variant="primary" 
           className="px-12 py-4 text-lg shadow-xl shadow-indigo-200"
         >
-          Check Order
+          {t.sequence.check}
         </Button>
       </div>
       
       {hasChecked && !isCorrect && (
         <p className="text-center text-red-500 font-bold animate-pulse">
-          Not quite right yet. Keep trying!
+          {t.sequence.wrong}
         </p>
       )}
     </div>
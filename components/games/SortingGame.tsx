@@ -3,45 +3,52 @@ import React, { useState, useEffect } from 'react';
 import { GameData, SortingItem } from '../../types';
 import { Button } from '../Button';
 import { CheckCircle, RotateCcw } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { gameRandom, shuffle } from '../../services/random';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface SortingGameProps {
+export interface SortingState {
+  // Ids of the items already put in the right category
+  sortedIds: string[];
+}
+
+interface SortingGameProps extends LiveGameProps<SortingState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const SortingGame: React.FC<SortingGameProps> = ({ data, onReset }) => {
+export const SortingGame: React.FC<SortingGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
   const [items, setItems] = useState<SortingItem[]>([]);
-  const [currentItem, setCurrentItem] = useState<SortingItem | null>(null);
   const [categories, setCategories] = useState<string[]>([]);
-  const [completedItems, setCompletedItems] = useState<SortingItem[]>([]);
+  const [{ sortedIds }, setState] = useGameState<SortingState>({ sortedIds: [] }, live);
   const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null);
 
   useEffect(() => {
     if (data.sortingContent) {
       setCategories(data.sortingContent.categories);
-      const shuffled = [...data.sortingContent.items].sort(() => Math.random() - 0.5);
-      setItems(shuffled);
-      setCurrentItem(shuffled[0]);
+      setItems(shuffle(data.sortingContent.items, gameRandom(data, 'items')));
     }
   }, [data]);
 
+  // Items are dealt in their shuffled order; the next one is the first not yet sorted
+  const completedItems = items.filter(item => sortedIds.includes(item.id));
+  const currentItem = items.find(item => !sortedIds.includes(item.id)) ?? null;
+
   const handleSort = (category: string) => {
     if (!currentItem || feedback) return;
 
     if (currentItem.category === category) {
       setFeedback('correct');
+      onProgress?.({ type: 'completed', items: [currentItem.id] });
+      if (completedItems.length + 1 === items.length) onProgress?.({ type: 'finished' });
       setTimeout(() => {
-        setCompletedItems(prev => [...prev, currentItem]);
-        const nextIndex = items.indexOf(currentItem) + 1;
-        if (nextIndex < items.length) {
-          setCurrentItem(items[nextIndex]);
-        } else {
-          setCurrentItem(null); // Finished
-        }
+        setState(s => s.sortedIds.includes(currentItem.id) ? null : { sortedIds: [...s.sortedIds, currentItem.id] });
         setFeedback(null);
       }, 600);
     } else {
       setFeedback('wrong');
+      onProgress?.({ type: 'mistake', items: [currentItem.id] });
       setTimeout(() => setFeedback(null), 800);
     }
   };
@@ -49,11 +56,11 @@ export const SortingGame: React.FC<SortingGameProps> = ({ data, onReset }) => {
   if (!currentItem && items.length > 0) {
     return (
        <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto animate-fade-in-up">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Sorting Complete!</h2>
-        <p className="text-xl text-gray-600 mb-8">You categorized everything correctly.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.sorting.complete}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.sorting.completeBody}</p>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
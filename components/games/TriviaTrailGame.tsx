@@ -3,20 +3,33 @@ import React, { useState } from 'react';
 import { GameData, TriviaTrailItem } from '../../types';
 import { Button } from '../Button';
 import { Flag, Trophy, RotateCcw } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { LiveGameProps, useGameState } from './useGameState';
 
-interface TriviaTrailGameProps {
+export interface TriviaTrailState {
+  position: number; // 0 is start
+  // Whether the question at the current position is showing
+  questionOpen: boolean;
+  isFinished: boolean;
+}
+
+interface TriviaTrailGameProps extends LiveGameProps<TriviaTrailState> {
   data: GameData;
   onReset: () => void;
 }
 
-export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset }) => {
-  const [position, setPosition] = useState(0); // 0 is start
-  const [currentQuestion, setCurrentQuestion] = useState<TriviaTrailItem | null>(null);
+export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset, onProgress, ...live }) => {
+  const { t } = useI18n();
+  const [{ position, questionOpen, isFinished }, setState] = useGameState<TriviaTrailState>({
+    position: 0,
+    questionOpen: false,
+    isFinished: false
+  }, live);
   const [showResult, setShowResult] = useState<boolean | null>(null);
-  const [isFinished, setIsFinished] = useState(false);
 
   const questions = data.triviaTrailContent || [];
   const totalSteps = questions.length + 1; // +1 for start
+  const currentQuestion: TriviaTrailItem | null = questionOpen ? questions[position] ?? null : null;
 
   // Generate a simple S-shaped path visually
   // We won't map strictly to visual grid for simplicity, but use a linear progress logic
@@ -25,7 +38,7 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
     // In this simplified version, you just move forward 1 step per correct answer
     // Find next question
     if (position < questions.length) {
-      setCurrentQuestion(questions[position]);
+      setState({ questionOpen: true });
       setShowResult(null);
     }
   };
@@ -35,16 +48,15 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
     
     if (opt === currentQuestion.correctAnswer) {
       setShowResult(true);
+      onProgress?.({ type: 'completed', items: [String(position)] });
+      if (position + 1 >= questions.length) onProgress?.({ type: 'finished' });
       setTimeout(() => {
         const nextPos = position + 1;
-        setPosition(nextPos);
-        setCurrentQuestion(null);
-        if (nextPos >= questions.length) {
-          setIsFinished(true);
-        }
+        setState(s => s.position === position ? { position: nextPos, questionOpen: false, isFinished: nextPos >= questions.length } : null);
       }, 1000);
     } else {
       setShowResult(false);
+      onProgress?.({ type: 'mistake', items: [String(position)] });
     }
   };
 
@@ -52,11 +64,11 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
     return (
        <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto animate-fade-in-up">
         <Trophy className="w-24 h-24 text-yellow-400 mx-auto mb-6 animate-bounce" />
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">You Reached the End!</h2>
-        <p className="text-xl text-gray-600 mb-8">You conquered the Parsha path.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.trivia.reachedEnd}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.trivia.reachedEndBody}</p>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -68,8 +80,8 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
       {/* Path Visualizer */}
       <div className="mb-12 relative">
         <div className="flex justify-between items-center mb-4 px-2 font-bold text-gray-400 uppercase text-xs tracking-wider">
-           <span>Start</span>
-           <span>Finish</span>
+           <span>{t.trivia.start}</span>
+           <span>{t.trivia.finish}</span>
         </div>
         <div className="h-6 bg-slate-200 rounded-full w-full relative">
           <div 
@@ -78,8 +90,8 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
           />
           {/* Player Token */}
           <div 
-            className="absolute top-1/2 -translate-y-1/2 w-10 h-10 bg-white border-4 border-indigo-600 rounded-full shadow-lg flex items-center justify-center transition-all duration-700 ease-in-out z-10"
-            style={{ left: `${(position / questions.length) * 100}%`, transform: 'translate(-50%, -50%)' }}
+            className="absolute top-1/2 -translate-y-1/2 -ms-5 w-10 h-10 bg-white border-4 border-indigo-600 rounded-full shadow-lg flex items-center justify-center transition-all duration-700 ease-in-out z-10"
+            style={{ insetInlineStart: `${(position / questions.length) * 100}%` }}
           >
             <span className="text-lg">🏃</span>
           </div>
@@ -88,8 +100,8 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
           {questions.map((_, i) => (
              <div 
                key={i}
-               className={`absolute top-1/2 -translate-y-1/2 w-4 h-4 rounded-full border-2 border-white ${i < position ? 'bg-emerald-400' : 'bg-slate-300'}`}
-               style={{ left: `${((i + 1) / questions.length) * 100}%`, transform: 'translate(-50%, -50%)' }}
+               className={`absolute top-1/2 -translate-y-1/2 -ms-2 w-4 h-4 rounded-full border-2 border-white ${i < position ? 'bg-emerald-400' : 'bg-slate-300'}`}
+               style={{ insetInlineStart: `${((i + 1) / questions.length) * 100}%` }}
              />
           ))}
         </div>
@@ -100,10 +112,10 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
         {!currentQuestion ? (
           <div className="text-center">
              <p className="text-2xl font-bold text-indigo-900 mb-6">
-                {position === 0 ? "Ready to start the journey?" : "Great job! Keep moving!"}
+                {position === 0 ? t.trivia.ready : t.trivia.keepMoving}
              </p>
              <Button onClick={handleRoll} className="text-xl px-12 py-4 shadow-xl shadow-indigo-200">
-               {position === 0 ? "Start Game" : "Next Question"}
+               {position === 0 ? t.trivia.startGame : t.common.nextQuestion}
              </Button>
           </div>
         ) : (
@@ -116,7 +128,7 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
                   onClick={() => handleAnswer(opt)}
                   disabled={showResult === true}
                   className={`
-                    w-full p-4 rounded-xl text-left font-bold border-2 transition-all
+                    w-full p-4 rounded-xl text-start font-bold border-2 transition-all
                     ${showResult === true && opt === currentQuestion.correctAnswer 
                        ? 'bg-green-100 border-green-500 text-green-800'
                        : showResult === false 
@@ -131,7 +143,7 @@ export const TriviaTrailGame: React.FC<TriviaTrailGameProps> = ({ data, onReset
             </div>
             {showResult === false && (
                <div className="mt-4 text-center text-red-500 font-bold animate-pulse">
-                 Oops! Try again.
+                 {t.trivia.oops}
                </div>
             )}
           </div>
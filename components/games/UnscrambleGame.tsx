@@ -2,19 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { GameData, UnscrambleItem } from '../../types';
 import { Button } from '../Button';
 import { CheckCircle, RotateCcw, Lightbulb } from 'lucide-react';
-import isEqual from 'lodash.isequal';
+import { useI18n } from '../../i18n';
+import { gridLetters, sameLetters, toFinalForms, textDirection } from '../../services/hebrew';
+import { gameRandom, shuffle } from '../../services/random';
+import { StateUpdate, useGameState } from './useGameState';
+
+export interface UnscrambleState {
+  currentIndex: number;
+  completedCount: number;
+  currentGuess: string[];
+  availableLetters: { char: string, id: number }[];
+}
 
 interface UnscrambleGameProps {
   data: GameData;
   onReset: () => void;
   // Live Mode Props
-  externalState?: {
-    currentIndex: number;
-    completedCount: number;
-    currentGuess?: string[];
-    availableLetters?: { char: string, id: number }[];
-  };
-  onStateChange?: (newState: Partial<UnscrambleGameProps['externalState']>) => void;
+  externalState?: Partial<UnscrambleState>;
+  onStateChange?: (update: StateUpdate<UnscrambleState>) => void;
 }
 
 export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({ 
@@ -23,21 +28,16 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
   externalState,
   onStateChange
 }) => {
+  const { t } = useI18n();
   const [items, setItems] = useState<UnscrambleItem[]>([]);
   
-  // Local state for single player mode
-  const [localState, setLocalState] = useState({
+  // Uses external state if provided (live mode), otherwise local state
+  const [gameState, setState] = useGameState<UnscrambleState>({
     currentIndex: 0,
     completedCount: 0,
-    currentGuess: [] as string[],
-    availableLetters: [] as { char: string, id: number }[],
-  });
-  
-  // Use external state if provided (live mode), otherwise use local state
-  const gameState = externalState || localState;
-  const setState = onStateChange || ((newState) => {
-    setLocalState(prev => ({ ...prev, ...newState }));
-  });
+    currentGuess: [],
+    availableLetters: [],
+  }, { externalState, onStateChange });
 
   const [showHint, setShowHint] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
@@ -45,32 +45,21 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
   useEffect(() => {
     if (data.unscrambleContent && items.length === 0) {
       setItems(data.unscrambleContent);
-      setupLevel(data.unscrambleContent[0], 0);
+      // In live mode a board already in play is kept; only a fresh one is dealt
+      setupLevel(data.unscrambleContent[0], 0, true);
     }
   }, [data]);
-  
-  // Sync state if external state changes
-  useEffect(() => {
-    if (externalState && !isEqual(externalState, localState)) {
-      setLocalState(externalState);
-    }
-  }, [externalState]);
 
-  const setupLevel = (item: UnscrambleItem, index: number) => {
-    // Shuffle deterministically in live mode to avoid sync issues.
-    // In local mode, random is fine.
-    const letters = item.original.toUpperCase().split('').map((char, i) => ({
+  const setupLevel = (item: UnscrambleItem, index: number, onlyIfEmpty = false) => {
+    // The shuffle is seeded by the game and the word, so every device in live mode deals the same tiles.
+    // Hebrew tiles have no nikud and show final letters in their base form, so they don't give away the word's end.
+    const letters = shuffle(Array.from(gridLetters(item.original)).map((char, i) => ({
       char,
       id: i
-    }));
+    })), gameRandom(data, `word-${index}`));
 
-    if (!onStateChange) {
-      letters.sort(() => Math.random() - 0.5);
-    }
-    
-    setState({
+    setState(s => onlyIfEmpty && (s.availableLetters.length > 0 || s.currentGuess.length > 0) ? null : {
       currentIndex: index,
-      completedCount: gameState.completedCount,
       availableLetters: letters,
       currentGuess: [],
     });
@@ -79,30 +68,33 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
   };
 
   const handleLetterClick = (char: string, id: number) => {
-    const newGuess = [...gameState.currentGuess, char];
-    const newAvailable = gameState.availableLetters.filter(l => l.id !== id);
-    setState({ currentGuess: newGuess, availableLetters: newAvailable });
+    // Two players may grab the same tile; only the first gets it
+    setState(s => s.availableLetters.some(l => l.id === id) ? {
+      currentGuess: [...s.currentGuess, char],
+      availableLetters: s.availableLetters.filter(l => l.id !== id)
+    } : null);
   };
 
   const handleGuessClick = (index: number, char: string) => {
     const letterToReturn = gameState.currentGuess[index];
     const originalId = items[gameState.currentIndex].original.toUpperCase().split('').indexOf(letterToReturn, index);
     
-    const newAvailable = [...gameState.availableLetters, { char, id: Math.random() }];
-    const newGuess = gameState.currentGuess.filter((_, i) => i !== index);
-    setState({ currentGuess: newGuess, availableLetters: newAvailable });
+    setState(s => s.currentGuess[index] === char ? {
+      currentGuess: s.currentGuess.filter((_, i) => i !== index),
+      availableLetters: [...s.availableLetters, { char, id: Math.random() }]
+    } : null);
   };
 
   const checkAnswer = () => {
     const guessWord = gameState.currentGuess.join('');
-    if (guessWord === items[gameState.currentIndex].original.toUpperCase()) {
+    if (sameLetters(guessWord, items[gameState.currentIndex].original)) {
       setIsCorrect(true);
       // In live mode, state change will trigger for others. In local, we can do it here.
       if (!onStateChange) {
          setTimeout(nextLevel, 1000);
       }
     } else {
-      alert("Not quite right. Try again!");
+      alert(t.unscramble.notQuite);
     }
   };
 
@@ -122,11 +114,11 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
   if (gameState.completedCount === items.length && items.length > 0) {
      return (
        <div className="text-center p-8 bg-white rounded-3xl shadow-xl max-w-2xl mx-auto animate-fade-in-up">
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">Vocabulary Master!</h2>
-        <p className="text-xl text-gray-600 mb-8">You unscrambled all the words.</p>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.unscramble.master}</h2>
+        <p className="text-xl text-gray-600 mb-8">{t.unscramble.masterBody}</p>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -135,19 +127,25 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
   const currentItem = items[gameState.currentIndex];
   if (!currentItem) return null;
 
+  const direction = textDirection(currentItem.original);
+  // Once every tile is placed, a Hebrew guess is shown with its final letters written as such
+  const guessLetters = gameState.availableLetters.length === 0
+    ? Array.from(toFinalForms(gameState.currentGuess.join('')))
+    : gameState.currentGuess;
+
   return (
     <div className="max-w-2xl mx-auto text-center">
       
       {/* Progress */}
       <div className="mb-8 text-gray-400 font-bold uppercase tracking-widest text-sm">
-        Word {gameState.currentIndex + 1} of {items.length}
+        {t.unscramble.wordOf(gameState.currentIndex + 1, items.length)}
       </div>
 
       {/* Hint Button */}
       <div className="mb-8 min-h-[60px]">
         {showHint ? (
           <div className="bg-amber-100 text-amber-800 p-4 rounded-xl inline-block animate-fade-in">
-            💡 Hint: {currentItem.hint}
+            {t.unscramble.hint} {currentItem.hint}
           </div>
         ) : (
           <button 
@@ -155,23 +153,23 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
             className="text-amber-500 font-bold hover:text-amber-600 flex items-center gap-2 mx-auto"
           >
             <Lightbulb size={20} />
-            Need a hint?
+            {t.common.needHint}
           </button>
         )}
       </div>
 
       {/* Guess Area (Slots) */}
-      <div className="bg-white rounded-2xl shadow-lg p-6 min-h-[150px] flex items-center justify-center flex-wrap gap-3 border-4 border-slate-200">
-        {gameState.currentGuess.map((char, i) => (
-          <button key={i} onClick={() => handleGuessClick(i, char)} className="w-12 h-16 bg-indigo-500 text-white font-bold text-2xl rounded-lg shadow-md flex items-center justify-center">
+      <div className="bg-white rounded-2xl shadow-lg p-6 min-h-[150px] flex items-center justify-center flex-wrap gap-3 border-4 border-slate-200" dir={direction}>
+        {guessLetters.map((char, i) => (
+          <button key={i} onClick={() => handleGuessClick(i, gameState.currentGuess[i])} className="w-12 h-16 bg-indigo-500 text-white font-bold text-2xl rounded-lg shadow-md flex items-center justify-center">
             {char}
           </button>
         ))}
-        {gameState.currentGuess.length === 0 && <span className="text-gray-400">Click letters below</span>}
+        {gameState.currentGuess.length === 0 && <span className="text-gray-400">{t.unscramble.clickLetters}</span>}
       </div>
 
       {/* Available Letters */}
-      <div className="mt-8 p-4 min-h-[100px] flex items-center justify-center flex-wrap gap-3">
+      <div className="mt-8 p-4 min-h-[100px] flex items-center justify-center flex-wrap gap-3" dir={direction}>
         {gameState.availableLetters.map(({char, id}) => (
           <button key={id} onClick={() => handleLetterClick(char, id)} className="w-12 h-16 bg-slate-200 text-slate-800 font-bold text-2xl rounded-lg shadow-sm flex items-center justify-center hover:bg-slate-300 transition-transform hover:scale-110">
             {char}
@@ -183,10 +181,10 @@ export const UnscrambleGame: React.FC<UnscrambleGameProps> = ({
       <div className="mt-8">
         {isCorrect ? (
           <Button onClick={onStateChange ? () => {} : nextLevel} disabled={!!onStateChange} className="bg-green-500 hover:bg-green-600">
-            Correct! Waiting for host... <CheckCircle className="ml-2" />
+            {t.unscramble.correctWaiting} <CheckCircle className="ms-2" />
           </Button>
         ) : (
-          <Button onClick={checkAnswer}>Check Answer</Button>
+          <Button onClick={checkAnswer}>{t.unscramble.check}</Button>
         )}
       </div>
     </div>
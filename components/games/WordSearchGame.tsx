@@ -1,8 +1,11 @@
-
 import React, { useState, useEffect, useRef } from 'react';
-import { GameData } from '../../types';
+import { Difficulty, GameData } from '../../types';
 import { Button } from '../Button';
 import { CheckCircle, RotateCcw } from 'lucide-react';
+import { useI18n } from '../../i18n';
+import { stripNikud, sameLetters, textDirection } from '../../services/hebrew';
+import { gameRandom } from '../../services/random';
+import { GridPoint, findWordCells, layoutWordSearch, lineBetween } from '../../services/wordSearchLayout';
 
 interface WordSearchGameProps {
   data: GameData;
@@ -13,7 +16,35 @@ interface WordSearchGameProps {
   onWordFound?: (word: string) => void;
 }
 
-const GRID_SIZE = 12;
+interface SearchWord {
+  word: string;
+  found: boolean;
+  // Where the word was found, for its highlight
+  cells?: GridPoint[];
+}
+
+const LEVELS: Difficulty[] = ['easy', 'medium', 'hard'];
+
+// Each found word keeps its own color, in the grid and in the word list
+const FOUND_COLORS = [
+  { cell: 'bg-rose-300 text-rose-900', word: 'bg-rose-100 border-rose-400 text-rose-800' },
+  { cell: 'bg-amber-300 text-amber-900', word: 'bg-amber-100 border-amber-400 text-amber-800' },
+  { cell: 'bg-emerald-300 text-emerald-900', word: 'bg-emerald-100 border-emerald-400 text-emerald-800' },
+  { cell: 'bg-sky-300 text-sky-900', word: 'bg-sky-100 border-sky-400 text-sky-800' },
+  { cell: 'bg-violet-300 text-violet-900', word: 'bg-violet-100 border-violet-400 text-violet-800' },
+  { cell: 'bg-lime-300 text-lime-900', word: 'bg-lime-100 border-lime-400 text-lime-800' },
+  { cell: 'bg-pink-300 text-pink-900', word: 'bg-pink-100 border-pink-400 text-pink-800' },
+  { cell: 'bg-teal-300 text-teal-900', word: 'bg-teal-100 border-teal-400 text-teal-800' },
+  { cell: 'bg-orange-300 text-orange-900', word: 'bg-orange-100 border-orange-400 text-orange-800' },
+  { cell: 'bg-cyan-300 text-cyan-900', word: 'bg-cyan-100 border-cyan-400 text-cyan-800' },
+];
+
+// The grid cell under a pointer, read from the cell's data attributes
+const cellAt = (x: number, y: number): GridPoint | null => {
+  const element = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-cell]');
+  if (!element) return null;
+  return { r: Number(element.dataset.r), c: Number(element.dataset.c) };
+};
 
 export const WordSearchGame: React.FC<WordSearchGameProps> = ({ 
   data, 
@@ -23,31 +54,36 @@ export const WordSearchGame: React.FC<WordSearchGameProps> = ({
   onGridGenerated,
   onWordFound
 }) => {
+  const { t } = useI18n();
   const [grid, setGrid] = useState<string[][]>([]);
-  const [words, setWords] = useState<{ word: string; found: boolean }[]>([]);
-  const [selection, setSelection] = useState<{ r: number; c: number }[]>([]);
+  const [words, setWords] = useState<SearchWord[]>([]);
+  const [selection, setSelection] = useState<GridPoint[]>([]);
   const [isSelecting, setIsSelecting] = useState(false);
-  const startRef = useRef<{ r: number; c: number } | null>(null);
+  const [level, setLevel] = useState<Difficulty>(data.difficulty ?? 'medium');
+  const startRef = useRef<GridPoint | null>(null);
+  // In live mode the host's grid is shared, so the level can't be changed mid-game
+  const isLive = !!(externalGrid || onGridGenerated);
 
   useEffect(() => {
     if (data.wordSearchContent) {
-      const wordList = data.wordSearchContent.map(w => ({ 
-        word: w.toUpperCase(), 
-        found: externalFoundWords ? externalFoundWords.includes(w.toUpperCase()) : false 
+      // Hebrew words keep their final letters in the grid, but lose any nikud
+      const wordList = data.wordSearchContent.map(w => stripNikud(w).toUpperCase()).map(word => ({ 
+        word, 
+        found: externalFoundWords ? externalFoundWords.includes(word) : false 
       }));
       setWords(wordList);
 
       if (externalGrid) {
         setGrid(externalGrid);
       } else {
-        const newGrid = generateGrid(wordList.map(w => w.word));
+        const { grid: newGrid } = layoutWordSearch(wordList.map(w => w.word), level, gameRandom(data, 'grid'));
         setGrid(newGrid);
         if (onGridGenerated) {
           onGridGenerated(newGrid);
         }
       }
     }
-  }, [data, externalGrid]);
+  }, [data, externalGrid, level]);
 
   useEffect(() => {
     if (externalFoundWords) {
@@ -58,106 +94,58 @@ export const WordSearchGame: React.FC<WordSearchGameProps> = ({
     }
   }, [externalFoundWords]);
 
-  const generateGrid = (wordList: string[]): string[][] => {
-    const newGrid = Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(''));
-    for (const word of wordList) {
-      let placed = false;
-      let attempts = 0;
-      while (!placed && attempts < 100) {
-        const direction = Math.random() > 0.5 ? 'H' : 'V';
-        const r = Math.floor(Math.random() * GRID_SIZE);
-        const c = Math.floor(Math.random() * GRID_SIZE);
-        if (canPlace(newGrid, word, r, c, direction)) {
-          placeWord(newGrid, word, r, c, direction);
-          placed = true;
-        }
-        attempts++;
-      }
-    }
-    const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
-    for (let r = 0; r < GRID_SIZE; r++) {
-      for (let c = 0; c < GRID_SIZE; c++) {
-        if (newGrid[r][c] === '') {
-          newGrid[r][c] = alphabet[Math.floor(Math.random() * alphabet.length)];
-        }
-      }
-    }
-    return newGrid;
-  };
-
-  const canPlace = (grid: string[][], word: string, r: number, c: number, d: 'H' | 'V') => {
-    if (d === 'H') {
-      if (c + word.length > GRID_SIZE) return false;
-      for (let i = 0; i < word.length; i++) {
-        if (grid[r][c + i] !== '' && grid[r][c + i] !== word[i]) return false;
-      }
-    } else {
-      if (r + word.length > GRID_SIZE) return false;
-      for (let i = 0; i < word.length; i++) {
-        if (grid[r + i][c] !== '' && grid[r + i][c] !== word[i]) return false;
-      }
-    }
-    return true;
-  };
-
-  const placeWord = (grid: string[][], word: string, r: number, c: number, d: 'H' | 'V') => {
-    for (let i = 0; i < word.length; i++) {
-      if (d === 'H') grid[r][c + i] = word[i];
-      else grid[r + i][c] = word[i];
-    }
-  };
-
-  const getLineCells = (start: { r: number; c: number }, end: { r: number; c: number }) => {
-    const cells: { r: number; c: number }[] = [];
-    const dr = end.r - start.r;
-    const dc = end.c - start.c;
-    const steps = Math.max(Math.abs(dr), Math.abs(dc));
-    if (steps === 0) return [{ r: start.r, c: start.c }];
-    if (start.r !== end.r && start.c !== end.c && Math.abs(dr) !== Math.abs(dc)) return [];
-    const rStep = dr / steps;
-    const cStep = dc / steps;
-    for (let i = 0; i <= steps; i++) {
-      cells.push({ r: start.r + i * rStep, c: start.c + i * cStep });
+  // Words found on another device are highlighted where they sit in the grid
+  useEffect(() => {
+    if (grid.length > 0 && words.some(w => w.found && !w.cells)) {
+      setWords(prev => prev.map(w => (w.found && !w.cells ? { ...w, cells: findWordCells(grid, w.word) ?? [] } : w)));
     }
-    return cells;
-  };
+  }, [grid, words]);
 
-  const handleMouseDown = (r: number, c: number) => {
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const cell = cellAt(e.clientX, e.clientY);
+    if (!cell) return;
+    // Keeps the drag's events coming here even when the finger or mouse leaves the grid
+    e.currentTarget.setPointerCapture(e.pointerId);
     setIsSelecting(true);
-    startRef.current = { r, c };
-    setSelection([{ r, c }]);
+    startRef.current = cell;
+    setSelection([cell]);
   };
 
-  const handleMouseEnter = (r: number, c: number) => {
-    if (isSelecting && startRef.current) {
-      setSelection(getLineCells(startRef.current, { r, c }));
-    }
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isSelecting || !startRef.current) return;
+    const cell = cellAt(e.clientX, e.clientY);
+    if (cell) setSelection(lineBetween(startRef.current, cell, grid.length));
   };
 
-  const handleMouseUp = () => {
-    if (isSelecting && selection.length > 0) {
-      const selectedWord = selection.map(pos => grid[pos.r][pos.c]).join('');
-      checkWord(selectedWord);
-      checkWord(selectedWord.split('').reverse().join(''));
+  const handlePointerUp = () => {
+    if (isSelecting && selection.length > 1) {
+      checkWord(selection);
     }
     setIsSelecting(false);
     setSelection([]);
     startRef.current = null;
   };
 
-  const checkWord = (selectedWord: string) => {
-    const foundIdx = words.findIndex(w => w.word === selectedWord && !w.found);
+  // A word counts when dragged from either end
+  const checkWord = (cells: GridPoint[]) => {
+    const selectedWord = cells.map(pos => grid[pos.r][pos.c]).join('');
+    const reversed = Array.from(selectedWord).reverse().join('');
+    const foundIdx = words.findIndex(w => !w.found && (sameLetters(w.word, selectedWord) || sameLetters(w.word, reversed)));
     if (foundIdx >= 0) {
-      const newWords = [...words];
-      newWords[foundIdx].found = true;
-      setWords(newWords);
+      setWords(prev => prev.map((w, i) => (i === foundIdx ? { ...w, found: true, cells } : w)));
       if (onWordFound) {
         onWordFound(words[foundIdx].word);
       }
     }
   };
 
+  // The color of each highlighted cell; a later word wins where two found words cross
+  const cellColors = new Map<string, string>();
+  words.forEach((w, idx) => w.found && w.cells?.forEach(({ r, c }) => cellColors.set(`${r}-${c}`, FOUND_COLORS[idx % FOUND_COLORS.length].cell)));
+
   const allFound = words.length > 0 && words.every(w => w.found);
+  // Hebrew grids run right to left, so words placed "forwards" read the right way
+  const direction = textDirection(...words.map(w => w.word));
 
   if (allFound) {
     return (
@@ -165,10 +153,10 @@ export const WordSearchGame: React.FC<WordSearchGameProps> = ({
         <div className="w-20 h-20 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto mb-6">
           <CheckCircle size={48} />
         </div>
-        <h2 className="text-4xl font-bold text-indigo-600 mb-4">You found them all!</h2>
+        <h2 className="text-4xl font-bold text-indigo-600 mb-4">{t.wordSearch.allFound}</h2>
         <Button onClick={onReset} variant="outline">
           <RotateCcw className="w-5 h-5" />
-          Play Again
+          {t.common.playAgain}
         </Button>
       </div>
     );
@@ -176,24 +164,47 @@ export const WordSearchGame: React.FC<WordSearchGameProps> = ({
 
   return (
     <div className="flex flex-col gap-4">
-      <div className="max-w-4xl mx-auto flex flex-col md:flex-row gap-8" onMouseUp={handleMouseUp}>
+      <div className="max-w-4xl mx-auto w-full flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-600">{t.wordSearch.directions[level]}</p>
+        {!isLive && (
+          <div className="flex gap-1 bg-slate-100 p-1 rounded-lg print:hidden" role="group" aria-label={t.options.difficulty}>
+            {LEVELS.map(value => (
+              <button
+                key={value}
+                onClick={() => setLevel(value)}
+                className={`px-3 py-1 rounded-md text-sm font-bold transition-colors ${level === value ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t.options.difficulties[value]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="max-w-4xl mx-auto w-full flex flex-col md:flex-row gap-8">
         {/* Grid */}
         <div className="flex-1 bg-white p-4 rounded-xl shadow-lg border border-indigo-100 select-none touch-none print:shadow-none print:border-2 print:border-black">
           <div 
             className="grid gap-1"
-            style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, minmax(0, 1fr))` }}
+            dir={direction}
+            style={{ gridTemplateColumns: `repeat(${grid.length}, minmax(0, 1fr))` }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
           >
             {grid.map((row, r) => (
               row.map((cell, c) => {
                 const isSelected = selection.some(s => s.r === r && s.c === c);
+                const foundColor = cellColors.get(`${r}-${c}`);
                 return (
                   <div
                     key={`${r}-${c}`}
-                    onMouseDown={() => handleMouseDown(r, c)}
-                    onMouseEnter={() => handleMouseEnter(r, c)}
+                    data-cell
+                    data-r={r}
+                    data-c={c}
                     className={`
-                      aspect-square flex items-center justify-center font-bold text-sm md:text-lg rounded-md cursor-pointer transition-colors
-                      ${isSelected ? 'bg-indigo-500 text-white print:bg-transparent print:text-black print:border print:border-black' : 'bg-slate-50 text-slate-700 hover:bg-indigo-50 print:bg-transparent'}
+                      aspect-square flex items-center justify-center font-bold ${grid.length > 14 ? 'text-xs md:text-base' : 'text-sm md:text-lg'} rounded-md cursor-pointer transition-colors
+                      ${isSelected ? 'bg-indigo-500 text-white print:bg-transparent print:text-black print:border print:border-black' : `${foundColor ?? 'bg-slate-50 text-slate-700 hover:bg-indigo-50'} print:bg-transparent print:text-black`}
                     `}
                   >
                     {cell}
@@ -206,15 +217,15 @@ export const WordSearchGame: React.FC<WordSearchGameProps> = ({
 
         {/* Word List */}
         <div className="w-full md:w-64 print:w-auto print:mt-4">
-          <h3 className="text-xl font-bold text-indigo-900 mb-4 print:text-black">Find these words:</h3>
-          <div className="flex flex-wrap md:flex-col gap-2 print:grid print:grid-cols-4 print:gap-4">
+          <h3 className="text-xl font-bold text-indigo-900 mb-4 print:text-black">{t.wordSearch.findWords}</h3>
+          <div className="flex flex-wrap md:flex-col gap-2 print:grid print:grid-cols-4 print:gap-4" dir={direction}>
             {words.map((w, idx) => (
               <div 
                 key={idx}
                 className={`
                   px-4 py-2 rounded-lg font-medium border-2 transition-all print:border-black print:bg-transparent
                   ${w.found 
-                    ? 'bg-green-100 border-green-400 text-green-800 line-through opacity-60 print:no-underline print:text-black print:opacity-100' 
+                    ? `${FOUND_COLORS[idx % FOUND_COLORS.length].word} line-through print:no-underline print:text-black` 
                     : 'bg-white border-slate-200 text-slate-700'}
                 `}
               >
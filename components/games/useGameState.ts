@@ -0,0 +1,49 @@
+import { useState } from 'react';
+import { ProgressEvent } from '../../services/liveProgress';
+
+/**
+ * A change to a game's progress: the fields to set, or an updater that works them out from the
+ * current state. Changes that depend on the state (adding to a list, moving on from a question)
+ * use an updater, so in live play they apply to the latest state in the session rather than to
+ * what this device last saw. An updater returns null to change nothing.
+ */
+export type StateUpdate<S> = Partial<S> | ((state: S) => Partial<S> | null);
+
+/**
+ * Live Mode props shared by the games: the game's progress comes from the session instead of the
+ * component, and every change is reported back rather than applied locally. Without them the
+ * game keeps its own progress, as in solo play.
+ */
+export interface LiveGameProps<S> {
+  externalState?: Partial<S>;
+  onStateChange?: (update: StateUpdate<S>) => void;
+  // Reports the player's own progress to the host (competitive sessions only)
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+/**
+ * A game's progress, controlled by the live session when `externalState` is given. Fields the
+ * session hasn't written yet fall back to `initial`, so every device starts from the same state.
+ * Only progress belongs here; passing selections and animations stay in the component.
+ */
+export const useGameState = <S extends object>(
+  initial: S,
+  { externalState, onStateChange }: LiveGameProps<S>
+): [S, (update: StateUpdate<S>) => void] => {
+  const [localState, setLocalState] = useState<S>(initial);
+  const state = externalState ? { ...initial, ...externalState } : localState;
+
+  const setState = (update: StateUpdate<S>) => {
+    if (onStateChange) {
+      // The session's copy may be missing fields nobody has written yet
+      onStateChange(typeof update === 'function' ? current => update({ ...initial, ...current }) : update);
+    } else {
+      setLocalState(prev => {
+        const updates = typeof update === 'function' ? update(prev) : update;
+        return updates ? { ...prev, ...updates } : prev;
+      });
+    }
+  };
+
+  return [state, setState];
+};
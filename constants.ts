@@ -1,8 +1,16 @@
+import { GenerationOptions } from "./types";
 
 export const APP_TITLE = "MyShliach Game Gen";
 export const APP_VERSION = "1.1.0 (Compressed)";
 export const GEMINI_MODEL = "gemini-3-flash-preview";
 
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  ageBand: '8-12',
+  difficulty: 'medium',
+  language: 'en',
+  hebrewTerms: 'transliterate',
+};
+
 export const COLORS = {
   primary: "bg-indigo-600 hover:bg-indigo-700 text-white",
   secondary: "bg-amber-400 hover:bg-amber-500 text-indigo-900",
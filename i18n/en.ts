@@ -0,0 +1,492 @@
+import { GameType } from "../types";
+
+/**
+ * English UI copy. The Hebrew and Yiddish catalogs must provide every message defined here
+ * (see `Messages`); messages that take values are functions.
+ */
+
+const plural = (count: number, one: string, other: string) => `${count} ${count === 1 ? one : other}`;
+
+export const en = {
+  common: {
+    back: "Back",
+    cancel: "Cancel",
+    save: "Save",
+    remove: "Remove",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    tryAgain: "Try Again",
+    playAgain: "Play Again",
+    finishGame: "Finish Game",
+    nextQuestion: "Next Question",
+    needHint: "Need a hint?",
+    loading: "Loading...",
+    mentorsCorner: "Mentor's Corner",
+    questionOf: (number: number, total: number) => `Question ${number}/${total}`,
+  },
+
+  locale: {
+    label: "Language",
+  },
+
+  app: {
+    keyTitle: "Setup API Key",
+    keyBody: "The application needs a valid, billing-enabled API key from your Google Cloud project to continue.",
+    selectKey: "Select My API Key",
+    billingDocs: "Billing Documentation",
+    myLibrary: "My Library",
+    designing: "Designing your activity...",
+    designingPack: "Designing your activity pack...",
+    studying: "Studying the Koivetz content...",
+    footer: (year: number) => `© ${year} MyShliach Mentor Program`,
+    sharedLink: "Shared link",
+    loadSharedFailed: "Failed to load shared game.",
+    invalidLink: "Invalid shared link.",
+    generateFailed: "Failed to generate game.",
+    packFailed: (reason: string) => `None of the activities in the pack could be generated. ${reason}`,
+    liveFailed: "Failed to start live session.",
+  },
+
+  errorBanner: {
+    title: "Error",
+    selectKey: "Select API Key",
+    openSavedCopy: "Open Saved Copy",
+    dismiss: "Dismiss",
+  },
+
+  input: {
+    title: "Create a New Game",
+    subtitle: "Upload this week's Koivetz to choose from 8 fun activities!",
+    uploadTab: "Upload Files",
+    textTab: "Paste Text",
+    addMore: "Add more files",
+    dropHere: "Click to upload or drag & drop",
+    accepted: "PDFs, photos of the pages (JPEG, PNG, HEIC), Word documents or text files",
+    kinds: {
+      pdf: "PDF",
+      image: "Photo",
+      docx: "Word document",
+      text: "Text file",
+    },
+    pageCount: (count: number) => plural(count, "page", "pages"),
+    highlightedPassage: "Highlighted passage",
+    allPages: "All pages",
+    page: (page: number) => `Page ${page}`,
+    pages: (from: number, to: number) => `Pages ${from}–${to}`,
+    tooLarge: (total: string, limit: string) => `These files add up to ${total}; the limit is ${limit}. Remove some or use smaller photos.`,
+    orderHint: "The files are read in this order. Use the arrows to reorder them, and click a PDF's page selection to send only some of its pages.",
+    textPlaceholder: "Paste text here (story, sicha, halacha, etc.)...",
+    submit: "Choose Activity",
+    footnote: "Works best with the standard weekly Koivetz PDF. Several files are combined into one source.",
+    prepareFailed: "The selected PDF pages could not be prepared.",
+    readFailed: (name: string) => `"${name}" could not be read.`,
+  },
+
+  pdfPicker: {
+    pages: "Pages",
+    to: "to",
+    of: (count: number) => `of ${count}`,
+    allPages: "All pages",
+    page: (page: number) => `Page ${page}`,
+    scannedPage: (page: number) => `Page ${page} (scanned, sent as an image)`,
+    endRange: "Click another page to end the range.",
+    passageOnly: "Only this passage will be used",
+    useWholeRange: "Use the whole range again",
+    selectPassage: "Select a passage below to use only that part.",
+    useHighlight: (words: number) => `Use highlighted passage (${plural(words, "word", "words")})`,
+    scannedNote: (count: number) => count === 1
+      ? "1 page has no text layer and will be sent as an image."
+      : `${count} pages have no text layer and will be sent as images.`,
+  },
+
+  options: {
+    title: "Activity Settings",
+    ageGroup: "Age group",
+    ages: (band: string) => `Ages ${band}`,
+    difficulty: "Difficulty",
+    difficulties: {
+      easy: "Easy",
+      medium: "Medium",
+      hard: "Hard",
+    },
+    items: "Items",
+    itemsDefault: "Default",
+    itemsHint: "Kept within what each game type can hold",
+    language: "Language",
+    languages: {
+      en: "English",
+      mixed: "English with Hebrew/Yiddish",
+      he: "Hebrew (עברית)",
+      yi: "Yiddish (אידיש)",
+    },
+    hebrewTerms: "Hebrew terms",
+    termStyles: {
+      transliterate: "Keep as is (Tzedakah)",
+      gloss: "Explain once (Tzedakah (charity))",
+      translate: "Translate (charity)",
+    },
+  },
+
+  gameTypes: {
+    [GameType.QUIZ]: { label: "Quiz Challenge", desc: "Test your knowledge" },
+    [GameType.TRUE_FALSE]: { label: "True or False", desc: "Fact checking" },
+    [GameType.WORD_SEARCH]: { label: "Word Search", desc: "Find hidden words" },
+    [GameType.MATCHING]: { label: "Matching", desc: "Connect terms & meanings" },
+    [GameType.MEMORY]: { label: "Memory Match", desc: "Find matching pairs" },
+    [GameType.SEQUENCE]: { label: "Story Order", desc: "Arrange the timeline" },
+    [GameType.CROSSWORD]: { label: "Crossword", desc: "Solve the puzzle" },
+    [GameType.EMOJI_CHALLENGE]: { label: "Emoji Guess", desc: "Decode the pictures" },
+    [GameType.TRIVIA_TRAIL]: { label: "Parsha Maze", desc: "Board game adventure" },
+    [GameType.FIND_MATCH]: { label: "Spot It!", desc: "Find the matching pair" },
+    [GameType.SORTING]: { label: "Category Sort", desc: "Group items together" },
+    [GameType.FILL_IN_BLANK]: { label: "Fill in Blanks", desc: "Complete the story" },
+    [GameType.RIDDLE]: { label: "Riddle Me This", desc: "Guess from clues" },
+    [GameType.UNSCRAMBLE]: { label: "Unscramble", desc: "Fix the mixed words" },
+  },
+
+  menu: {
+    title: "Choose an Activity",
+    pickHint: "Pick a game format to generate from your Koivetz.",
+    packHint: "Select several activities to generate together as one pack.",
+    buildPack: "Build an Activity Pack",
+    cancelPack: "Cancel Pack",
+    openPack: "Open Current Pack",
+    generatePack: (count: number) => `Generate Pack (${plural(count, "activity", "activities")})`,
+    uploadDifferent: "Upload Different File",
+  },
+
+  pack: {
+    title: "Your Activity Pack",
+    progress: (ready: number, total: number) => `${ready} of ${total} activities ready. Pick one to play, then come back here for the next.`,
+    generating: "Generating...",
+    notAvailable: "Not available",
+    play: "Play",
+    designing: "Designing...",
+    sharedMentorKey: "These discussion points are shared by every activity in the pack.",
+    backToActivities: "Back to Activities",
+  },
+
+  preview: {
+    more: (count: number) => `+ ${count} more written so far`,
+  },
+
+  library: {
+    title: "My Game Library",
+    subtitle: "Every game you generated or opened on this device. Re-open any of them instantly.",
+    search: "Search by title or source text...",
+    allTypes: "All game types",
+    loadFailed: "Your library could not be loaded on this device.",
+    updateFailed: "Could not update your library.",
+    empty: "No games yet. Generate one and it will appear here.",
+    noMatch: "No games match your search.",
+    saveName: "Save name",
+    fromSharedLink: "Opened from a shared link",
+    open: "Open",
+    rename: "Rename",
+    duplicate: "Duplicate",
+    copyTitle: (title: string) => `${title} (copy)`,
+    delete: "Delete",
+    confirmDelete: (title: string) => `Delete "${title}" from your library?`,
+  },
+
+  cache: {
+    title: "Generation Cache",
+    summary: (games: number, size: string, hits: number) =>
+      `${plural(games, "cached game", "cached games")} · ${size} · ${plural(hits, "AI request", "AI requests")} saved`,
+    showEntries: "Show entries",
+    hideEntries: "Hide entries",
+    clear: "Clear cache",
+    confirmClear: "Clear all cached generations? Your library is not affected.",
+    unavailable: "The generation cache is not available on this device.",
+    updateFailed: "Could not update the generation cache.",
+    lastUsed: (date: string) => `last used ${date}`,
+    removeEntry: "Remove from cache",
+  },
+
+  gameView: {
+    changeGame: "Change Game",
+    freshVariant: "Fresh Variant",
+    freshVariantTitle: "Generate Fresh Variant",
+    reshuffle: "New Shuffle",
+    reshuffleTitle: "Shuffle the cards, options and grid again (shared links and prints follow)",
+    edit: "Edit",
+    editTitle: "Edit Game",
+    liveMode: "Live Mode",
+    liveModeTitle: "Start Live Session",
+    print: "Print",
+    printTitle: "Print Game",
+    share: "Share Game",
+    saving: "Saving...",
+    copied: "Copied!",
+    shareFailed: "Could not generate share link.",
+    copyPrompt: "Copy this link to share:",
+    printBlocked: "Printing seems to be blocked. Please press Ctrl+P (or Cmd+P) on your keyboard to print.",
+    fromCache: "This game was reused from an earlier generation of the same content, without a new AI request.",
+    generateFresh: "Generate a fresh variant",
+    unsupported: "Unsupported game type",
+    mentorHint: "Use these key points to guide the discussion with your student after the game.",
+  },
+
+  citations: {
+    fromKoivetz: "From the Koivetz",
+    pageRef: (page: number) => `(p. ${page})`,
+    sources: "Sources",
+    unverified: (count: number) => count === 1
+      ? "1 item quotes text that couldn't be found in the Koivetz. Check it before playing."
+      : `${count} items quote text that couldn't be found in the Koivetz. Check them before playing.`,
+    intro: "Where each item comes from in the Koivetz.",
+    status: {
+      "found": "Found in the source",
+      "approximate": "Close match in the source",
+      "not-found": "Not found in the source, please check this item",
+      "unchecked": "Couldn't be checked against the source",
+    },
+  },
+
+  live: {
+    connecting: "Connecting to Live Session...",
+    notFound: "Session Not Found",
+    backToMenu: "Back to Menu",
+    joinTitle: "Join Live Game",
+    yourName: "Your Name",
+    namePlaceholder: "Enter your name",
+    join: "Join Game",
+    joinFailed: "Failed to join session",
+    waiting: "Waiting for Players...",
+    shareHint: "Share the link so students can join.",
+    waitingForHost: "Waiting for the host to start.",
+    copyLink: "Copy Link",
+    linkCopied: "Invite link copied!",
+    startGame: "Start Game",
+    playersJoined: (count: number) => `Players Joined (${count})`,
+    noPlayers: "No players yet...",
+    host: "HOST",
+    hostName: "the host",
+    player: (name: string) => `PLAYER: ${name}`,
+    guest: "Guest",
+    hostPanel: "Host Control Panel",
+    solvingTogether: "You are solving this puzzle together with your student!",
+    playingTogether: "Everyone is playing on one shared board!",
+    playingIndependently: "Students are playing independently on their devices.",
+    watchPlayer: "Click a student to watch their board.",
+    pickPlayerToWatch: "Pick a player above to see their board.",
+    progressPlayer: "Student",
+    progressItems: "Progress",
+    progressMistakes: "Mistakes",
+    progressHints: "Hints used",
+    progressStatus: "Status",
+    itemStatus: { done: "Done", wrong: "Got it wrong", todo: "Not yet" },
+    finishedIn: (time: string) => `Finished in ${time}`,
+    stuck: "Stuck",
+    playing: "Playing",
+    nextWord: "Next Word",
+    deleteSession: "End & Delete Session",
+    deleteConfirm: "End this session for everyone and delete it? This can't be undone.",
+    deleteFailed: "The session couldn't be deleted. Please try again.",
+    expired: "This session has expired",
+    expiredBody: (hours: number) => `Live sessions close ${hours} hours after they start. Start a new one from the game to keep playing.`,
+    offline: "Disconnected",
+    endSession: "End Session",
+    notSupported: "Game not supported in Live Mode yet.",
+    next: "Next",
+    finished: "Game Finished!",
+    exit: "Exit",
+    mode: "Play mode",
+    modes: {
+      cooperative: { label: "Cooperative", hint: "Everyone answers together; the first answer counts for the whole group.", boardHint: "Everyone plays one shared board, and every move shows up on all devices." },
+      competitive: { label: "Competitive", hint: "Each player answers alone. Right answers score points, and faster ones score more.", boardHint: "Each player plays their own board, and the host can watch any of them." },
+    },
+    reveal: "Reveal Answers",
+    answersIn: (count: number, total: number) => `${count}/${total} answered`,
+    pickAnswer: "Pick your answer. The faster you're right, the more points you get!",
+    answerLocked: "Answer locked in! Waiting for the host to reveal...",
+    answerFailed: "Your answer couldn't be sent. Please try again.",
+    revealFailed: "The answers couldn't be revealed. Please try again.",
+    nextQuestionFailed: "Couldn't move on to the next question. Please try again.",
+    moveFailed: "Your move couldn't be sent. Please try again.",
+    correctPoints: (points: number) => `Correct! +${points} points`,
+    wrongAnswer: "Not this time. Get the next one!",
+    noAnswer: "You didn't answer this one.",
+    leaderboard: "Leaderboard",
+    points: (points: number) => plural(points, "pt", "pts"),
+    pointsGained: (points: number) => `+${points}`,
+    you: "(you)",
+  },
+
+  quiz: {
+    mazelTov: "Mazel Tov!",
+    scored: (score: number, total: number) => `You scored ${score} out of ${total}`,
+    bestStreak: (streak: number) => `🔥 Best Streak: ${streak} in a row!`,
+    didYouKnow: "Did you know?",
+    trueFalse: { True: "True", False: "False" },
+  },
+
+  emoji: {
+    none: "No emoji questions generated.",
+    expert: "You're an Emoji Expert!",
+    finalScore: (score: number, total: number) => `Score: ${score} / ${total}`,
+    score: (score: number) => `Score: ${score}`,
+    hint: "Hint:",
+    nextEmoji: "Next Emoji",
+  },
+
+  fillBlank: {
+    complete: "Story Complete!",
+    completeBody: "You filled in all the blanks correctly.",
+    wordBank: "Word Bank (Click or Drag)",
+    allUsed: "All words used! Check your answers.",
+    check: "Check My Story",
+    wrong: "Some words are in the wrong spot. Try again!",
+  },
+
+  findMatch: {
+    title: "Find the one matching item!",
+    score: (score: number) => `Score: ${score}`,
+    versus: "VS",
+    tip: "Be quick! The items shuffle every time you find a match.",
+  },
+
+  matching: {
+    allMatched: "All Matched!",
+    allMatchedBody: "Great job connecting the concepts.",
+    terms: "Terms",
+    definitions: "Definitions",
+  },
+
+  memory: {
+    master: "Memory Master!",
+  },
+
+  riddle: {
+    master: "Riddle Master!",
+    masterBody: "You solved all the riddles.",
+    none: "No riddles found.",
+    riddleOf: (number: number, total: number) => `Riddle ${number} of ${total}`,
+    anotherClue: "Need Another Clue",
+    iKnowIt: "I Know It!",
+    answerIs: "The Answer Is",
+    nextRiddle: "Next Riddle",
+  },
+
+  sequence: {
+    solved: "Story Solved!",
+    solvedBody: "You put everything in the perfect order.",
+    fullStory: "The Full Story:",
+    instructions: "Tap two cards to swap them until the story is in order!",
+    swap: "SWAP",
+    check: "Check Order",
+    wrong: "Not quite right yet. Keep trying!",
+  },
+
+  sorting: {
+    complete: "Sorting Complete!",
+    completeBody: "You categorized everything correctly.",
+  },
+
+  trivia: {
+    reachedEnd: "You Reached the End!",
+    reachedEndBody: "You conquered the Parsha path.",
+    start: "Start",
+    finish: "Finish",
+    ready: "Ready to start the journey?",
+    keepMoving: "Great job! Keep moving!",
+    startGame: "Start Game",
+    oops: "Oops! Try again.",
+  },
+
+  unscramble: {
+    master: "Vocabulary Master!",
+    masterBody: "You unscrambled all the words.",
+    wordOf: (number: number, total: number) => `Word ${number} of ${total}`,
+    hint: "💡 Hint:",
+    clickLetters: "Click letters below",
+    correctWaiting: "Correct! Waiting for host...",
+    check: "Check Answer",
+    notQuite: "Not quite right. Try again!",
+  },
+
+  wordSearch: {
+    allFound: "You found them all!",
+    findWords: "Find these words:",
+    directions: {
+      easy: "Words run across and down.",
+      medium: "Words run across, down and diagonally.",
+      hard: "Words run in every direction, even backwards!",
+    },
+  },
+
+  crossword: {
+    layoutFailed: "Could not generate crossword layout. Try again.",
+    solved: "Puzzle Solved!",
+    solvedBody: "You filled in the crossword correctly.",
+    clues: "Clues",
+    across: "Across",
+    down: "Down",
+    leftOut: (count: number) => `${plural(count, "clue", "clues")} couldn't fit in the grid and ${count === 1 ? "was" : "were"} left out:`,
+    check: "Check Puzzle",
+    notQuite: "Not quite right yet! Keep trying.",
+    filledBy: (name: string) => `Filled in by ${name}`,
+  },
+
+  editor: {
+    discard: "Discard changes",
+    editing: (label: string) => `Editing ${label}`,
+    untitled: "Untitled game",
+    saveChanges: "Save Changes",
+    fixProblems: "Please fix these problems before saving",
+    title: "Title",
+    instructions: "Instructions",
+    content: "Game Content",
+    regenerateFailed: "Couldn't create a new item. Please try again.",
+    addDiscussionPoint: "Add discussion point",
+    regenerate: "Regenerate this item",
+    regenerating: "Writing a new item...",
+    options: "Options (mark the correct one)",
+    markCorrect: "Mark as correct",
+    removeOption: "Remove option",
+    addOption: "Add option",
+    notEditable: "This game type can't be edited yet.",
+    question: "Question",
+    addQuestion: "Add question",
+    statement: "Statement",
+    explanation: "Explanation (optional)",
+    pair: "Pair",
+    addPair: "Add pair",
+    term: "Term",
+    definition: "Definition",
+    sequenceHint: "List the steps in the correct order. Players will see them shuffled.",
+    step: "Step",
+    addStep: "Add step",
+    categories: "Categories",
+    addCategory: "Add category",
+    item: "Item",
+    addItem: "Add item",
+    category: "Category",
+    chooseCategory: "Choose a category",
+    word: "Word",
+    addWord: "Add word",
+    hint: "Hint",
+    wordsToFind: "Words to find",
+    riddle: "Riddle",
+    addRiddle: "Add riddle",
+    clues: "Clues (revealed in order)",
+    addClue: "Add clue",
+    answer: "Answer",
+    entry: "Entry",
+    gridWord: "Word (letters only)",
+    clue: "Clue",
+    challenge: "Challenge",
+    addChallenge: "Add challenge",
+    emojis: "Emojis",
+    stop: "Stop",
+    findMatchTerms: "Terms shown on the cards",
+    addTerm: "Add term",
+    fillBlankHint: "The story is shown with a blank after every text part except the last.",
+    text: (number: number) => `Text ${number}`,
+    blank: (number: number) => `Blank ${number}`,
+    removeBlank: "Remove blank",
+    addBlank: "Add blank and text",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,488 @@
+import { GameType } from "../types";
+import type { Messages } from "./en";
+
+// Hebrew UI copy
+
+const plural = (count: number, one: string, other: string) => (count === 1 ? one : `${count} ${other}`);
+
+export const he: Messages = {
+  common: {
+    back: "חזרה",
+    cancel: "ביטול",
+    save: "שמירה",
+    remove: "הסרה",
+    moveUp: "הזזה למעלה",
+    moveDown: "הזזה למטה",
+    tryAgain: "לנסות שוב",
+    playAgain: "לשחק שוב",
+    finishGame: "סיום המשחק",
+    nextQuestion: "השאלה הבאה",
+    needHint: "צריכים רמז?",
+    loading: "טוען...",
+    mentorsCorner: "פינת המנטור",
+    questionOf: (number, total) => `שאלה ${number}/${total}`,
+  },
+
+  locale: {
+    label: "שפה",
+  },
+
+  app: {
+    keyTitle: "הגדרת מפתח API",
+    keyBody: "כדי להמשיך, האפליקציה צריכה מפתח API תקף עם חיוב פעיל מפרויקט Google Cloud שלכם.",
+    selectKey: "בחירת מפתח API",
+    billingDocs: "מידע על חיוב",
+    myLibrary: "הספרייה שלי",
+    designing: "מעצבים את הפעילות...",
+    designingPack: "מעצבים את חבילת הפעילויות...",
+    studying: "לומדים את תוכן הקובץ...",
+    footer: (year) => `© ${year} תוכנית המנטורים MyShliach`,
+    sharedLink: "קישור ששותף",
+    loadSharedFailed: "טעינת המשחק ששותף נכשלה.",
+    invalidLink: "קישור השיתוף אינו תקין.",
+    generateFailed: "יצירת המשחק נכשלה.",
+    packFailed: (reason) => `לא ניתן היה ליצור אף אחת מהפעילויות בחבילה. ${reason}`,
+    liveFailed: "פתיחת המפגש החי נכשלה.",
+  },
+
+  errorBanner: {
+    title: "שגיאה",
+    selectKey: "בחירת מפתח API",
+    openSavedCopy: "פתיחת העותק השמור",
+    dismiss: "סגירה",
+  },
+
+  input: {
+    title: "יצירת משחק חדש",
+    subtitle: "העלו את הקובץ של השבוע ובחרו מתוך 8 פעילויות מהנות!",
+    uploadTab: "העלאת קבצים",
+    textTab: "הדבקת טקסט",
+    addMore: "הוספת קבצים",
+    dropHere: "לחצו להעלאה או גררו לכאן",
+    accepted: "קובצי PDF, תמונות של העמודים (JPEG, PNG, HEIC), מסמכי Word או קובצי טקסט",
+    kinds: {
+      pdf: "PDF",
+      image: "תמונה",
+      docx: "מסמך Word",
+      text: "קובץ טקסט",
+    },
+    pageCount: (count) => plural(count, "עמוד אחד", "עמודים"),
+    highlightedPassage: "קטע מסומן",
+    allPages: "כל העמודים",
+    page: (page) => `עמוד ${page}`,
+    pages: (from, to) => `עמודים ${from}–${to}`,
+    tooLarge: (total, limit) => `גודל הקבצים יחד הוא ${total}, והמגבלה היא ${limit}. הסירו חלק מהם או השתמשו בתמונות קטנות יותר.`,
+    orderHint: "הקבצים נקראים בסדר הזה. אפשר לשנות את הסדר בעזרת החיצים, וללחוץ על בחירת העמודים של קובץ PDF כדי לשלוח רק חלק מעמודיו.",
+    textPlaceholder: "הדביקו כאן טקסט (סיפור, שיחה, הלכה וכו')...",
+    submit: "בחירת פעילות",
+    footnote: "עובד הכי טוב עם קובץ ה-PDF השבועי הרגיל. כמה קבצים מצורפים יחד למקור אחד.",
+    prepareFailed: "לא ניתן היה להכין את עמודי ה-PDF שנבחרו.",
+    readFailed: (name) => `לא ניתן היה לקרוא את "${name}".`,
+  },
+
+  pdfPicker: {
+    pages: "עמודים",
+    to: "עד",
+    of: (count) => `מתוך ${count}`,
+    allPages: "כל העמודים",
+    page: (page) => `עמוד ${page}`,
+    scannedPage: (page) => `עמוד ${page} (סרוק, יישלח כתמונה)`,
+    endRange: "לחצו על עמוד נוסף כדי לסיים את הטווח.",
+    passageOnly: "ייעשה שימוש רק בקטע הזה",
+    useWholeRange: "חזרה לכל הטווח",
+    selectPassage: "סמנו קטע בטקסט שלמטה כדי להשתמש רק בו.",
+    useHighlight: (words) => `שימוש בקטע המסומן (${plural(words, "מילה אחת", "מילים")})`,
+    scannedNote: (count) => count === 1
+      ? "בעמוד אחד אין שכבת טקסט, והוא יישלח כתמונה."
+      : `ב-${count} עמודים אין שכבת טקסט, והם יישלחו כתמונות.`,
+  },
+
+  options: {
+    title: "הגדרות הפעילות",
+    ageGroup: "קבוצת גיל",
+    ages: (band) => `גילאי ${band}`,
+    difficulty: "רמת קושי",
+    difficulties: {
+      easy: "קל",
+      medium: "בינוני",
+      hard: "קשה",
+    },
+    items: "פריטים",
+    itemsDefault: "ברירת מחדל",
+    itemsHint: "בגבולות מה שכל סוג משחק יכול להכיל",
+    language: "שפה",
+    languages: {
+      en: "אנגלית (English)",
+      mixed: "אנגלית עם עברית/אידיש",
+      he: "עברית",
+      yi: "אידיש",
+    },
+    hebrewTerms: "מונחים בעברית",
+    termStyles: {
+      transliterate: "להשאיר כמו שהם (Tzedakah)",
+      gloss: "להסביר פעם אחת (Tzedakah (charity))",
+      translate: "לתרגם (charity)",
+    },
+  },
+
+  gameTypes: {
+    [GameType.QUIZ]: { label: "חידון", desc: "בדקו את הידע שלכם" },
+    [GameType.TRUE_FALSE]: { label: "נכון או לא נכון", desc: "בדיקת עובדות" },
+    [GameType.WORD_SEARCH]: { label: "תפזורת", desc: "מצאו את המילים המסתתרות" },
+    [GameType.MATCHING]: { label: "התאמה", desc: "חברו מושגים ופירושים" },
+    [GameType.MEMORY]: { label: "משחק זיכרון", desc: "מצאו את הזוגות" },
+    [GameType.SEQUENCE]: { label: "סדר הסיפור", desc: "סדרו את ציר הזמן" },
+    [GameType.CROSSWORD]: { label: "תשבץ", desc: "פתרו את התשבץ" },
+    [GameType.EMOJI_CHALLENGE]: { label: "נחשו את האימוג'י", desc: "פענחו את הציורים" },
+    [GameType.TRIVIA_TRAIL]: { label: "מבוך הפרשה", desc: "הרפתקת משחק לוח" },
+    [GameType.FIND_MATCH]: { label: "מצאו את הזהה!", desc: "מצאו את הפריט המשותף" },
+    [GameType.SORTING]: { label: "מיון לקטגוריות", desc: "קבצו פריטים יחד" },
+    [GameType.FILL_IN_BLANK]: { label: "השלמת החסר", desc: "השלימו את הסיפור" },
+    [GameType.RIDDLE]: { label: "חידות", desc: "נחשו לפי הרמזים" },
+    [GameType.UNSCRAMBLE]: { label: "מילים מבולבלות", desc: "סדרו את האותיות" },
+  },
+
+  menu: {
+    title: "בחירת פעילות",
+    pickHint: "בחרו סוג משחק שייווצר מהקובץ שלכם.",
+    packHint: "בחרו כמה פעילויות שייווצרו יחד כחבילה אחת.",
+    buildPack: "בניית חבילת פעילויות",
+    cancelPack: "ביטול החבילה",
+    openPack: "פתיחת החבילה הנוכחית",
+    generatePack: (count) => `יצירת חבילה (${plural(count, "פעילות אחת", "פעילויות")})`,
+    uploadDifferent: "העלאת קובץ אחר",
+  },
+
+  pack: {
+    title: "חבילת הפעילויות שלכם",
+    progress: (ready, total) => `${ready} מתוך ${total} פעילויות מוכנות. בחרו אחת לשחק בה, ואחר כך חזרו לכאן לפעילות הבאה.`,
+    generating: "נוצר...",
+    notAvailable: "לא זמין",
+    play: "לשחק",
+    designing: "מעצבים...",
+    sharedMentorKey: "נקודות הדיון האלה משותפות לכל הפעילויות בחבילה.",
+    backToActivities: "חזרה לפעילויות",
+  },
+
+  preview: {
+    more: (count) => `ועוד ${count} שנכתבו עד עכשיו`,
+  },
+
+  library: {
+    title: "ספריית המשחקים שלי",
+    subtitle: "כל משחק שיצרתם או פתחתם במכשיר הזה. אפשר לפתוח כל אחד מהם מחדש מיד.",
+    search: "חיפוש לפי כותרת או טקסט המקור...",
+    allTypes: "כל סוגי המשחקים",
+    loadFailed: "לא ניתן היה לטעון את הספרייה שלכם במכשיר הזה.",
+    updateFailed: "לא ניתן היה לעדכן את הספרייה שלכם.",
+    empty: "עדיין אין משחקים. צרו משחק והוא יופיע כאן.",
+    noMatch: "אין משחקים שמתאימים לחיפוש.",
+    saveName: "שמירת השם",
+    fromSharedLink: "נפתח מקישור ששותף",
+    open: "פתיחה",
+    rename: "שינוי שם",
+    duplicate: "שכפול",
+    copyTitle: (title) => `${title} (עותק)`,
+    delete: "מחיקה",
+    confirmDelete: (title) => `למחוק את "${title}" מהספרייה?`,
+  },
+
+  cache: {
+    title: "מטמון היצירות",
+    summary: (games, size, hits) =>
+      `${plural(games, "משחק אחד שמור", "משחקים שמורים")} · ${size} · נחסכו ${plural(hits, "בקשת AI אחת", "בקשות AI")}`,
+    showEntries: "הצגת הרשומות",
+    hideEntries: "הסתרת הרשומות",
+    clear: "ניקוי המטמון",
+    confirmClear: "לנקות את כל היצירות השמורות? הספרייה שלכם לא תושפע.",
+    unavailable: "מטמון היצירות אינו זמין במכשיר הזה.",
+    updateFailed: "לא ניתן היה לעדכן את מטמון היצירות.",
+    lastUsed: (date) => `שימוש אחרון ${date}`,
+    removeEntry: "הסרה מהמטמון",
+  },
+
+  gameView: {
+    changeGame: "החלפת משחק",
+    freshVariant: "גרסה חדשה",
+    freshVariantTitle: "יצירת גרסה חדשה",
+    reshuffle: "ערבוב חדש",
+    reshuffleTitle: "ערבוב מחדש של הכרטיסים, האפשרויות והלוח (קישורים משותפים והדפסות יתעדכנו)",
+    edit: "עריכה",
+    editTitle: "עריכת המשחק",
+    liveMode: "מצב חי",
+    liveModeTitle: "פתיחת מפגש חי",
+    print: "הדפסה",
+    printTitle: "הדפסת המשחק",
+    share: "שיתוף המשחק",
+    saving: "שומר...",
+    copied: "הועתק!",
+    shareFailed: "לא ניתן היה ליצור קישור שיתוף.",
+    copyPrompt: "העתיקו את הקישור כדי לשתף:",
+    printBlocked: "נראה שההדפסה חסומה. לחצו Ctrl+P (או Cmd+P) במקלדת כדי להדפיס.",
+    fromCache: "המשחק הזה נלקח מיצירה קודמת של אותו תוכן, בלי בקשת AI חדשה.",
+    generateFresh: "יצירת גרסה חדשה",
+    unsupported: "סוג משחק שאינו נתמך",
+    mentorHint: "היעזרו בנקודות האלה כדי להנחות את השיחה עם החניך אחרי המשחק.",
+  },
+
+  citations: {
+    fromKoivetz: "מתוך הקובץ",
+    pageRef: (page) => `(עמ' ${page})`,
+    sources: "מקורות",
+    unverified: (count) => count === 1
+      ? "פריט אחד מצטט טקסט שלא נמצא בקובץ. בדקו אותו לפני המשחק."
+      : `${count} פריטים מצטטים טקסט שלא נמצא בקובץ. בדקו אותם לפני המשחק.`,
+    intro: "מאיפה בקובץ לקוח כל פריט.",
+    status: {
+      "found": "נמצא במקור",
+      "approximate": "נמצאה התאמה קרובה במקור",
+      "not-found": "לא נמצא במקור, נא לבדוק את הפריט הזה",
+      "unchecked": "לא ניתן היה לבדוק מול המקור",
+    },
+  },
+
+  live: {
+    connecting: "מתחברים למפגש החי...",
+    notFound: "המפגש לא נמצא",
+    backToMenu: "חזרה לתפריט",
+    joinTitle: "הצטרפות למשחק חי",
+    yourName: "השם שלך",
+    namePlaceholder: "הקלידו את השם שלכם",
+    join: "הצטרפות למשחק",
+    joinFailed: "ההצטרפות למפגש נכשלה",
+    waiting: "מחכים לשחקנים...",
+    shareHint: "שתפו את הקישור כדי שהתלמידים יוכלו להצטרף.",
+    waitingForHost: "מחכים שהמארח יתחיל.",
+    copyLink: "העתקת הקישור",
+    linkCopied: "קישור ההזמנה הועתק!",
+    startGame: "התחלת המשחק",
+    playersJoined: (count) => `שחקנים שהצטרפו (${count})`,
+    noPlayers: "עדיין אין שחקנים...",
+    host: "מארח",
+    hostName: "המנחה",
+    player: (name) => `שחקן: ${name}`,
+    guest: "אורח",
+    hostPanel: "לוח הבקרה של המארח",
+    solvingTogether: "אתם פותרים את החידה יחד עם החניך שלכם!",
+    playingTogether: "כולם משחקים על לוח משותף אחד!",
+    playingIndependently: "התלמידים משחקים כל אחד במכשיר שלו.",
+    watchPlayer: "לחצו על תלמיד כדי לצפות בלוח שלו.",
+    pickPlayerToWatch: "בחרו שחקן למעלה כדי לראות את הלוח שלו.",
+    progressPlayer: "תלמיד",
+    progressItems: "התקדמות",
+    progressMistakes: "טעויות",
+    progressHints: "רמזים",
+    progressStatus: "מצב",
+    itemStatus: { done: "הושלם", wrong: "טעה", todo: "עוד לא" },
+    finishedIn: (time) => `סיים תוך ${time}`,
+    stuck: "תקוע",
+    playing: "משחק",
+    nextWord: "המילה הבאה",
+    deleteSession: "סיום ומחיקת המפגש",
+    deleteConfirm: "לסיים את המפגש לכולם ולמחוק אותו? אי אפשר לבטל את הפעולה.",
+    deleteFailed: "לא ניתן היה למחוק את המפגש. נסו שוב.",
+    expired: "תוקף המפגש פג",
+    expiredBody: (hours) => `מפגשים חיים נסגרים ${hours} שעות אחרי שהם מתחילים. פתחו מפגש חדש מהמשחק כדי להמשיך לשחק.`,
+    offline: "מנותק",
+    endSession: "סיום המפגש",
+    notSupported: "המשחק הזה עדיין לא נתמך במצב חי.",
+    next: "הבא",
+    finished: "המשחק הסתיים!",
+    exit: "יציאה",
+    mode: "סוג המשחק",
+    modes: {
+      cooperative: { label: "שיתופי", hint: "כולם עונים יחד; התשובה הראשונה נחשבת לכל הקבוצה.", boardHint: "כולם משחקים על לוח משותף אחד, וכל מהלך מופיע בכל המכשירים." },
+      competitive: { label: "תחרותי", hint: "כל שחקן עונה לבד. תשובות נכונות מזכות בנקודות, ומהירות מזכה ביותר.", boardHint: "כל שחקן משחק על לוח משלו, והמנחה יכול לצפות בכל אחד מהם." },
+    },
+    reveal: "חשיפת התשובות",
+    answersIn: (count, total) => `${count}/${total} ענו`,
+    pickAnswer: "בחרו תשובה. ככל שתענו נכון מהר יותר, תקבלו יותר נקודות!",
+    answerLocked: "התשובה ננעלה! מחכים שהמנחה יחשוף...",
+    answerFailed: "לא ניתן היה לשלוח את התשובה. נסו שוב.",
+    revealFailed: "לא ניתן היה לחשוף את התשובות. נסו שוב.",
+    nextQuestionFailed: "לא ניתן היה לעבור לשאלה הבאה. נסו שוב.",
+    moveFailed: "לא ניתן היה לשלוח את המהלך. נסו שוב.",
+    correctPoints: (points) => `נכון! +${points} נקודות`,
+    wrongAnswer: "לא הפעם. בהצלחה בשאלה הבאה!",
+    noAnswer: "לא עניתם על השאלה הזו.",
+    leaderboard: "טבלת המובילים",
+    points: (points) => `${points} נק׳`,
+    pointsGained: (points) => `+${points}`,
+    you: "(את/ה)",
+  },
+
+  quiz: {
+    mazelTov: "מזל טוב!",
+    scored: (score, total) => `צברתם ${score} מתוך ${total}`,
+    bestStreak: (streak) => `🔥 הרצף הטוב ביותר: ${streak} ברציפות!`,
+    didYouKnow: "הידעתם?",
+    trueFalse: { True: "נכון", False: "לא נכון" },
+  },
+
+  emoji: {
+    none: "לא נוצרו שאלות אימוג'י.",
+    expert: "אתם מומחי אימוג'י!",
+    finalScore: (score, total) => `ניקוד: ${score} / ${total}`,
+    score: (score) => `ניקוד: ${score}`,
+    hint: "רמז:",
+    nextEmoji: "האימוג'י הבא",
+  },
+
+  fillBlank: {
+    complete: "הסיפור הושלם!",
+    completeBody: "מילאתם נכון את כל החסר.",
+    wordBank: "מאגר מילים (לחצו או גררו)",
+    allUsed: "השתמשתם בכל המילים! בדקו את התשובות.",
+    check: "בדיקת הסיפור",
+    wrong: "חלק מהמילים לא במקום הנכון. נסו שוב!",
+  },
+
+  findMatch: {
+    title: "מצאו את הפריט המשותף!",
+    score: (score) => `ניקוד: ${score}`,
+    versus: "מול",
+    tip: "מהר! הפריטים מתערבבים בכל פעם שמוצאים התאמה.",
+  },
+
+  matching: {
+    allMatched: "הכול הותאם!",
+    allMatchedBody: "כל הכבוד על חיבור המושגים.",
+    terms: "מושגים",
+    definitions: "פירושים",
+  },
+
+  memory: {
+    master: "אלופי הזיכרון!",
+  },
+
+  riddle: {
+    master: "אלופי החידות!",
+    masterBody: "פתרתם את כל החידות.",
+    none: "לא נמצאו חידות.",
+    riddleOf: (number, total) => `חידה ${number} מתוך ${total}`,
+    anotherClue: "צריך עוד רמז",
+    iKnowIt: "אני יודע!",
+    answerIs: "התשובה היא",
+    nextRiddle: "החידה הבאה",
+  },
+
+  sequence: {
+    solved: "הסיפור מסודר!",
+    solvedBody: "סידרתם הכול בסדר המושלם.",
+    fullStory: "הסיפור המלא:",
+    instructions: "הקישו על שני כרטיסים כדי להחליף ביניהם, עד שהסיפור יהיה בסדר!",
+    swap: "החלפה",
+    check: "בדיקת הסדר",
+    wrong: "עוד לא לגמרי. המשיכו לנסות!",
+  },
+
+  sorting: {
+    complete: "המיון הושלם!",
+    completeBody: "מיינתם הכול נכון.",
+  },
+
+  trivia: {
+    reachedEnd: "הגעתם לסוף!",
+    reachedEndBody: "כבשתם את מסלול הפרשה.",
+    start: "התחלה",
+    finish: "סיום",
+    ready: "מוכנים לצאת לדרך?",
+    keepMoving: "כל הכבוד! ממשיכים!",
+    startGame: "התחלת המשחק",
+    oops: "אופס! נסו שוב.",
+  },
+
+  unscramble: {
+    master: "אלופי המילים!",
+    masterBody: "סידרתם את כל המילים.",
+    wordOf: (number, total) => `מילה ${number} מתוך ${total}`,
+    hint: "💡 רמז:",
+    clickLetters: "לחצו על האותיות שלמטה",
+    correctWaiting: "נכון! מחכים למארח...",
+    check: "בדיקת התשובה",
+    notQuite: "לא בדיוק. נסו שוב!",
+  },
+
+  wordSearch: {
+    allFound: "מצאתם את כולן!",
+    findWords: "מצאו את המילים:",
+    directions: {
+      easy: "המילים מופיעות לרוחב ולאורך.",
+      medium: "המילים מופיעות לרוחב, לאורך ובאלכסון.",
+      hard: "המילים מופיעות בכל הכיוונים, גם הפוך!",
+    },
+  },
+
+  crossword: {
+    layoutFailed: "לא ניתן היה לבנות את התשבץ. נסו שוב.",
+    solved: "התשבץ נפתר!",
+    solvedBody: "מילאתם את התשבץ נכון.",
+    clues: "הגדרות",
+    across: "מאוזן",
+    down: "מאונך",
+    leftOut: (count) => (count === 1 ? "הגדרה אחת לא נכנסה לתשבץ והושמטה:" : `${count} הגדרות לא נכנסו לתשבץ והושמטו:`),
+    check: "בדיקת התשבץ",
+    notQuite: "עוד לא לגמרי! המשיכו לנסות.",
+    filledBy: (name) => `מולא על ידי ${name}`,
+  },
+
+  editor: {
+    discard: "ביטול השינויים",
+    editing: (label) => `עריכת ${label}`,
+    untitled: "משחק ללא שם",
+    saveChanges: "שמירת השינויים",
+    fixProblems: "נא לתקן את הבעיות האלה לפני השמירה",
+    title: "כותרת",
+    instructions: "הוראות",
+    content: "תוכן המשחק",
+    regenerateFailed: "לא ניתן היה ליצור פריט חדש. נסו שוב.",
+    addDiscussionPoint: "הוספת נקודה לדיון",
+    regenerate: "יצירה מחדש של הפריט",
+    regenerating: "כותבים פריט חדש...",
+    options: "אפשרויות (סמנו את הנכונה)",
+    markCorrect: "סימון כנכונה",
+    removeOption: "הסרת האפשרות",
+    addOption: "הוספת אפשרות",
+    notEditable: "עדיין אי אפשר לערוך סוג משחק זה.",
+    question: "שאלה",
+    addQuestion: "הוספת שאלה",
+    statement: "טענה",
+    explanation: "הסבר (לא חובה)",
+    pair: "זוג",
+    addPair: "הוספת זוג",
+    term: "מושג",
+    definition: "פירוש",
+    sequenceHint: "רשמו את השלבים בסדר הנכון. השחקנים יראו אותם מעורבבים.",
+    step: "שלב",
+    addStep: "הוספת שלב",
+    categories: "קטגוריות",
+    addCategory: "הוספת קטגוריה",
+    item: "פריט",
+    addItem: "הוספת פריט",
+    category: "קטגוריה",
+    chooseCategory: "בחרו קטגוריה",
+    word: "מילה",
+    addWord: "הוספת מילה",
+    hint: "רמז",
+    wordsToFind: "מילים למציאה",
+    riddle: "חידה",
+    addRiddle: "הוספת חידה",
+    clues: "רמזים (נחשפים לפי הסדר)",
+    addClue: "הוספת רמז",
+    answer: "תשובה",
+    entry: "ערך",
+    gridWord: "מילה (אותיות בלבד)",
+    clue: "הגדרה",
+    challenge: "אתגר",
+    addChallenge: "הוספת אתגר",
+    emojis: "אימוג'י",
+    stop: "תחנה",
+    findMatchTerms: "המושגים שעל הכרטיסים",
+    addTerm: "הוספת מושג",
+    fillBlankHint: "הסיפור מוצג עם מקום ריק אחרי כל קטע טקסט, חוץ מהאחרון.",
+    text: (number) => `טקסט ${number}`,
+    blank: (number) => `חסר ${number}`,
+    removeBlank: "הסרת החסר",
+    addBlank: "הוספת חסר וטקסט",
+  },
+};
@@ -0,0 +1,84 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { en, Messages } from './en';
+import { he } from './he';
+import { yi } from './yi';
+
+/**
+ * Interface language of the app. The choice is kept per device; until one is made the
+ * browser's preferred languages decide. Hebrew and Yiddish lay the page out right to left.
+ */
+
+export type Locale = 'en' | 'he' | 'yi';
+export type { Messages };
+
+export const LOCALES: { code: Locale; name: string; dir: 'ltr' | 'rtl' }[] = [
+  { code: 'en', name: 'English', dir: 'ltr' },
+  { code: 'he', name: 'עברית', dir: 'rtl' },
+  { code: 'yi', name: 'ייִדיש', dir: 'rtl' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, he, yi };
+
+const STORAGE_KEY = 'myshliach.locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(({ code }) => code === value);
+
+// "iw" and "ji" are the old codes some browsers still report for Hebrew and Yiddish
+const fromBrowser = (): Locale => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const language of languages) {
+    const code = language.toLowerCase().split('-')[0];
+    if (code === 'he' || code === 'iw') return 'he';
+    if (code === 'yi' || code === 'ji') return 'yi';
+    if (code === 'en') return 'en';
+  }
+  return 'en';
+};
+
+const initialLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be blocked (e.g. private mode); fall back to the browser's languages
+  }
+  return fromBrowser();
+};
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+  dir: 'ltr' | 'rtl';
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+  const dir = LOCALES.find(({ code }) => code === locale)!.dir;
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // The choice then only lasts for this visit
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const value = useMemo(() => ({ locale, setLocale, t: CATALOGS[locale], dir }), [locale, setLocale, dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used inside an I18nProvider.");
+  return context;
+};
@@ -0,0 +1,488 @@
+import { GameType } from "../types";
+import type { Messages } from "./en";
+
+// Yiddish UI copy, in Hebrew letters without nikud
+
+const plural = (count: number, one: string, other: string) => (count === 1 ? one : `${count} ${other}`);
+
+export const yi: Messages = {
+  common: {
+    back: "צוריק",
+    cancel: "אפזאגן",
+    save: "אפהיטן",
+    remove: "אראפנעמען",
+    moveUp: "רוקן ארויף",
+    moveDown: "רוקן אראפ",
+    tryAgain: "פרובירן נאכאמאל",
+    playAgain: "שפילן נאכאמאל",
+    finishGame: "ענדיגן די שפיל",
+    nextQuestion: "קומענדיגע שאלה",
+    needHint: "דארפסט א רמז?",
+    loading: "לאדט...",
+    mentorsCorner: "דער מענטאר'ס ווינקל",
+    questionOf: (number, total) => `שאלה ${number}/${total}`,
+  },
+
+  locale: {
+    label: "שפראך",
+  },
+
+  app: {
+    keyTitle: "שטעלט איין אן API שליסל",
+    keyBody: "כדי ווייטער צו גיין דארף די אפליקאציע א גילטיגן API שליסל מיט באצאלונג, פון אייער Google Cloud פראיעקט.",
+    selectKey: "קלייבט מיין API שליסל",
+    billingDocs: "אינפארמאציע וועגן באצאלונג",
+    myLibrary: "מיין ביבליאטעק",
+    designing: "מ'שטעלט צוזאמען אייער אקטיוויטעט...",
+    designingPack: "מ'שטעלט צוזאמען אייער אקטיוויטעטן־פעקל...",
+    studying: "מ'לערנט דעם קובץ...",
+    footer: (year) => `© ${year} MyShliach מענטאר פראגראם`,
+    sharedLink: "געשיקטער לינק",
+    loadSharedFailed: "מ'האט נישט געקענט לאדן די געשיקטע שפיל.",
+    invalidLink: "דער לינק איז נישט גילטיג.",
+    generateFailed: "מ'האט נישט געקענט שאפן די שפיל.",
+    packFailed: (reason) => `מ'האט נישט געקענט שאפן קיין איינע פון די אקטיוויטעטן אין פעקל. ${reason}`,
+    liveFailed: "מ'האט נישט געקענט אנהייבן די לייוו סעסיע.",
+  },
+
+  errorBanner: {
+    title: "טעות",
+    selectKey: "קלייבט אן API שליסל",
+    openSavedCopy: "עפנט דעם אפגעהיטענעם עקזעמפלאר",
+    dismiss: "פארמאכן",
+  },
+
+  input: {
+    title: "שאפט א נייע שפיל",
+    subtitle: "לאדט ארויף די וואכ'ס קובץ און קלייבט פון 8 געשמאקע אקטיוויטעטן!",
+    uploadTab: "ארויפלאדן טעקעס",
+    textTab: "אריינלייגן טעקסט",
+    addMore: "צולייגן נאך טעקעס",
+    dropHere: "קליקט צו ארויפלאדן אדער שלעפט אהער",
+    accepted: "PDF טעקעס, בילדער פון די זייטן (JPEG, PNG, HEIC), Word דאקומענטן אדער טעקסט טעקעס",
+    kinds: {
+      pdf: "PDF",
+      image: "בילד",
+      docx: "Word דאקומענט",
+      text: "טעקסט טעקע",
+    },
+    pageCount: (count) => plural(count, "איין זייט", "זייטן"),
+    highlightedPassage: "אנגעצייכנטער שטיקל",
+    allPages: "אלע זייטן",
+    page: (page) => `זייט ${page}`,
+    pages: (from, to) => `זייטן ${from}–${to}`,
+    tooLarge: (total, limit) => `די טעקעס צוזאמען זענען ${total}, און די גרעניץ איז ${limit}. נעמט אראפ עטליכע אדער נוצט קלענערע בילדער.`,
+    orderHint: "די טעקעס ווערן געליינט אין דעם סדר. נוצט די פיילן צו טוישן דעם סדר, און קליקט אויף די אויסגעקליבענע זייטן פון א PDF צו שיקן נאר א טייל פון זיינע זייטן.",
+    textPlaceholder: "לייגט דא אריין טעקסט (א מעשה, א שיחה, א הלכה א.א.וו.)...",
+    submit: "קלייבט אן אקטיוויטעט",
+    footnote: "ארבעט דאס בעסטע מיט דעם געווענליכן וועכנטליכן קובץ PDF. עטליכע טעקעס ווערן צוזאמענגעשטעלט אין איין מקור.",
+    prepareFailed: "מ'האט נישט געקענט צוגרייטן די אויסגעקליבענע PDF זייטן.",
+    readFailed: (name) => `מ'האט נישט געקענט ליינען "${name}".`,
+  },
+
+  pdfPicker: {
+    pages: "זייטן",
+    to: "ביז",
+    of: (count) => `פון ${count}`,
+    allPages: "אלע זייטן",
+    page: (page) => `זייט ${page}`,
+    scannedPage: (page) => `זייט ${page} (געסקענט, ווערט געשיקט אלס בילד)`,
+    endRange: "קליקט אויף נאך א זייט צו ענדיגן דעם געביט.",
+    passageOnly: "מ'וועט נוצן נאר דעם שטיקל",
+    useWholeRange: "צוריק צום גאנצן געביט",
+    selectPassage: "צייכנט אן א שטיקל אונטן צו נוצן נאר דעם טייל.",
+    useHighlight: (words) => `נוצט דעם אנגעצייכנטן שטיקל (${plural(words, "איין ווארט", "ווערטער")})`,
+    scannedNote: (count) => count === 1
+      ? "איין זייט האט נישט קיין טעקסט און וועט געשיקט ווערן אלס בילד."
+      : `${count} זייטן האבן נישט קיין טעקסט און וועלן געשיקט ווערן אלס בילדער.`,
+  },
+
+  options: {
+    title: "אקטיוויטעט איינשטעלונגען",
+    ageGroup: "עלטער גרופע",
+    ages: (band) => `עלטער ${band}`,
+    difficulty: "שוועריגקייט",
+    difficulties: {
+      easy: "גרינג",
+      medium: "מיטל",
+      hard: "שווער",
+    },
+    items: "פריטים",
+    itemsDefault: "סטאנדארט",
+    itemsHint: "אין די גרעניצן פון וואס יעדע סארט שפיל קען האלטן",
+    language: "שפראך",
+    languages: {
+      en: "ענגליש (English)",
+      mixed: "ענגליש מיט לשון קודש/אידיש",
+      he: "לשון קודש (עברית)",
+      yi: "אידיש",
+    },
+    hebrewTerms: "לשון קודש ווערטער",
+    termStyles: {
+      transliterate: "לאזן ווי זיי זענען (Tzedakah)",
+      gloss: "אויסטייטשן איין מאל (Tzedakah (charity))",
+      translate: "איבערזעצן (charity)",
+    },
+  },
+
+  gameTypes: {
+    [GameType.QUIZ]: { label: "פארהער", desc: "פרובירט אייער וויסן" },
+    [GameType.TRUE_FALSE]: { label: "אמת אדער נישט", desc: "קאנטראלירט די פאקטן" },
+    [GameType.WORD_SEARCH]: { label: "ווערטער זוכן", desc: "געפינט די באהאלטענע ווערטער" },
+    [GameType.MATCHING]: { label: "צופאסן", desc: "פארבינדט ווערטער מיט זייער טייטש" },
+    [GameType.MEMORY]: { label: "זכרון שפיל", desc: "געפינט די פארלעך" },
+    [GameType.SEQUENCE]: { label: "סדר פון דער מעשה", desc: "שטעלט אויס דעם סדר" },
+    [GameType.CROSSWORD]: { label: "קרייצווארט", desc: "לייזט אויף דעם רעטעניש" },
+    [GameType.EMOJI_CHALLENGE]: { label: "טרעפט דעם עמאדזשי", desc: "טייטשט אפ די בילדעלעך" },
+    [GameType.TRIVIA_TRAIL]: { label: "פרשה לאבירינט", desc: "א ברעט־שפיל אוואנטורע" },
+    [GameType.FIND_MATCH]: { label: "געפינט דאס גלייכע!", desc: "געפינט דעם צווייטן פון פארל" },
+    [GameType.SORTING]: { label: "סארטירן", desc: "גרופירט די זאכן צוזאמען" },
+    [GameType.FILL_IN_BLANK]: { label: "אויספילן די לעכער", desc: "פארענדיגט די מעשה" },
+    [GameType.RIDDLE]: { label: "רעטענישן", desc: "טרעפט לויט די רמזים" },
+    [GameType.UNSCRAMBLE]: { label: "צעמישטע ווערטער", desc: "פארריכט די צעמישטע ווערטער" },
+  },
+
+  menu: {
+    title: "קלייבט אן אקטיוויטעט",
+    pickHint: "קלייבט א סארט שפיל צו שאפן פון אייער קובץ.",
+    packHint: "קלייבט עטליכע אקטיוויטעטן צו שאפן צוזאמען אלס איין פעקל.",
+    buildPack: "שטעלט צוזאמען אן אקטיוויטעטן־פעקל",
+    cancelPack: "אפזאגן דאס פעקל",
+    openPack: "עפנט דאס איצטיגע פעקל",
+    generatePack: (count) => `שאפט א פעקל (${plural(count, "איין אקטיוויטעט", "אקטיוויטעטן")})`,
+    uploadDifferent: "ארויפלאדן אן אנדער טעקע",
+  },
+
+  pack: {
+    title: "אייער אקטיוויטעטן־פעקל",
+    progress: (ready, total) => `${ready} פון ${total} אקטיוויטעטן זענען גרייט. קלייבט איינע צו שפילן, און קומט דערנאך צוריק אהער פאר דער קומענדיגער.`,
+    generating: "ווערט געשאפן...",
+    notAvailable: "נישט פאראן",
+    play: "שפילן",
+    designing: "מ'שטעלט צוזאמען...",
+    sharedMentorKey: "די שמועס־פונקטן זענען געמיינזאם פאר אלע אקטיוויטעטן אין פעקל.",
+    backToActivities: "צוריק צו די אקטיוויטעטן",
+  },
+
+  preview: {
+    more: (count) => `+ נאך ${count} וואס זענען שוין געשריבן`,
+  },
+
+  library: {
+    title: "מיין שפילן ביבליאטעק",
+    subtitle: "יעדע שפיל וואס איר האט געשאפן אדער געעפנט אויף דעם מכשיר. איר קענט יעדע איינע גלייך ווידער עפענען.",
+    search: "זוכט לויטן טיטל אדער טעקסט פונעם מקור...",
+    allTypes: "אלע סארטן שפילן",
+    loadFailed: "מ'האט נישט געקענט לאדן אייער ביבליאטעק אויף דעם מכשיר.",
+    updateFailed: "מ'האט נישט געקענט דערהיינטיגן אייער ביבליאטעק.",
+    empty: "נאך נישטא קיין שפילן. שאפט איינע און זי וועט זיך באווייזן דא.",
+    noMatch: "קיין שפילן פאסן נישט צו אייער זוכעניש.",
+    saveName: "אפהיטן דעם נאמען",
+    fromSharedLink: "געעפנט פון א געשיקטן לינק",
+    open: "עפענען",
+    rename: "טוישן דעם נאמען",
+    duplicate: "קאפירן",
+    copyTitle: (title) => `${title} (קאפיע)`,
+    delete: "אויסמעקן",
+    confirmDelete: (title) => `אויסמעקן "${title}" פון אייער ביבליאטעק?`,
+  },
+
+  cache: {
+    title: "קאש פון געשאפענע שפילן",
+    summary: (games, size, hits) =>
+      `${plural(games, "איין אפגעהיטענע שפיל", "אפגעהיטענע שפילן")} · ${size} · ${plural(hits, "איין AI בקשה", "AI בקשות")} געשפארט`,
+    showEntries: "ווייזן די רשימה",
+    hideEntries: "באהאלטן די רשימה",
+    clear: "אויסליידיגן דעם קאש",
+    confirmClear: "אויסמעקן אלע אפגעהיטענע שפילן פונעם קאש? אייער ביבליאטעק ווערט נישט אנגערירט.",
+    unavailable: "דער קאש איז נישט פאראן אויף דעם מכשיר.",
+    updateFailed: "מ'האט נישט געקענט דערהיינטיגן דעם קאש.",
+    lastUsed: (date) => `לעצטנס גענוצט ${date}`,
+    removeEntry: "אראפנעמען פונעם קאש",
+  },
+
+  gameView: {
+    changeGame: "טוישן שפיל",
+    freshVariant: "נייע ווארסיע",
+    freshVariantTitle: "שאפט א נייע ווארסיע",
+    reshuffle: "נייע אויסמישונג",
+    reshuffleTitle: "מישט נאכאמאל אויס די קארטלעך, די ברירות און דעם ברעט (געטיילטע לינקס און דרוקן גייען מיט)",
+    edit: "רעדאגירן",
+    editTitle: "רעדאגירט די שפיל",
+    liveMode: "לייוו",
+    liveModeTitle: "הייבט אן א לייוו סעסיע",
+    print: "דרוקן",
+    printTitle: "דרוקט די שפיל",
+    share: "שיקט די שפיל",
+    saving: "היט אפ...",
+    copied: "קאפירט!",
+    shareFailed: "מ'האט נישט געקענט שאפן א לינק.",
+    copyPrompt: "קאפירט דעם לינק צו שיקן:",
+    printBlocked: "עס זעט אויס אז דרוקן איז בלאקירט. דריקט Ctrl+P (אדער Cmd+P) אויף דער קלאוויאטור צו דרוקן.",
+    fromCache: "די שפיל איז גענומען געווארן פון א פריערדיגער שאפונג פון דעם זעלבן אינהאלט, אן א נייער AI בקשה.",
+    generateFresh: "שאפט א נייע ווארסיע",
+    unsupported: "דער סארט שפיל ווערט נישט געשטיצט",
+    mentorHint: "נוצט די פונקטן צו פירן דעם שמועס מיט אייער תלמיד נאך דער שפיל.",
+  },
+
+  citations: {
+    fromKoivetz: "פונעם קובץ",
+    pageRef: (page) => `(זייט ${page})`,
+    sources: "מקורות",
+    unverified: (count) => count === 1
+      ? "איין פריט ציטירט טעקסט וואס מ'האט נישט געפונען אינעם קובץ. קוקט עס איבער פאר'ן שפילן."
+      : `${count} פריטים ציטירן טעקסט וואס מ'האט נישט געפונען אינעם קובץ. קוקט זיי איבער פאר'ן שפילן.`,
+    intro: "פון וואו אינעם קובץ יעדער פריט קומט.",
+    status: {
+      "found": "געפונען אינעם מקור",
+      "approximate": "ענליך צום מקור",
+      "not-found": "נישט געפונען אינעם מקור, ביטע קוקט איבער דעם פריט",
+      "unchecked": "מ'האט נישט געקענט פארגלייכן מיטן מקור",
+    },
+  },
+
+  live: {
+    connecting: "מ'פארבינדט זיך מיט דער לייוו סעסיע...",
+    notFound: "די סעסיע איז נישט געפונען געווארן",
+    backToMenu: "צוריק צום מעניו",
+    joinTitle: "שליסט זיך אן אין א לייוו שפיל",
+    yourName: "דיין נאמען",
+    namePlaceholder: "שרייב אריין דיין נאמען",
+    join: "שליסט זיך אן",
+    joinFailed: "מ'האט זיך נישט געקענט אנשליסן אין דער סעסיע",
+    waiting: "מ'ווארט אויף שפילער...",
+    shareHint: "שיקט דעם לינק אז די תלמידים זאלן זיך קענען אנשליסן.",
+    waitingForHost: "מ'ווארט אז דער בעל הבית זאל אנהייבן.",
+    copyLink: "קאפירט דעם לינק",
+    linkCopied: "דער איינלאדונג לינק איז קאפירט!",
+    startGame: "הייבט אן די שפיל",
+    playersJoined: (count) => `שפילער וואס האבן זיך אנגעשלאסן (${count})`,
+    noPlayers: "נאך נישטא קיין שפילער...",
+    host: "בעל הבית",
+    hostName: "דער פירער",
+    player: (name) => `שפילער: ${name}`,
+    guest: "גאסט",
+    hostPanel: "בעל הבית'ס קאנטראל",
+    solvingTogether: "איר לייזט אויף דעם רעטעניש צוזאמען מיט אייער תלמיד!",
+    playingTogether: "אלע שפילן אויף איין געמיינזאמען ברעט!",
+    playingIndependently: "די תלמידים שפילן יעדער אויף זיין אייגענעם מכשיר.",
+    watchPlayer: "דריקט אויף א תלמיד צו זען זיין ברעט.",
+    pickPlayerToWatch: "קלייבט א שפילער אויבן צו זען זיין ברעט.",
+    progressPlayer: "תלמיד",
+    progressItems: "פארשריט",
+    progressMistakes: "טעותים",
+    progressHints: "אנווייזונגען",
+    progressStatus: "מצב",
+    itemStatus: { done: "פארטיג", wrong: "געטעות", todo: "נאך נישט" },
+    finishedIn: (time) => `פארטיג אין ${time}`,
+    stuck: "שטעקט",
+    playing: "שפילט",
+    nextWord: "קומענדיגע ווארט",
+    deleteSession: "ענדיגן און אויסמעקן די סעסיע",
+    deleteConfirm: "ענדיגן די סעסיע פאר אלעמען און זי אויסמעקן? מען קען דאס נישט צוריקמאכן.",
+    deleteFailed: "מ'האט נישט געקענט אויסמעקן די סעסיע. פרובירט נאכאמאל.",
+    expired: "די סעסיע איז אויסגעגאנגען",
+    expiredBody: (hours) => `לייוו סעסיעס פארמאכן זיך ${hours} שעה נאכן אנהייבן. הייבט אן א נייע פונעם שפיל כדי ווייטער צו שפילן.`,
+    offline: "אפגעשניטן",
+    endSession: "ענדיגט די סעסיע",
+    notSupported: "די שפיל ווערט נאך נישט געשטיצט אין לייוו.",
+    next: "ווייטער",
+    finished: "די שפיל איז געענדיגט!",
+    exit: "ארויסגיין",
+    mode: "סארט שפיל",
+    modes: {
+      cooperative: { label: "צוזאמען", hint: "אלע ענטפערן צוזאמען; דער ערשטער ענטפער ציילט פאר דער גאנצער גרופע.", boardHint: "אלע שפילן אויף איין געמיינזאמען ברעט, און יעדער צוג ווייזט זיך אויף אלע מכשירים." },
+      competitive: { label: "פארמעסט", hint: "יעדער שפילער ענטפערט אליין. ריכטיגע ענטפערס ברענגען פונקטן, און שנעלערע ברענגען מער.", boardHint: "יעדער שפילער שפילט אויף זיין אייגענעם ברעט, און דער פירער קען קוקן אויף יעדן איינעם." },
+    },
+    reveal: "ווייזט די ענטפערס",
+    answersIn: (count, total) => `${count}/${total} האבן געענטפערט`,
+    pickAnswer: "קלייבט אייער ענטפער. וואס שנעלער איר ענטפערט ריכטיג, אלץ מער פונקטן!",
+    answerLocked: "דער ענטפער איז פארשלאסן! מען ווארט אז דער פירער זאל ווייזן...",
+    answerFailed: "מ'האט נישט געקענט שיקן אייער ענטפער. פרובירט נאכאמאל.",
+    revealFailed: "מ'האט נישט געקענט אנטפלעקן די ענטפערס. פרובירט נאכאמאל.",
+    nextQuestionFailed: "מ'האט נישט געקענט גיין צו דער קומענדיקער פראגע. פרובירט נאכאמאל.",
+    moveFailed: "מ'האט נישט געקענט שיקן אייער צוג. פרובירט נאכאמאל.",
+    correctPoints: (points) => `ריכטיג! +${points} פונקטן`,
+    wrongAnswer: "נישט דאס מאל. אויף דער קומענדיגער!",
+    noAnswer: "איר האט נישט געענטפערט אויף די פראגע.",
+    leaderboard: "טאבעלע",
+    points: (points) => `${points} פונקטן`,
+    pointsGained: (points) => `+${points}`,
+    you: "(איר)",
+  },
+
+  quiz: {
+    mazelTov: "מזל טוב!",
+    scored: (score, total) => `איר האט באקומען ${score} פון ${total}`,
+    bestStreak: (streak) => `🔥 בעסטע סעריע: ${streak} נאכאנאנד!`,
+    didYouKnow: "צי האט איר געוואוסט?",
+    trueFalse: { True: "ריכטיק", False: "פאלש" },
+  },
+
+  emoji: {
+    none: "מ'האט נישט געשאפן קיין עמאדזשי שאלות.",
+    expert: "איר זענט אן עמאדזשי מומחה!",
+    finalScore: (score, total) => `פונקטן: ${score} / ${total}`,
+    score: (score) => `פונקטן: ${score}`,
+    hint: "רמז:",
+    nextEmoji: "קומענדיגער עמאדזשי",
+  },
+
+  fillBlank: {
+    complete: "די מעשה איז פארענדיגט!",
+    completeBody: "איר האט ריכטיג אויסגעפילט אלע לעכער.",
+    wordBank: "ווערטער באנק (קליקט אדער שלעפט)",
+    allUsed: "אלע ווערטער זענען גענוצט! קוקט איבער אייערע תשובות.",
+    check: "קאנטראלירט מיין מעשה",
+    wrong: "עטליכע ווערטער שטייען נישט אויפן ריכטיגן ארט. פרובירט נאכאמאל!",
+  },
+
+  findMatch: {
+    title: "געפינט די איינע זאך וואס פאסט!",
+    score: (score) => `פונקטן: ${score}`,
+    versus: "קעגן",
+    tip: "גיך! די זאכן מישן זיך יעדעס מאל וואס איר געפינט א פארל.",
+  },
+
+  matching: {
+    allMatched: "אלעס צוגעפאסט!",
+    allMatchedBody: "יישר כח פארן פארבינדן די באגריפן.",
+    terms: "ווערטער",
+    definitions: "טייטשן",
+  },
+
+  memory: {
+    master: "א זכרון מייסטער!",
+  },
+
+  riddle: {
+    master: "א רעטענישן מייסטער!",
+    masterBody: "איר האט אויפגעלייזט אלע רעטענישן.",
+    none: "מ'האט נישט געפונען קיין רעטענישן.",
+    riddleOf: (number, total) => `רעטעניש ${number} פון ${total}`,
+    anotherClue: "נאך א רמז",
+    iKnowIt: "איך ווייס!",
+    answerIs: "די תשובה איז",
+    nextRiddle: "קומענדיגע רעטעניש",
+  },
+
+  sequence: {
+    solved: "די מעשה איז אויסגעשטעלט!",
+    solvedBody: "איר האט אלעס אויסגעשטעלט אין דעם ריכטיגן סדר.",
+    fullStory: "די גאנצע מעשה:",
+    instructions: "דריקט אויף צוויי קארטלעך זיי איבערצוביטן, ביז די מעשה איז אין סדר!",
+    swap: "איבערביטן",
+    check: "קאנטראלירט דעם סדר",
+    wrong: "נאך נישט גאנץ ריכטיג. פרובירט ווייטער!",
+  },
+
+  sorting: {
+    complete: "סארטירט!",
+    completeBody: "איר האט אלעס ריכטיג סארטירט.",
+  },
+
+  trivia: {
+    reachedEnd: "איר זענט אנגעקומען צום סוף!",
+    reachedEndBody: "איר האט איבערגעגאנגען דעם פרשה וועג.",
+    start: "אנהייב",
+    finish: "סוף",
+    ready: "גרייט ארויסצוגיין אין וועג?",
+    keepMoving: "יישר כח! גייט ווייטער!",
+    startGame: "הייבט אן די שפיל",
+    oops: "אוי! פרובירט נאכאמאל.",
+  },
+
+  unscramble: {
+    master: "א ווערטער מייסטער!",
+    masterBody: "איר האט אויסגעשטעלט אלע ווערטער.",
+    wordOf: (number, total) => `ווארט ${number} פון ${total}`,
+    hint: "💡 רמז:",
+    clickLetters: "קליקט אויף די אותיות אונטן",
+    correctWaiting: "ריכטיג! מ'ווארט אויפן בעל הבית...",
+    check: "קאנטראלירט די תשובה",
+    notQuite: "נישט גאנץ ריכטיג. פרובירט נאכאמאל!",
+  },
+
+  wordSearch: {
+    allFound: "איר האט זיי אלע געפונען!",
+    findWords: "געפינט די ווערטער:",
+    directions: {
+      easy: "די ווערטער גייען אין דער ברייט און אין דער לענג.",
+      medium: "די ווערטער גייען אין דער ברייט, אין דער לענג און דיאגאנאל.",
+      hard: "די ווערטער גייען אין אלע ריכטונגען, אפילו צוריק!",
+    },
+  },
+
+  crossword: {
+    layoutFailed: "מ'האט נישט געקענט אויסשטעלן דעם קרייצווארט. פרובירט נאכאמאל.",
+    solved: "דער קרייצווארט איז אויפגעלייזט!",
+    solvedBody: "איר האט ריכטיג אויסגעפילט דעם קרייצווארט.",
+    clues: "רמזים",
+    across: "האריזאנטאל",
+    down: "ווערטיקאל",
+    leftOut: (count) => (count === 1 ? "איין רמז איז נישט אריין אין קרייצווארט און איז אויסגעלאזט געווארן:" : `${count} רמזים זענען נישט אריין אין קרייצווארט און זענען אויסגעלאזט געווארן:`),
+    check: "קאנטראלירט דעם קרייצווארט",
+    notQuite: "נאך נישט גאנץ ריכטיג! פרובירט ווייטער.",
+    filledBy: (name) => `אויסגעפילט דורך ${name}`,
+  },
+
+  editor: {
+    discard: "אפזאגן די ענדערונגען",
+    editing: (label) => `מ'רעדאגירט ${label}`,
+    untitled: "שפיל אן א נאמען",
+    saveChanges: "אפהיטן די ענדערונגען",
+    fixProblems: "ביטע פארריכט די פראבלעמען פארן אפהיטן",
+    title: "טיטל",
+    instructions: "אנווייזונגען",
+    content: "אינהאלט פון דער שפיל",
+    regenerateFailed: "מ'האט נישט געקענט שאפן א נייעם פריט. פרובירט נאכאמאל.",
+    addDiscussionPoint: "צולייגן א שמועס־פונקט",
+    regenerate: "שאפט דעם פריט פון ניי",
+    regenerating: "מ'שרייבט א נייעם פריט...",
+    options: "ברירות (צייכנט אן די ריכטיגע)",
+    markCorrect: "אנצייכענען אלס ריכטיג",
+    removeOption: "אראפנעמען די ברירה",
+    addOption: "צולייגן א ברירה",
+    notEditable: "מ'קען נאך נישט רעדאגירן דעם סארט שפיל.",
+    question: "שאלה",
+    addQuestion: "צולייגן א שאלה",
+    statement: "זאץ",
+    explanation: "ערקלערונג (נישט מוז)",
+    pair: "פארל",
+    addPair: "צולייגן א פארל",
+    term: "ווארט",
+    definition: "טייטש",
+    sequenceHint: "שרייבט די טריט אין דעם ריכטיגן סדר. די שפילער וועלן זיי זען צעמישט.",
+    step: "טריט",
+    addStep: "צולייגן א טריט",
+    categories: "קאטעגאריעס",
+    addCategory: "צולייגן א קאטעגאריע",
+    item: "זאך",
+    addItem: "צולייגן א זאך",
+    category: "קאטעגאריע",
+    chooseCategory: "קלייבט א קאטעגאריע",
+    word: "ווארט",
+    addWord: "צולייגן א ווארט",
+    hint: "רמז",
+    wordsToFind: "ווערטער צו געפינען",
+    riddle: "רעטעניש",
+    addRiddle: "צולייגן א רעטעניש",
+    clues: "רמזים (ווערן באוויזן לויטן סדר)",
+    addClue: "צולייגן א רמז",
+    answer: "תשובה",
+    entry: "ווארט",
+    gridWord: "ווארט (נאר אותיות)",
+    clue: "רמז",
+    challenge: "אויפגאבע",
+    addChallenge: "צולייגן אן אויפגאבע",
+    emojis: "עמאדזשיס",
+    stop: "סטאנציע",
+    findMatchTerms: "ווערטער אויף די קארטלעך",
+    addTerm: "צולייגן א ווארט",
+    fillBlankHint: "די מעשה ווערט געוויזן מיט א לאך נאך יעדן שטיקל טעקסט, חוץ דעם לעצטן.",
+    text: (number) => `טעקסט ${number}`,
+    blank: (number) => `לאך ${number}`,
+    removeBlank: "אראפנעמען דעם לאך",
+    addBlank: "צולייגן א לאך און טעקסט",
+  },
+};
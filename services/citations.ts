@@ -0,0 +1,105 @@
+import { GameData, GameGenerationInput, SourceCitation } from "../types";
+import { ContentItem, getContentItems, replaceContentItem } from "./gameItems";
+
+/**
+ * Checks the quotes generated items cite against the source they were generated from, so items the
+ * model may have invented are flagged for the mentor.
+ */
+
+// Share of a quote's words that must appear on one page for a quote that isn't verbatim to count as a close match
+const APPROXIMATE_MATCH = 0.8;
+
+interface SourcePage {
+  // Page number, when the text came from a PDF read in the browser ("[Page n]" markers)
+  pageNumber?: number;
+  text: string;
+}
+
+interface SourceIndex {
+  pages: SourcePage[];
+  // Normalized text of all pages, to find quotes running over a page break
+  fullText: string;
+  // Some of the source (PDFs or photos sent as they are) can't be searched here
+  hasUnsearchableParts: boolean;
+}
+
+// Letters and digits only, in lower case, without Hebrew vowel points, cantillation or accents
+const normalize = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0591-\u05C7\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const PAGE_MARKER = /\[Page (\d+)\]\n/g;
+
+const buildSourceIndex = (input: GameGenerationInput): SourceIndex => {
+  const pages: SourcePage[] = [];
+
+  input.parts.forEach(part => {
+    if (part.type !== 'text') return;
+    const markers = [...part.value.matchAll(PAGE_MARKER)];
+    if (markers.length === 0) {
+      pages.push({ text: normalize(part.value) });
+      return;
+    }
+    pages.push({ text: normalize(part.value.slice(0, markers[0].index)) });
+    markers.forEach((marker, i) => {
+      const end = i + 1 < markers.length ? markers[i + 1].index : part.value.length;
+      pages.push({ pageNumber: Number(marker[1]), text: normalize(part.value.slice(marker.index + marker[0].length, end)) });
+    });
+  });
+
+  return {
+    pages: pages.filter(page => page.text),
+    fullText: pages.map(page => page.text).join(" "),
+    hasUnsearchableParts: input.parts.some(part => part.type === 'file'),
+  };
+};
+
+const checkQuote = (quote: string, source: SourceIndex): Pick<SourceCitation, 'sourceCheck' | 'sourcePage'> => {
+  const normalizedQuote = normalize(quote);
+  if (!normalizedQuote) return { sourceCheck: 'not-found' };
+
+  const exact = source.pages.find(page => page.text.includes(normalizedQuote));
+  if (exact) return { sourceCheck: 'found', sourcePage: exact.pageNumber };
+  if (source.fullText.includes(normalizedQuote)) return { sourceCheck: 'found' };
+
+  // Models often change a word or two when copying; count how many of the quote's words one page has
+  const words = normalizedQuote.split(" ");
+  let best: { page: SourcePage; share: number } | undefined;
+  source.pages.forEach(page => {
+    const pageWords = new Set(page.text.split(" "));
+    const share = words.filter(word => pageWords.has(word)).length / words.length;
+    if (!best || share > best.share) best = { page, share };
+  });
+  if (best && best.share >= APPROXIMATE_MATCH) return { sourceCheck: 'approximate', sourcePage: best.page.pageNumber };
+
+  return { sourceCheck: source.hasUnsearchableParts ? 'unchecked' : 'not-found' };
+};
+
+/**
+ * Returns the game with every cited item's `sourceCheck` set. Where the quote was found on a
+ * known page, `sourcePage` is set to that page (correcting the model's guess).
+ */
+export const verifyCitations = (game: GameData, input: GameGenerationInput): GameData => {
+  const source = buildSourceIndex(input);
+
+  return getContentItems(game).reduce<GameData>((verified, item, index) => {
+    if (typeof item !== 'object' || !('sourceQuote' in item) || !item.sourceQuote?.trim()) return verified;
+
+    let check: Pick<SourceCitation, 'sourceCheck' | 'sourcePage'> = { sourceCheck: 'unchecked' };
+    if (source.pages.length > 0) {
+      const result = checkQuote(item.sourceQuote, source);
+      const page = result.sourcePage ?? item.sourcePage;
+      // Firestore rejects fields set to undefined, so pasted text (no pages) gets no sourcePage at all
+      check = { sourceCheck: result.sourceCheck, ...(page !== undefined ? { sourcePage: page } : {}) };
+    }
+    return replaceContentItem(verified, index, { ...item, ...check } as ContentItem);
+  }, game);
+};
+
+// Items whose quote doesn't appear in the source; worth checking before playing
+export const countUnverifiedItems = (game: GameData): number =>
+  getContentItems(game).filter(item => typeof item === 'object' && (item as SourceCitation).sourceCheck === 'not-found').length;
@@ -0,0 +1,240 @@
+import { createRandom, seedFromText, shuffle } from "./random";
+
+/**
+ * Crossword layout: fits the answers into one connected grid. Several word orders are tried and the
+ * layout placing the most words, then the best scored one (crossings and compactness), is kept.
+ * Clues are numbered the standard way: numbers run row by row and an across and a down answer
+ * starting in the same cell share a number.
+ */
+
+export type CrosswordDirection = "across" | "down";
+
+export interface CrosswordEntry {
+  // Index of the answer in the words passed to layoutCrossword
+  index: number;
+  word: string;
+  row: number;
+  col: number;
+  direction: CrosswordDirection;
+  number: number;
+}
+
+export interface CrosswordLayout {
+  rows: number;
+  cols: number;
+  // Ordered by clue number, across before down
+  entries: CrosswordEntry[];
+  // Indices of the words that could not cross any other word
+  unplaced: number[];
+}
+
+export interface CrosswordLayoutOptions {
+  // Word orders to try; the first one is always longest word first
+  attempts?: number;
+  // Defaults to a hash of the words, so the same words always give the same grid
+  seed?: number;
+  // Used instead of `seed` when `seed` leaves words out, e.g. the seed every word was placed with when the game was made
+  fallbackSeed?: number;
+  // Largest number of rows or columns the grid may grow to
+  maxSize?: number;
+}
+
+const DEFAULT_ATTEMPTS = 40;
+const DEFAULT_MAX_SIZE = 17;
+
+interface Placement {
+  index: number;
+  word: string;
+  row: number;
+  col: number;
+  direction: CrosswordDirection;
+}
+
+interface Bounds {
+  minRow: number;
+  maxRow: number;
+  minCol: number;
+  maxCol: number;
+}
+
+const cellKey = (row: number, col: number) => `${row},${col}`;
+
+const step = (direction: CrosswordDirection) => (direction === "across" ? [0, 1] : [1, 0]);
+
+const area = (b: Bounds) => (b.maxRow - b.minRow + 1) * (b.maxCol - b.minCol + 1);
+
+// The board while a layout is being built: letters, and which directions already run through each cell
+class Board {
+  readonly letters = new Map<string, string>();
+  readonly runs = new Map<string, Set<CrosswordDirection>>();
+  readonly placements: Placement[] = [];
+  crossings = 0;
+  bounds: Bounds | null = null;
+
+  letterAt(row: number, col: number) {
+    return this.letters.get(cellKey(row, col));
+  }
+
+  place(placement: Placement, crossings: number) {
+    const [dr, dc] = step(placement.direction);
+    Array.from(placement.word).forEach((letter, i) => {
+      const key = cellKey(placement.row + dr * i, placement.col + dc * i);
+      this.letters.set(key, letter);
+      if (!this.runs.has(key)) this.runs.set(key, new Set());
+      this.runs.get(key)!.add(placement.direction);
+    });
+    this.placements.push(placement);
+    this.crossings += crossings;
+    this.bounds = this.extend(placement);
+  }
+
+  // The bounds after adding a placement
+  extend({ word, row, col, direction }: Placement): Bounds {
+    const [dr, dc] = step(direction);
+    const endRow = row + dr * (word.length - 1);
+    const endCol = col + dc * (word.length - 1);
+    const b = this.bounds ?? { minRow: row, maxRow: endRow, minCol: col, maxCol: endCol };
+    return {
+      minRow: Math.min(b.minRow, row),
+      maxRow: Math.max(b.maxRow, endRow),
+      minCol: Math.min(b.minCol, col),
+      maxCol: Math.max(b.maxCol, endCol),
+    };
+  }
+
+  /**
+   * The number of crossings if the word fits here, or -1. A word may only share cells with words
+   * running the other way, and must not touch any other letter side by side or end to end.
+   */
+  crossingsAt({ word, row, col, direction }: Placement): number {
+    const [dr, dc] = step(direction);
+    if (this.letterAt(row - dr, col - dc) || this.letterAt(row + dr * word.length, col + dc * word.length)) return -1;
+
+    let crossings = 0;
+    for (let i = 0; i < word.length; i++) {
+      const r = row + dr * i;
+      const c = col + dc * i;
+      const existing = this.letterAt(r, c);
+      if (existing) {
+        if (existing !== word[i] || this.runs.get(cellKey(r, c))!.has(direction)) return -1;
+        crossings++;
+      } else if (this.letterAt(r + dc, c + dr) || this.letterAt(r - dc, c - dr)) {
+        return -1;
+      }
+    }
+    return crossings;
+  }
+
+  // Every position where the word crosses at least one placed word
+  candidates(index: number, word: string, maxSize: number): { placement: Placement; crossings: number }[] {
+    const found = new Map<string, { placement: Placement; crossings: number }>();
+    for (const other of this.placements) {
+      const direction: CrosswordDirection = other.direction === "across" ? "down" : "across";
+      const [odr, odc] = step(other.direction);
+      const [dr, dc] = step(direction);
+      for (let j = 0; j < other.word.length; j++) {
+        for (let i = 0; i < word.length; i++) {
+          if (other.word[j] !== word[i]) continue;
+          const placement = { index, word, direction, row: other.row + odr * j - dr * i, col: other.col + odc * j - dc * i };
+          const key = `${placement.row},${placement.col},${direction}`;
+          if (found.has(key)) continue;
+
+          const b = this.extend(placement);
+          if (b.maxRow - b.minRow + 1 > maxSize || b.maxCol - b.minCol + 1 > maxSize) continue;
+          const crossings = this.crossingsAt(placement);
+          if (crossings > 0) found.set(key, { placement, crossings });
+        }
+      }
+    }
+    return Array.from(found.values());
+  }
+}
+
+// Prefers positions with more crossings that grow the grid the least, keeping it close to square
+const placementScore = (board: Board, placement: Placement, crossings: number): number => {
+  const before = board.bounds!;
+  const after = board.extend(placement);
+  const rows = after.maxRow - after.minRow + 1;
+  const cols = after.maxCol - after.minCol + 1;
+  return crossings * 10 - (area(after) - area(before)) / placement.word.length - Math.abs(rows - cols);
+};
+
+// Placed words first, then crossings and the share of the grid that is filled
+const layoutScore = (board: Board): number => {
+  const filled = board.letters.size / area(board.bounds!);
+  return board.placements.length * 1000 + board.crossings * 10 + filled * 50;
+};
+
+// Places the words in the given order; words with nothing to cross yet are retried once others are in
+const buildLayout = (words: string[], order: number[], random: () => number, maxSize: number): Board => {
+  const board = new Board();
+  const [first, ...rest] = order;
+  board.place({ index: first, word: words[first], row: 0, col: 0, direction: random() < 0.5 ? "across" : "down" }, 0);
+
+  let pending = rest;
+  let progress = true;
+  while (pending.length > 0 && progress) {
+    progress = false;
+    const waiting: number[] = [];
+    for (const index of pending) {
+      let best: { placement: Placement; score: number } | null = null;
+      for (const { placement, crossings } of board.candidates(index, words[index], maxSize)) {
+        // A little noise lets attempts with the same order still end up differently
+        const score = placementScore(board, placement, crossings) + random() * 0.5;
+        if (!best || score > best.score) best = { placement, score };
+      }
+      if (best) {
+        board.place(best.placement, board.crossingsAt(best.placement));
+        progress = true;
+      } else {
+        waiting.push(index);
+      }
+    }
+    pending = waiting;
+  }
+  return board;
+};
+
+export const layoutCrossword = (words: string[], options: CrosswordLayoutOptions = {}): CrosswordLayout => {
+  const usable = words.map((word, index) => ({ word, index })).filter(({ word }) => word.length > 0);
+  if (usable.length === 0) return { rows: 0, cols: 0, entries: [], unplaced: words.map((_, i) => i) };
+
+  const longest = Math.max(...usable.map(({ word }) => word.length));
+  const maxSize = Math.max(options.maxSize ?? DEFAULT_MAX_SIZE, longest);
+  const random = createRandom(options.seed ?? seedFromText(words.join("|")));
+  const byLength = [...usable].sort((a, b) => b.word.length - a.word.length).map(({ index }) => index);
+
+  const attempts = options.attempts ?? DEFAULT_ATTEMPTS;
+  let best: Board | null = null;
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const order = attempt === 0 ? byLength : shuffle(byLength, random);
+    const board = buildLayout(words, order, random, maxSize);
+    if (!best || layoutScore(board) > layoutScore(best)) best = board;
+    if (best.placements.length === usable.length && attempt >= attempts / 4 && best.crossings >= usable.length) break;
+  }
+
+  if (best!.placements.length < usable.length && options.fallbackSeed !== undefined && options.fallbackSeed !== options.seed) {
+    return layoutCrossword(words, { ...options, seed: options.fallbackSeed, fallbackSeed: undefined });
+  }
+
+  const { minRow, maxRow, minCol, maxCol } = best!.bounds!;
+  const placed = new Set(best!.placements.map(p => p.index));
+  return {
+    rows: maxRow - minRow + 1,
+    cols: maxCol - minCol + 1,
+    entries: numberEntries(best!.placements.map(p => ({ ...p, row: p.row - minRow, col: p.col - minCol }))),
+    unplaced: words.map((_, i) => i).filter(i => !placed.has(i)),
+  };
+};
+
+// Numbers start cells row by row; an across and a down answer starting in the same cell share the number
+const numberEntries = (placements: Placement[]): CrosswordEntry[] => {
+  const sorted = [...placements].sort((a, b) =>
+    a.row - b.row || a.col - b.col || (a.direction === "across" ? -1 : 1));
+  const numbers = new Map<string, number>();
+  return sorted.map(p => {
+    const key = cellKey(p.row, p.col);
+    if (!numbers.has(key)) numbers.set(key, numbers.size + 1);
+    return { ...p, number: numbers.get(key)! };
+  });
+};
@@ -0,0 +1,114 @@
+/**
+ * Shared error model. Services translate whatever their SDK throws (Gemini, Firestore, IndexedDB)
+ * into one of these, so callers can decide what to retry and which recovery to offer the user
+ * without reading error messages.
+ */
+
+export class AppError extends Error {
+  constructor(message: string, readonly retryable: boolean, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "AppError";
+  }
+}
+
+// Missing, invalid or unauthorized API key
+export class AuthError extends AppError {
+  constructor(message = "Invalid API Key. Please select a billing-enabled API key to continue.", options?: ErrorOptions) {
+    super(message, false, options);
+    this.name = "AuthError";
+  }
+}
+
+// Rate limit or usage quota exhausted
+export class QuotaError extends AppError {
+  constructor(message = "The AI service is busy right now. Please wait a moment and try again.", options?: ErrorOptions) {
+    super(message, true, options);
+    this.name = "QuotaError";
+  }
+}
+
+// The request never got an answer (offline, DNS, connection reset, timed out...)
+export class NetworkError extends AppError {
+  constructor(message = "Couldn't reach the AI service. Please check your internet connection.", options?: ErrorOptions) {
+    super(message, true, options);
+    this.name = "NetworkError";
+  }
+}
+
+// Content that breaks the rules the games rely on; `violations` lists the problems found
+export class ValidationError extends AppError {
+  constructor(message: string, readonly violations: string[], options?: ErrorOptions) {
+    super(message, false, options);
+    this.name = "ValidationError";
+  }
+}
+
+// A game, session or library entry that doesn't exist (any more)
+export class NotFoundError extends AppError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, false, options);
+    this.name = "NotFoundError";
+  }
+}
+
+// The backend refused the operation (e.g. Firestore security rules)
+export class PermissionError extends AppError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, false, options);
+    this.name = "PermissionError";
+  }
+}
+
+// --- Generation specific ---
+
+// The provider failed on its side (HTTP 5xx)
+export class ServiceUnavailableError extends AppError {
+  constructor(options?: ErrorOptions) {
+    super("The AI service is temporarily unavailable. Please try again shortly.", true, options);
+    this.name = "ServiceUnavailableError";
+  }
+}
+
+export class GenerationTimeoutError extends AppError {
+  constructor(readonly timeoutMs: number) {
+    super(`The AI didn't finish within ${Math.round(timeoutMs / 1000)} seconds.`, true);
+    this.name = "GenerationTimeoutError";
+  }
+}
+
+export class EmptyResponseError extends AppError {
+  constructor() {
+    super("The AI returned an empty response.", true);
+    this.name = "EmptyResponseError";
+  }
+}
+
+// The response is not parseable JSON (e.g. cut off mid-way)
+export class InvalidResponseError extends AppError {
+  constructor(options?: ErrorOptions) {
+    super("The AI returned a response that isn't valid game data.", true, options);
+    this.name = "InvalidResponseError";
+  }
+}
+
+// The provider rejected the request itself (other HTTP 4xx); sending it again won't help
+export class RequestError extends AppError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, false, options);
+    this.name = "RequestError";
+  }
+}
+
+// Thrown when the caller aborted the generation; not an error to show to the user
+export class GenerationCancelledError extends AppError {
+  constructor() {
+    super("Generation was cancelled.", false);
+    this.name = "GenerationCancelledError";
+  }
+}
+
+export const isRetryable = (error: unknown): boolean => error instanceof AppError && error.retryable;
+
+// Typed errors pass through; anything unexpected becomes a non-retryable AppError with a readable message
+export const toAppError = (error: unknown, fallbackMessage: string): AppError =>
+  error instanceof AppError ? error : new AppError(fallbackMessage, false, { cause: error });
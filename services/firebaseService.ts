@@ -1,6 +1,10 @@
 import { initializeApp } from "firebase/app";
-import { getFirestore, doc, setDoc, getDoc, collection, onSnapshot, updateDoc } from "firebase/firestore";
+import { getFirestore, doc, setDoc, getDoc, getDocs, deleteDoc, collection, onSnapshot, updateDoc, runTransaction, serverTimestamp, increment, arrayUnion, FieldPath, FirestoreError, Timestamp } from "firebase/firestore";
 import { GameData } from "../types";
+import { AppError, NetworkError, NotFoundError, PermissionError, QuotaError } from "./errors";
+import type { ProgressEvent } from "./liveProgress";
+import { SESSION_TTL_MS, forgetSession, rememberSession, takeExpiredHostedSessions } from "./liveSessions";
+import { scoreAnswers } from "./liveScoring";
 
 // Your web app's Firebase configuration
 // These will be loaded from environment variables
@@ -17,10 +21,12 @@ const firebaseConfig = {
 const app = initializeApp(firebaseConfig);
 const db = getFirestore(app);
 
+const UNREACHABLE_MESSAGE = "Couldn't reach the game database. Please check your internet connection.";
+
 // Helper to enforce timeouts
 const withTimeout = <T>(promise: Promise<T>, ms: number = 5000): Promise<T> => {
   return new Promise((resolve, reject) => {
-    const timer = setTimeout(() => reject(new Error("Operation timed out - Check Internet or Firebase Config")), ms);
+    const timer = setTimeout(() => reject(new NetworkError(UNREACHABLE_MESSAGE)), ms);
     promise.then(
       (res) => { clearTimeout(timer); resolve(res); },
       (err) => { clearTimeout(timer); reject(err); }
@@ -28,6 +34,38 @@ const withTimeout = <T>(promise: Promise<T>, ms: number = 5000): Promise<T> => {
   });
 };
 
+// Translates a Firestore failure into the shared error model (see services/errors.ts)
+const toStorageError = (error: unknown, notFoundMessage = "That game or session no longer exists."): AppError => {
+  if (error instanceof AppError) return error;
+  if (!(error instanceof FirestoreError)) {
+    return new AppError("Something went wrong with the game database.", false, { cause: error });
+  }
+
+  switch (error.code) {
+    case 'not-found':
+      return new NotFoundError(notFoundMessage, { cause: error });
+    case 'permission-denied':
+    case 'unauthenticated':
+      return new PermissionError("The game database refused this request. Check the Firebase security rules.", { cause: error });
+    case 'resource-exhausted':
+      return new QuotaError("The game database is over its usage limit. Please try again later.", { cause: error });
+    case 'unavailable':
+    case 'deadline-exceeded':
+      return new NetworkError(UNREACHABLE_MESSAGE, { cause: error });
+    default:
+      return new AppError("Something went wrong with the game database.", false, { cause: error });
+  }
+};
+
+// Awaits a Firestore operation, rethrowing failures as typed errors
+const guard = async <T>(operation: Promise<T>, notFoundMessage?: string): Promise<T> => {
+  try {
+    return await operation;
+  } catch (error) {
+    throw toStorageError(error, notFoundMessage);
+  }
+};
+
 export const saveGameToDatabase = async (gameData: GameData): Promise<string> => {
   try {
     console.log("Saving to Firebase...", firebaseConfig.projectId);
@@ -44,78 +82,218 @@ export const saveGameToDatabase = async (gameData: GameData): Promise<string> =>
     return shortId;
   } catch (error) {
     console.error("Error saving game to database:", error);
-    throw new Error("Failed to save game");
+    throw toStorageError(error);
   }
 };
 
-export const getGameFromDatabase = async (gameId: string): Promise<GameData | null> => {
-  try {
-    const gameRef = doc(db, "games", gameId);
-    const docSnap = await getDoc(gameRef);
+export const getGameFromDatabase = async (gameId: string): Promise<GameData> => {
+  const gameRef = doc(db, "games", gameId);
+  const docSnap = await guard(withTimeout(getDoc(gameRef)));
 
-    if (docSnap.exists()) {
-      return docSnap.data() as GameData;
-    } else {
-      console.log("No such game!");
-      return null;
-    }
-  } catch (error) {
-    console.error("Error getting game:", error);
-    return null;
+  if (!docSnap.exists()) {
+    throw new NotFoundError("This shared game was not found. It may have expired.");
   }
+  return docSnap.data() as GameData;
 };
 
 // --- Live Play Features ---
 
+export interface LivePlayer {
+  name: string;
+  score: number;
+  // Points won on the last revealed question, for the leaderboard
+  lastPoints?: number;
+}
+
+// A player's presence, kept in the session's presence subcollection (one document per player) so
+// heartbeats don't all land on the session document the games write to
+export interface LivePresence {
+  // Refreshed by the player's heartbeat, and set to false when they leave the page
+  lastSeen?: Timestamp | null;
+  connected?: boolean;
+  // Pushed on by every heartbeat; the same TTL policy as sessions deletes presence a session left behind
+  expiresAt?: Timestamp;
+}
+
+// One player's answer to the current question; the time is set by the server so every device is judged alike
+export interface LiveAnswer {
+  option: string;
+  answeredAt: Timestamp | null;
+}
+
+export type LiveQuizMode = 'cooperative' | 'competitive';
+
+// One player's progress through a competitive board game, built up from their progress events
+export interface LiveProgress {
+  // Status of each item the player has worked on; items not listed are still to do
+  items?: Record<string, 'done' | 'wrong'>;
+  mistakes?: number;
+  hints?: number;
+  // Wrong answers since the last solved item
+  mistakeStreak?: number;
+  lastProgressAt?: Timestamp | null;
+  finishedAt?: Timestamp | null;
+}
+
 export interface LiveSessionState {
   status: 'waiting' | 'active' | 'finished';
+  // Sessions can't be joined or played after this; a Firestore TTL policy on the field deletes them
+  expiresAt?: Timestamp;
   currentQuestionIndex: number;
-  players: Record<string, { score: number; name: string }>;
+  players: Record<string, LivePlayer>;
   hostId: string;
   gameData?: GameData;
   sharedAnswer?: string | null; // For cooperative/mirrored play
   answerFeedback?: boolean | null; // true=correct, false=wrong, null=none
   boardState?: Record<string, any>; // Generic state for board games (Crossword inputs, etc.)
+  // Crossword: who last wrote each cell, by cell key (see setCrosswordCell)
+  cellAuthors?: Record<string, string>;
+  // Quiz games only; cooperative unless the host picks competitive in the lobby
+  mode?: LiveQuizMode;
+  // Competitive quiz: answers to the current question by player id, hidden until the host reveals them
+  answers?: Record<string, LiveAnswer>;
+  revealed?: boolean;
+  questionStartedAt?: Timestamp | null;
+  // Competitive board games: each player's own game state by player id (cooperative ones share boardState)
+  playerStates?: Record<string, Record<string, any>>;
+  // Competitive board games: each player's progress by player id, for the host's dashboard
+  progress?: Record<string, LiveProgress>;
 }
 
-// ...existing code...
+const SESSION_NOT_FOUND = "This live session has ended or doesn't exist.";
+const ANSWERS_CLOSED = "The answers to this question have already been revealed.";
 
-export const updateBoardState = async (sessionId: string, updates: Record<string, any>) => {
-  const sessionRef = doc(db, "sessions", sessionId);
-  // We use "merge" strategy logic by sending specific fields if we were using dot notation
-  // But here we might want to update the whole boardState object map or specific keys
-  // For simplicity, let's assume we pass the FULL new state or we use dot notation for keys
-  
-  // Actually, for a crossword, we want to update specific cells without overwriting others
-  // updates object should look like { "boardState.0-1": "A", "boardState.2-3": "B" }
+/**
+ * A change to a game's state in a session. A plain object is written field by field, so changes to
+ * different fields never overwrite each other. An updater function runs in a transaction on the
+ * latest state and returns the fields to change (or null for none), so moves from several players
+ * at once are applied one after the other instead of the last one winning.
+ */
+export type StateUpdate = Record<string, any> | ((current: Record<string, any>) => Record<string, any> | null);
+
+const fieldUpdates = (path: string, updates: Record<string, any>): Record<string, any> => {
   const firebaseUpdates: Record<string, any> = {};
   Object.keys(updates).forEach(key => {
-    firebaseUpdates[`boardState.${key}`] = updates[key];
+    firebaseUpdates[`${path}.${key}`] = updates[key];
   });
-  
-  await updateDoc(sessionRef, firebaseUpdates);
+  return firebaseUpdates;
+};
+
+// Applies a StateUpdate to the state map at `path` (e.g. "boardState")
+const updateStateAt = async (sessionId: string, path: string, update: StateUpdate) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  if (typeof update !== "function") {
+    await guard(updateDoc(sessionRef, fieldUpdates(path, update)), SESSION_NOT_FOUND);
+    return;
+  }
+
+  await guard(runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(sessionRef);
+    if (!snapshot.exists()) throw new NotFoundError(SESSION_NOT_FOUND);
+    const current = path.split(".").reduce<any>((value, key) => value?.[key], snapshot.data()) || {};
+    const updates = update(current);
+    if (updates && Object.keys(updates).length > 0) transaction.update(sessionRef, fieldUpdates(path, updates));
+  }), SESSION_NOT_FOUND);
+};
+
+// The shared state of a cooperative game
+export const updateBoardState = (sessionId: string, update: StateUpdate) =>
+  updateStateAt(sessionId, "boardState", update);
+
+// One player's own state in a competitive game
+export const updatePlayerState = (sessionId: string, playerId: string, update: StateUpdate) =>
+  updateStateAt(sessionId, `playerStates.${playerId}`, update);
+
+// Crossword: one cell's letter, and who wrote it last (a player id, or "host")
+export const setCrosswordCell = async (sessionId: string, key: string, value: string, authorId: string) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  await guard(updateDoc(sessionRef, {
+    [`boardState.${key}`]: value,
+    [`cellAuthors.${key}`]: authorId
+  }), SESSION_NOT_FOUND);
+};
+
+// Word search: the grid is dealt once; a second device that built one too keeps the first
+export const setWordSearchGrid = (sessionId: string, grid: string) =>
+  updateBoardState(sessionId, board => board.grid ? null : { grid });
+
+// Word search: found words are added to the list on the server, so two finds at once both count
+export const addFoundWord = async (sessionId: string, word: string) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  await guard(updateDoc(sessionRef, { "boardState.foundWords": arrayUnion(word) }), SESSION_NOT_FOUND);
+};
+
+// Adds one progress event to a player's progress; counters are incremented on the server so no event is lost
+export const reportProgress = async (sessionId: string, playerId: string, event: ProgressEvent) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  // Item ids come from the generated game and may contain dots, so each key is its own path segment
+  const updates: [FieldPath, unknown][] = [];
+  const set = (value: unknown, ...keys: string[]) => updates.push([new FieldPath("progress", playerId, ...keys), value]);
+  switch (event.type) {
+    case "completed":
+      event.items.forEach(item => set("done", "items", item));
+      set(0, "mistakeStreak");
+      set(serverTimestamp(), "lastProgressAt");
+      break;
+    case "mistake":
+      event.items?.forEach(item => set("wrong", "items", item));
+      set(increment(1), "mistakes");
+      set(increment(1), "mistakeStreak");
+      break;
+    case "hint":
+      set(increment(1), "hints");
+      break;
+    case "finished":
+      set(serverTimestamp(), "finishedAt");
+      break;
+  }
+  const [[field, value], ...rest] = updates;
+  await guard(updateDoc(sessionRef, field, value, ...rest.flat()), SESSION_NOT_FOUND);
 };
 
 export const createLiveSession = async (gameData: GameData, hostName: string): Promise<string> => {
   const sessionId = Math.random().toString(36).substring(2, 8).toUpperCase();
   const sessionRef = doc(db, "sessions", sessionId);
+  // The host id doubles as the host's token: it is kept on this device so the host can reload and reclaim the session
+  const hostId = Math.random().toString(36).substring(2);
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+
+  // Clear out this device's old sessions; the TTL policy would get to them eventually too
+  takeExpiredHostedSessions().forEach(oldId => {
+    deleteSessionDocuments(oldId).catch(err => console.warn("Couldn't delete expired session", oldId, err));
+  });
   
-  await withTimeout(setDoc(sessionRef, {
+  await guard(withTimeout(setDoc(sessionRef, {
     gameData,
     status: 'waiting',
     currentQuestionIndex: 0,
-    hostId: Math.random().toString(36).substring(2),
+    hostId,
+    expiresAt: Timestamp.fromMillis(expiresAt),
     players: {},
     createdAt: new Date().toISOString(),
     sharedAnswer: null,
     answerFeedback: null,
     boardState: {} // Initialize to avoid undefined issues
-  }));
+  })));
 
+  rememberSession(sessionId, { hostId, expiresAt });
   return sessionId;
 };
 
-export const subscribeToSession = (sessionId: string, callback: (data: any) => void) => {
+// Ends the session for everyone: players' subscriptions see it disappear
+// Firestore doesn't delete subcollections with their document, so the players' presence goes first
+const deleteSessionDocuments = async (sessionId: string) => {
+  const presence = await getDocs(collection(db, "sessions", sessionId, "presence"));
+  await Promise.all(presence.docs.map(player => deleteDoc(player.ref)));
+  await deleteDoc(doc(db, "sessions", sessionId));
+};
+
+export const deleteLiveSession = async (sessionId: string) => {
+  await guard(deleteSessionDocuments(sessionId), SESSION_NOT_FOUND);
+  forgetSession(sessionId);
+};
+
+export const subscribeToSession = (sessionId: string, callback: (data: any) => void, onError?: (error: AppError) => void) => {
   const sessionRef = doc(db, "sessions", sessionId);
   return onSnapshot(sessionRef, (doc) => {
     if (doc.exists()) {
@@ -123,12 +301,15 @@ export const subscribeToSession = (sessionId: string, callback: (data: any) => v
     } else {
       callback(null); // Handle session closed/deleted
     }
+  }, (error) => {
+    console.error("Live session subscription error:", error);
+    onError?.(toStorageError(error, SESSION_NOT_FOUND));
   });
 };
 
 export const updateSessionState = async (sessionId: string, updates: Partial<LiveSessionState>) => {
   const sessionRef = doc(db, "sessions", sessionId);
-  await updateDoc(sessionRef, updates);
+  await guard(updateDoc(sessionRef, updates), SESSION_NOT_FOUND);
 };
 
 export const joinSession = async (sessionId: string, playerName: string): Promise<string> => {
@@ -136,19 +317,89 @@ export const joinSession = async (sessionId: string, playerName: string): Promis
   const playerId = Math.random().toString(36).substring(2);
   
   // Use dot notation to update a specific key in the map without overwriting
-  await updateDoc(sessionRef, {
+  await guard(updateDoc(sessionRef, {
     [`players.${playerId}`]: {
       name: playerName,
       score: 0
     }
-  });
+  }), SESSION_NOT_FOUND);
 
+  // Lets the player rejoin as themselves after a reload
+  rememberSession(sessionId, { playerId, playerName });
   return playerId;
 };
 
+// The player's heartbeat while their page is open, and the last word when it closes
+export const markPresence = async (sessionId: string, playerId: string, connected: boolean) => {
+  const presenceRef = doc(db, "sessions", sessionId, "presence", playerId);
+  await guard(setDoc(presenceRef, {
+    lastSeen: serverTimestamp(),
+    connected,
+    expiresAt: Timestamp.fromMillis(Date.now() + SESSION_TTL_MS)
+  }), SESSION_NOT_FOUND);
+};
+
+// Every player's presence by player id, for the host's view of who is still there
+export const subscribeToPresence = (sessionId: string, callback: (presence: Record<string, LivePresence>) => void) => {
+  return onSnapshot(collection(db, "sessions", sessionId, "presence"), (snapshot) => {
+    const presence: Record<string, LivePresence> = {};
+    snapshot.docs.forEach(player => { presence[player.id] = player.data() as LivePresence; });
+    callback(presence);
+  }, (error) => {
+    console.error("Live presence subscription error:", error);
+  });
+};
+
+// Starts a competitive question (the first one too): clears the answers and restarts the clock
+export const startQuestion = async (sessionId: string, updates: Partial<LiveSessionState> = {}) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  await guard(updateDoc(sessionRef, {
+    ...updates,
+    answers: {},
+    revealed: false,
+    questionStartedAt: serverTimestamp()
+  }), SESSION_NOT_FOUND);
+};
+
+// Checked against the session in a transaction, so no answer gets in after the reveal has scored them
+export const submitAnswer = async (sessionId: string, playerId: string, option: string) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  await guard(runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(sessionRef);
+    if (!snapshot.exists()) throw new NotFoundError(SESSION_NOT_FOUND);
+    if ((snapshot.data() as LiveSessionState).revealed) throw new AppError(ANSWERS_CLOSED, false);
+    transaction.update(sessionRef, {
+      [`answers.${playerId}`]: { option, answeredAt: serverTimestamp() }
+    });
+  }), SESSION_NOT_FOUND);
+};
+
+// Shows the answers to everyone and adds the question's points in one write. The answers are scored
+// from the session as the transaction reads it, so one that came in just before the reveal still counts.
+export const revealAnswers = async (sessionId: string) => {
+  const sessionRef = doc(db, "sessions", sessionId);
+  await guard(runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(sessionRef);
+    if (!snapshot.exists()) throw new NotFoundError(SESSION_NOT_FOUND);
+    const session = snapshot.data() as LiveSessionState;
+    // A second click, or a second host tab, must not award the same question twice
+    if (session.revealed) return;
+    const question = session.gameData?.quizContent?.[session.currentQuestionIndex];
+    if (!question) return;
+    const points = scoreAnswers(session.answers || {}, question.correctAnswer, session.questionStartedAt?.toMillis());
+    const updates: Record<string, any> = { revealed: true };
+    Object.keys(session.players || {}).forEach(playerId => {
+      const won = points[playerId] ?? 0;
+      updates[`players.${playerId}.score`] = increment(won);
+      updates[`players.${playerId}.lastPoints`] = won;
+    });
+    transaction.update(sessionRef, updates);
+  }), SESSION_NOT_FOUND);
+};
+
 export const updatePlayerScore = async (sessionId: string, playerId: string, newScore: number) => {
   const sessionRef = doc(db, "sessions", sessionId);
-  await updateDoc(sessionRef, {
+  await guard(updateDoc(sessionRef, {
     [`players.${playerId}.score`]: newScore
-  });
+  }), SESSION_NOT_FOUND);
 };
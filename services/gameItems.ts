@@ -0,0 +1,110 @@
+import {
+  GameData,
+  QuizItem,
+  MatchingItem,
+  SequenceItem,
+  SortingItem,
+  UnscrambleItem,
+  RiddleItem,
+  CrosswordItem,
+  EmojiChallengeItem,
+  TriviaTrailItem
+} from "../types";
+import { GAME_TYPE_SPECS } from "./gameSchema";
+
+/**
+ * Uniform access to the individual items of a game's content, whatever its type.
+ * Used to regenerate a single item without touching the rest of the game.
+ */
+
+// Fill in the Blank content is split per blank: the text leading up to it and the missing word
+export interface FillBlankSlot {
+  storySegment: string;
+  missingWord: string;
+}
+
+export type ContentItem =
+  | QuizItem
+  | MatchingItem
+  | SequenceItem
+  | SortingItem
+  | UnscrambleItem
+  | RiddleItem
+  | CrosswordItem
+  | EmojiChallengeItem
+  | TriviaTrailItem
+  | FillBlankSlot
+  | string;
+
+export const getContentItems = (game: GameData): ContentItem[] => {
+  const { contentKey } = GAME_TYPE_SPECS[game.type];
+
+  switch (contentKey) {
+    case 'sortingContent':
+      return game.sortingContent?.items ?? [];
+    case 'fillBlankContent': {
+      const content = game.fillBlankContent;
+      if (!content) return [];
+      return content.missingWords.map((missingWord, i) => ({ storySegment: content.storySegments[i] ?? "", missingWord }));
+    }
+    default:
+      return (game[contentKey] as ContentItem[] | undefined) ?? [];
+  }
+};
+
+/**
+ * Returns a copy of the game with the item at `index` replaced. The replaced item's id (and its
+ * position in a sequence) are kept, so anything referring to the item keeps working.
+ */
+export const replaceContentItem = (game: GameData, index: number, item: ContentItem): GameData => {
+  const { contentKey } = GAME_TYPE_SPECS[game.type];
+  const current = getContentItems(game)[index];
+  if (current === undefined) return game;
+
+  let replacement = item;
+  if (typeof current === 'object' && typeof item === 'object') {
+    if ('id' in current && current.id) replacement = { ...item, id: current.id } as ContentItem;
+    if ('order' in current) replacement = { ...replacement as SequenceItem, order: current.order };
+  }
+
+  switch (contentKey) {
+    case 'sortingContent': {
+      const sorting = game.sortingContent!;
+      return { ...game, sortingContent: { ...sorting, items: splice(sorting.items, index, replacement as SortingItem) } };
+    }
+    case 'fillBlankContent': {
+      const { storySegments, missingWords } = game.fillBlankContent!;
+      const slot = replacement as FillBlankSlot;
+      return {
+        ...game,
+        fillBlankContent: {
+          storySegments: splice(storySegments, index, slot.storySegment),
+          missingWords: splice(missingWords, index, slot.missingWord),
+        },
+      };
+    }
+    default:
+      return { ...game, [contentKey]: splice(game[contentKey] as ContentItem[], index, replacement) };
+  }
+};
+
+const splice = <T>(list: T[], index: number, value: T): T[] => list.map((v, i) => (i === index ? value : v));
+
+// The text that makes an item what it is (its question, term, word...). Tolerates half-written items.
+export const describeItem = (item: ContentItem): string => {
+  if (typeof item === 'string') return item;
+  if (!item || typeof item !== 'object') return "";
+
+  let text: string | undefined;
+  if ('question' in item) text = item.question;
+  else if ('term' in item) text = item.term;
+  else if ('original' in item) text = item.original;
+  else if ('word' in item) text = item.word;
+  else if ('missingWord' in item) text = item.missingWord;
+  else if ('answer' in item) text = item.answer;
+  else text = (item as SequenceItem | SortingItem).text;
+  return typeof text === 'string' ? text : "";
+};
+
+// Two items with the same key are duplicates
+export const itemKey = (item: ContentItem): string => describeItem(item).trim().toLowerCase();
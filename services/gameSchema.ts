@@ -0,0 +1,216 @@
+import { Schema, Type } from "@google/genai";
+import { GameData, GameType, GenerationOptions } from "../types";
+
+export type ContentKey = Exclude<keyof GameData, 'title' | 'instructions' | 'type' | 'mentorKey' | 'seed' | 'crosswordSeed' | 'difficulty' | 'generationOptions'>;
+
+export interface CountRange {
+  min: number;
+  max: number;
+}
+
+export interface GameTypeSpec {
+  // The GameData field that holds this game's content
+  contentKey: ContentKey;
+  // Number of top-level items (questions, pairs, words, missing words...)
+  items: CountRange;
+  // Item counts a mentor may ask for instead of the default
+  limits: CountRange;
+  // Answer choices per item, for multiple-choice style content
+  options?: CountRange;
+  // Only used by SORTING
+  categories?: CountRange;
+  // Only used by RIDDLE
+  clues?: CountRange;
+}
+
+const range = (min: number, max: number = min): CountRange => ({ min, max });
+
+/**
+ * Single source of truth for how much content each game type gets.
+ * Both the prompt (getInstructionsForType) and the response schema read from here, via resolveGameSpec.
+ */
+export const GAME_TYPE_SPECS: Record<GameType, GameTypeSpec> = {
+  [GameType.QUIZ]: { contentKey: 'quizContent', items: range(10), limits: range(3, 20), options: range(4) },
+  [GameType.TRUE_FALSE]: { contentKey: 'quizContent', items: range(10), limits: range(3, 20), options: range(2) },
+  [GameType.MATCHING]: { contentKey: 'matchingContent', items: range(8, 10), limits: range(3, 12) },
+  [GameType.MEMORY]: { contentKey: 'matchingContent', items: range(8, 10), limits: range(3, 12) },
+  [GameType.SEQUENCE]: { contentKey: 'sequenceContent', items: range(5, 7), limits: range(3, 10) },
+  [GameType.WORD_SEARCH]: { contentKey: 'wordSearchContent', items: range(12, 15), limits: range(5, 15) },
+  [GameType.SORTING]: { contentKey: 'sortingContent', items: range(12), limits: range(4, 20), categories: range(2, 3) },
+  [GameType.UNSCRAMBLE]: { contentKey: 'unscrambleContent', items: range(10), limits: range(3, 15) },
+  [GameType.FILL_IN_BLANK]: { contentKey: 'fillBlankContent', items: range(6, 8), limits: range(2, 12) },
+  [GameType.RIDDLE]: { contentKey: 'riddleContent', items: range(5), limits: range(2, 10), clues: range(3) },
+  [GameType.CROSSWORD]: { contentKey: 'crosswordContent', items: range(8, 10), limits: range(3, 15) },
+  [GameType.EMOJI_CHALLENGE]: { contentKey: 'emojiContent', items: range(8), limits: range(3, 15), options: range(4) },
+  [GameType.TRIVIA_TRAIL]: { contentKey: 'triviaTrailContent', items: range(10), limits: range(3, 20), options: range(4) },
+  [GameType.FIND_MATCH]: { contentKey: 'findMatchContent', items: range(20, 30), limits: range(7, 40) },
+};
+
+/**
+ * The spec to generate with: the type's defaults, with the requested item count (kept within the
+ * type's limits) when the mentor picked one.
+ */
+export const resolveGameSpec = (type: GameType, options?: GenerationOptions): GameTypeSpec => {
+  const spec = GAME_TYPE_SPECS[type];
+  if (!options?.itemCount) return spec;
+
+  const count = Math.min(spec.limits.max, Math.max(spec.limits.min, Math.round(options.itemCount)));
+  return { ...spec, items: range(count) };
+};
+
+// "10" or "8-10", for use in prompts
+export const formatCount = ({ min, max }: CountRange): string => (min === max ? `${min}` : `${min}-${max}`);
+
+const stringArray = (count?: CountRange, extra: Partial<Schema> = {}): Schema => ({
+  type: Type.ARRAY,
+  items: { type: Type.STRING, ...extra },
+  ...(count ? { minItems: `${count.min}`, maxItems: `${count.max}` } : {}),
+});
+
+const arrayOf = (items: Schema, count: CountRange): Schema => ({
+  type: Type.ARRAY,
+  items,
+  minItems: `${count.min}`,
+  maxItems: `${count.max}`,
+});
+
+const object = (properties: Record<string, Schema>, required: string[] = Object.keys(properties)): Schema => ({
+  type: Type.OBJECT,
+  properties,
+  required,
+  propertyOrdering: Object.keys(properties),
+});
+
+const STRING: Schema = { type: Type.STRING };
+
+// An item that quotes the source it is based on: the quote is required, its page only applies to paged sources
+const cited = (properties: Record<string, Schema>, required: string[] = Object.keys(properties)): Schema =>
+  object(
+    { ...properties, sourceQuote: STRING, sourcePage: { type: Type.INTEGER } },
+    [...required, 'sourceQuote']
+  );
+
+// Content whose items carry a source citation; word lists and the fill-in story have no per-item quote
+const CITED_CONTENT: ContentKey[] = [
+  'quizContent', 'matchingContent', 'sequenceContent', 'sortingContent', 'unscrambleContent',
+  'riddleContent', 'crosswordContent', 'emojiContent', 'triviaTrailContent',
+];
+
+export const hasCitations = (type: GameType): boolean => CITED_CONTENT.includes(GAME_TYPE_SPECS[type].contentKey);
+
+// Builds the schema of a single content item (one question, pair, word...) for a given game type
+const itemSchemaBuilders: Record<ContentKey, (spec: GameTypeSpec, type: GameType, categories?: string[]) => Schema> = {
+  quizContent: (spec, type) => {
+    // True/False answers are constrained to the two fixed options
+    const choice: Schema = type === GameType.TRUE_FALSE ? { type: Type.STRING, enum: ['True', 'False'] } : STRING;
+    return cited({
+      question: STRING,
+      options: stringArray(spec.options, type === GameType.TRUE_FALSE ? { enum: ['True', 'False'] } : {}),
+      correctAnswer: choice,
+      explanation: STRING,
+    }, ['question', 'options', 'correctAnswer', 'explanation']);
+  },
+  matchingContent: () => cited({
+    id: STRING,
+    term: STRING,
+    definition: STRING,
+  }),
+  sequenceContent: () => cited({
+    id: STRING,
+    text: STRING,
+    order: { type: Type.INTEGER },
+  }),
+  // A replacement item must land in one of the game's existing categories
+  sortingContent: (_spec, _type, categories) => cited({
+    id: STRING,
+    text: STRING,
+    category: categories && categories.length > 0 ? { type: Type.STRING, enum: categories } : STRING,
+  }),
+  unscrambleContent: () => cited({
+    id: STRING,
+    original: STRING,
+    hint: STRING,
+  }),
+  wordSearchContent: () => STRING,
+  // One blank together with the text leading up to it
+  fillBlankContent: () => object({
+    storySegment: STRING,
+    missingWord: STRING,
+  }),
+  riddleContent: (spec) => cited({
+    id: STRING,
+    clues: stringArray(spec.clues),
+    answer: STRING,
+  }),
+  crosswordContent: () => cited({
+    word: STRING,
+    clue: STRING,
+  }),
+  emojiContent: (spec) => cited({
+    id: STRING,
+    emojis: STRING,
+    answer: STRING,
+    hint: STRING,
+    options: stringArray(spec.options),
+  }),
+  triviaTrailContent: (spec) => cited({
+    id: STRING,
+    question: STRING,
+    options: stringArray(spec.options),
+    correctAnswer: STRING,
+  }),
+  findMatchContent: () => STRING,
+};
+
+const itemArray = (key: ContentKey) => (spec: GameTypeSpec, type: GameType) =>
+  arrayOf(itemSchemaBuilders[key](spec, type), spec.items);
+
+// Builds the schema of the content field for a given game type
+const contentSchemaBuilders: Record<ContentKey, (spec: GameTypeSpec, type: GameType) => Schema> = {
+  quizContent: itemArray('quizContent'),
+  matchingContent: itemArray('matchingContent'),
+  sequenceContent: itemArray('sequenceContent'),
+  sortingContent: (spec, type) => object({
+    categories: stringArray(spec.categories),
+    items: arrayOf(itemSchemaBuilders.sortingContent(spec, type), spec.items),
+  }),
+  unscrambleContent: itemArray('unscrambleContent'),
+  wordSearchContent: (spec) => stringArray(spec.items),
+  fillBlankContent: (spec) => object({
+    // One more segment than there are blanks: text, blank, text, blank, ..., text
+    storySegments: stringArray(range(spec.items.min + 1, spec.items.max + 1)),
+    missingWords: stringArray(spec.items),
+  }),
+  riddleContent: itemArray('riddleContent'),
+  crosswordContent: itemArray('crosswordContent'),
+  emojiContent: itemArray('emojiContent'),
+  triviaTrailContent: itemArray('triviaTrailContent'),
+  findMatchContent: (spec) => stringArray(spec.items),
+};
+
+/**
+ * Builds a response schema for exactly one game type: the content field for that type is required
+ * and sized like the prompt asks for, and the `type` field can only echo the requested type.
+ */
+export function buildGameSchema(type: GameType, options?: GenerationOptions): Schema {
+  const spec = resolveGameSpec(type, options);
+
+  return object({
+    title: STRING,
+    instructions: STRING,
+    type: { type: Type.STRING, enum: [type] },
+    mentorKey: stringArray(range(5, 10)),
+    [spec.contentKey]: contentSchemaBuilders[spec.contentKey](spec, type),
+  });
+}
+
+/**
+ * Response schema for regenerating one item of an existing game: `{ item: ... }`, where the item
+ * has the same shape as an entry of the game's content (for Fill in the Blank: one blank and its text).
+ */
+export function buildItemSchema(game: GameData): Schema {
+  const spec = GAME_TYPE_SPECS[game.type];
+  return object({
+    item: itemSchemaBuilders[spec.contentKey](spec, game.type, game.sortingContent?.categories),
+  });
+}
@@ -0,0 +1,341 @@
+import {
+  GameData,
+  GameType,
+  QuizItem,
+  MatchingItem,
+  SequenceItem,
+  SortingItem,
+  UnscrambleItem,
+  RiddleItem,
+  CrosswordItem,
+  EmojiChallengeItem,
+  TriviaTrailItem,
+} from "../types";
+import { ValidationError } from "./errors";
+
+/**
+ * Thrown when the model keeps returning a game that breaks the invariants
+ * the game components rely on, even after being re-prompted with the problems.
+ */
+export class GameValidationError extends ValidationError {
+  readonly gameType: GameType;
+
+  constructor(gameType: GameType, violations: string[]) {
+    super(`The generated ${gameType.replace(/_/g, ' ').toLowerCase()} game could not be repaired (${violations.length} problem${violations.length === 1 ? '' : 's'} found).`, violations);
+    this.name = "GameValidationError";
+    this.gameType = gameType;
+  }
+}
+
+export interface ValidationResult {
+  data: GameData;
+  // Problems that could not be auto-repaired. Empty means the game is playable.
+  violations: string[];
+}
+
+// --- Normalization helpers ---
+
+const clean = (value: unknown): string =>
+  typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '';
+
+const sameText = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Removes empty and case-insensitive duplicate strings, keeping the first spelling seen
+const dedupeText = (values: unknown): string[] => {
+  const result: string[] = [];
+  (Array.isArray(values) ? values : []).forEach(v => {
+    const text = clean(v);
+    if (text && !result.some(r => sameText(r, text))) result.push(text);
+  });
+  return result;
+};
+
+// Ensures every item has a non-empty id that is unique within its list
+const ensureIds = <T extends { id: string }>(items: T[], prefix: string): T[] => {
+  const seen = new Set<string>();
+  return items.map((item, i) => {
+    let id = clean(item.id);
+    if (!id || seen.has(id)) id = `${prefix}-${i + 1}`;
+    seen.add(id);
+    return { ...item, id };
+  });
+};
+
+// Letters only, as used by the grid based games (spaces and punctuation can't be placed in a grid)
+const toGridWord = (value: unknown) => clean(value).replace(/[^\p{L}]/gu, '');
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? value as T[] : []);
+
+/**
+ * Aligns the correct answer with the option list (trimming / case differences are repaired).
+ * Returns null if the answer really isn't one of the options.
+ */
+const reconcileAnswer = (options: string[], answer: string): string | null =>
+  options.find(o => sameText(o, answer)) ?? null;
+
+type MultipleChoice = Pick<QuizItem, 'options' | 'correctAnswer'>;
+
+const repairMultipleChoice = <T extends MultipleChoice>(
+  item: T,
+  label: string,
+  violations: string[],
+  minOptions = 2
+): T => {
+  const options = dedupeText(item.options);
+  const matched = reconcileAnswer(options, clean(item.correctAnswer));
+  if (!matched) {
+    violations.push(`${label}: correctAnswer "${clean(item.correctAnswer)}" is not one of its options.`);
+  }
+  if (options.length < minOptions) {
+    violations.push(`${label}: needs at least ${minOptions} distinct options (has ${options.length}).`);
+  }
+  return { ...item, options, correctAnswer: matched ?? clean(item.correctAnswer) };
+};
+
+// --- Per-type validators ---
+// Each validator receives a shallow copy of the game, repairs it in place and returns the leftover problems.
+
+type Validator = (game: GameData) => string[];
+
+const validateQuiz: Validator = (game) => {
+  const violations: string[] = [];
+  const isTrueFalse = game.type === GameType.TRUE_FALSE;
+  const questions = asArray<QuizItem>(game.quizContent)
+    // Drop blank explanations entirely: Firestore rejects fields set to undefined
+    .map(({ explanation, ...q }) => ({ ...q, question: clean(q.question), ...(clean(explanation) ? { explanation: clean(explanation) } : {}) }))
+    .filter(q => q.question);
+
+  game.quizContent = questions.map((q, i) => {
+    if (isTrueFalse) {
+      // True/False games always use the same two options in a fixed order
+      const answer = clean(q.correctAnswer);
+      const normalized = /^(true|yes|correct)$/i.test(answer) ? 'True' : /^(false|no|incorrect)$/i.test(answer) ? 'False' : answer;
+      if (normalized !== 'True' && normalized !== 'False') {
+        violations.push(`Question ${i + 1}: correctAnswer must be "True" or "False" (got "${answer}").`);
+      }
+      return { ...q, options: ['True', 'False'], correctAnswer: normalized };
+    }
+    return repairMultipleChoice(q, `Question ${i + 1}`, violations, 3);
+  });
+
+  if (questions.length === 0) violations.push("quizContent must contain at least one question.");
+  return violations;
+};
+
+const validateMatching: Validator = (game) => {
+  const violations: string[] = [];
+  const seenTerms: string[] = [];
+  const pairs = asArray<MatchingItem>(game.matchingContent)
+    .map(p => ({ ...p, term: clean(p.term), definition: clean(p.definition) }))
+    .filter(p => {
+      // Two cards with the same term would make the pairs ambiguous
+      if (!p.term || !p.definition || seenTerms.some(t => sameText(t, p.term))) return false;
+      seenTerms.push(p.term);
+      return true;
+    });
+
+  game.matchingContent = ensureIds(pairs, 'pair');
+  if (pairs.length < 3) violations.push(`matchingContent needs at least 3 distinct term/definition pairs (has ${pairs.length}).`);
+  return violations;
+};
+
+const validateSequence: Validator = (game) => {
+  const violations: string[] = [];
+  const steps = asArray<SequenceItem>(game.sequenceContent)
+    .map((s, i) => ({ ...s, text: clean(s.text), order: Number.isFinite(Number(s.order)) ? Number(s.order) : i + 1 }))
+    .filter(s => s.text);
+
+  // Renumber to a gap-free 1..n so checkOrder's "ascending" test is unambiguous.
+  // The sort is stable, so ties keep the order the model returned them in.
+  game.sequenceContent = ensureIds(
+    [...steps].sort((a, b) => a.order - b.order).map((s, i) => ({ ...s, order: i + 1 })),
+    'step'
+  );
+  if (steps.length < 3) violations.push(`sequenceContent needs at least 3 steps (has ${steps.length}).`);
+  return violations;
+};
+
+const validateSorting: Validator = (game) => {
+  const violations: string[] = [];
+  const raw = game.sortingContent;
+  if (!raw) return ["sortingContent is missing."];
+
+  const categories = dedupeText(raw.categories);
+  const items = asArray<SortingItem>(raw.items)
+    .map(item => ({ ...item, text: clean(item.text), category: clean(item.category) }))
+    .filter(item => item.text)
+    .map(item => {
+      const matched = categories.find(c => sameText(c, item.category));
+      if (!matched) violations.push(`Sorting item "${item.text}": category "${item.category}" is not one of the categories.`);
+      return { ...item, category: matched ?? item.category };
+    });
+
+  game.sortingContent = { categories, items: ensureIds(items, 'item') };
+  if (categories.length < 2) violations.push(`sortingContent needs at least 2 categories (has ${categories.length}).`);
+  categories.forEach(c => {
+    if (!items.some(item => item.category === c)) violations.push(`Category "${c}" has no items.`);
+  });
+  return violations;
+};
+
+const validateUnscramble: Validator = (game) => {
+  const violations: string[] = [];
+  const seen: string[] = [];
+  const words = asArray<UnscrambleItem>(game.unscrambleContent)
+    .map(w => ({ ...w, original: clean(w.original), hint: clean(w.hint) }))
+    .filter(w => {
+      if (!w.original || seen.some(s => sameText(s, w.original))) return false;
+      seen.push(w.original);
+      return true;
+    });
+
+  words.forEach(w => {
+    if (w.original.replace(/\s/g, '').length < 3) violations.push(`Unscramble word "${w.original}" is too short to scramble.`);
+    if (!w.hint) violations.push(`Unscramble word "${w.original}" has no hint.`);
+  });
+  game.unscrambleContent = ensureIds(words, 'word');
+  if (words.length === 0) violations.push("unscrambleContent must contain at least one word.");
+  return violations;
+};
+
+const validateWordSearch: Validator = (game) => {
+  const words = dedupeText(asArray<string>(game.wordSearchContent).map(toGridWord)).filter(w => w.length >= 2);
+  game.wordSearchContent = words;
+  return words.length < 5 ? [`wordSearchContent needs at least 5 words made of letters only (has ${words.length}).`] : [];
+};
+
+const validateFillBlank: Validator = (game) => {
+  const raw = game.fillBlankContent;
+  if (!raw) return ["fillBlankContent is missing."];
+
+  const missingWords = asArray<string>(raw.missingWords).map(clean);
+  // Segments keep their own spacing since they are stitched around the blanks
+  const storySegments = asArray<string>(raw.storySegments).map(s => (typeof s === 'string' ? s : ''));
+
+  // A story that ends on a blank commonly comes back without the empty trailing segment
+  if (storySegments.length === missingWords.length) storySegments.push('');
+
+  game.fillBlankContent = { storySegments, missingWords };
+
+  const violations: string[] = [];
+  if (missingWords.some(w => !w)) violations.push("fillBlankContent.missingWords contains an empty word.");
+  if (storySegments.length !== missingWords.length + 1) {
+    violations.push(`fillBlankContent.storySegments must have exactly missingWords.length + 1 entries (has ${storySegments.length} segments for ${missingWords.length} words).`);
+  }
+  if (missingWords.length === 0) violations.push("fillBlankContent needs at least one missing word.");
+  return violations;
+};
+
+const validateRiddle: Validator = (game) => {
+  const violations: string[] = [];
+  const riddles = asArray<RiddleItem>(game.riddleContent)
+    .map(r => ({ ...r, clues: dedupeText(r.clues), answer: clean(r.answer) }));
+
+  riddles.forEach((r, i) => {
+    if (!r.answer) violations.push(`Riddle ${i + 1} has no answer.`);
+    if (r.clues.length === 0) violations.push(`Riddle ${i + 1} has no clues.`);
+  });
+  game.riddleContent = ensureIds(riddles, 'riddle');
+  if (riddles.length === 0) violations.push("riddleContent must contain at least one riddle.");
+  return violations;
+};
+
+const validateCrossword: Validator = (game) => {
+  const violations: string[] = [];
+  const seen: string[] = [];
+  const entries = asArray<CrosswordItem>(game.crosswordContent)
+    .map(e => ({ ...e, word: toGridWord(e.word).toUpperCase(), clue: clean(e.clue) }))
+    .filter(e => {
+      if (e.word.length < 2 || seen.includes(e.word)) return false;
+      seen.push(e.word);
+      return true;
+    });
+
+  entries.forEach(e => {
+    if (!e.clue) violations.push(`Crossword word "${e.word}" has no clue.`);
+  });
+  game.crosswordContent = entries;
+  if (entries.length < 3) violations.push(`crosswordContent needs at least 3 words made of letters only (has ${entries.length}).`);
+  return violations;
+};
+
+const validateEmoji: Validator = (game) => {
+  const violations: string[] = [];
+  const challenges = asArray<EmojiChallengeItem>(game.emojiContent).map((c, i) => {
+    const { correctAnswer, ...rest } = repairMultipleChoice(
+      { ...c, emojis: clean(c.emojis), hint: clean(c.hint), correctAnswer: c.answer },
+      `Emoji challenge ${i + 1}`,
+      violations
+    );
+    if (!rest.emojis) violations.push(`Emoji challenge ${i + 1} has no emojis.`);
+    return { ...rest, answer: correctAnswer };
+  });
+
+  game.emojiContent = ensureIds(challenges, 'emoji');
+  if (challenges.length === 0) violations.push("emojiContent must contain at least one challenge.");
+  return violations;
+};
+
+const validateTriviaTrail: Validator = (game) => {
+  const violations: string[] = [];
+  const steps = asArray<TriviaTrailItem>(game.triviaTrailContent)
+    .map(q => ({ ...q, question: clean(q.question) }))
+    .filter(q => q.question)
+    .map((q, i) => repairMultipleChoice(q, `Trivia step ${i + 1}`, violations));
+
+  game.triviaTrailContent = ensureIds(steps, 'step');
+  if (steps.length === 0) violations.push("triviaTrailContent must contain at least one question.");
+  return violations;
+};
+
+const validateFindMatch: Validator = (game) => {
+  const terms = dedupeText(game.findMatchContent);
+  game.findMatchContent = terms;
+  // Each round shows the match plus 3 distinct fillers on each card
+  return terms.length < 7 ? [`findMatchContent needs at least 7 distinct terms (has ${terms.length}).`] : [];
+};
+
+const validators: Record<GameType, Validator> = {
+  [GameType.QUIZ]: validateQuiz,
+  [GameType.TRUE_FALSE]: validateQuiz,
+  [GameType.MATCHING]: validateMatching,
+  [GameType.MEMORY]: validateMatching,
+  [GameType.SEQUENCE]: validateSequence,
+  [GameType.SORTING]: validateSorting,
+  [GameType.UNSCRAMBLE]: validateUnscramble,
+  [GameType.WORD_SEARCH]: validateWordSearch,
+  [GameType.FILL_IN_BLANK]: validateFillBlank,
+  [GameType.RIDDLE]: validateRiddle,
+  [GameType.CROSSWORD]: validateCrossword,
+  [GameType.EMOJI_CHALLENGE]: validateEmoji,
+  [GameType.TRIVIA_TRAIL]: validateTriviaTrail,
+  [GameType.FIND_MATCH]: validateFindMatch,
+};
+
+/**
+ * Checks a game returned by the model against the invariants its game component relies on,
+ * repairing what can be fixed safely (whitespace / casing, duplicates, ids, sequence numbering).
+ * The requested type wins over whatever type the model echoed back.
+ */
+export function validateAndRepairGame(raw: unknown, type: GameType): ValidationResult {
+  if (!raw || typeof raw !== 'object') {
+    return { data: raw as GameData, violations: ["The response is not a JSON object."] };
+  }
+
+  const source = raw as GameData;
+  const game: GameData = {
+    ...source,
+    type,
+    title: clean(source.title),
+    instructions: clean(source.instructions),
+    mentorKey: dedupeText(source.mentorKey),
+  };
+
+  const violations: string[] = [];
+  if (!game.title) violations.push("title is missing.");
+  if (!game.instructions) violations.push("instructions are missing.");
+  if (game.mentorKey.length === 0) violations.push("mentorKey must contain at least one discussion point.");
+
+  violations.push(...validators[type](game));
+  return { data: game, violations };
+}
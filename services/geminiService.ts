@@ -1,276 +1,317 @@
+import { GameData, GameType, GameGenerationInput, GenerationOptions } from "../types";
+import { validateAndRepairGame, GameValidationError } from "./gameValidator";
+import { getGameGenerator, GenerationRequest, ItemGenerationRequest } from "./generators";
+import { ContentItem, getContentItems, itemKey, replaceContentItem } from "./gameItems";
+import { parsePartialJson } from "./partialJson";
+import { generationCacheKey, readCachedGame, writeCachedGame } from "./generationCache";
+import { verifyCitations } from "./citations";
+import { layoutCrossword } from "./crosswordLayout";
+import { gridLetters } from "./hebrew";
+import { gameSeed, newSeed } from "./random";
+import {
+  AppError,
+  GenerationCancelledError,
+  GenerationTimeoutError,
+  InvalidResponseError,
+  isRetryable,
+  toAppError
+} from "./errors";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { GameData, GameType, GameGenerationInput } from "../types";
-import { GEMINI_MODEL } from "../constants";
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  attempts: number;
+  // Delay before the first retry; doubled for every further retry, up to maxDelayMs
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 1000, maxDelayMs: 8000 };
+export const DEFAULT_TIMEOUT_MS = 90_000;
+
+export interface GenerationControl {
+  // Aborts the generation; the call then rejects with GenerationCancelledError
+  signal?: AbortSignal;
+  // Time allowed for each attempt before it is abandoned (and retried)
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+  // Receives the game as far as it has been written, while it streams in
+  onPreview?: (preview: Partial<GameData>) => void;
+  // Skips the generation cache and asks for a new variant, which then replaces the cached game
+  fresh?: boolean;
+  // Called when the game is answered from the generation cache instead of the model
+  onCacheHit?: () => void;
+}
+
+// The outcome of one attempt: a usable result, or output that was received but must be asked for again
+type AttemptResult<T> = { value: T } | { rejected: Error };
+
+// Exponential backoff with "equal jitter": between half and all of the capped exponential delay
+const backoffDelay = (retry: number, { baseDelayMs, maxDelayMs }: RetryPolicy): number => {
+  const capped = Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+  return capped / 2 + Math.random() * (capped / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new GenerationCancelledError());
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// A signal for one attempt: aborted by the caller's signal or once the attempt runs out of time
+const attemptSignal = (timeoutMs: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  parent?.addEventListener('abort', onAbort, { once: true });
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+};
 
 /**
- * Generates game data using the Google Gemini API.
+ * Runs attempts until one succeeds. Retryable failures (see services/errors.ts) are retried after
+ * a backoff; rejected output is asked for again straight away; anything else is thrown as is.
  */
-export async function generateGameFromContent(input: GameGenerationInput, type: GameType): Promise<GameData> {
-  // Always create a fresh instance to ensure we pick up the latest API key injected by the platform bridge
-  // Check multiple sources for the API key to ensure compatibility with various environments
-  let apiKey = import.meta.env.VITE_GEMINI_API_KEY || process.env.API_KEY || process.env.GEMINI_API_KEY;
-  
-  // Runtime fallback for browser environments where env vars might be injected into window
-  if (!apiKey && typeof window !== 'undefined') {
-    const win = window as any;
-    apiKey = win.GEMINI_API_KEY || win.API_KEY || (win.process && win.process.env && win.process.env.API_KEY);
+async function runAttempts<T>(
+  attempt: (signal: AbortSignal, attemptIndex: number) => Promise<AttemptResult<T>>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retry }: GenerationControl
+): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...retry };
+  let lastError: Error | undefined;
+
+  for (let i = 0; i < policy.attempts; i++) {
+    if (signal?.aborted) throw new GenerationCancelledError();
+
+    const current = attemptSignal(timeoutMs, signal);
+    try {
+      const result = await attempt(current.signal, i);
+      if ('value' in result) return result.value;
+
+      console.warn(`Attempt ${i + 1} was rejected:`, result.rejected);
+      lastError = result.rejected;
+    } catch (error: any) {
+      if (signal?.aborted) throw new GenerationCancelledError();
+      const failure = current.timedOut() ? new GenerationTimeoutError(timeoutMs) : error;
+
+      console.warn(`Attempt ${i + 1} failed:`, failure);
+      if (!isRetryable(failure)) throw failure;
+      lastError = failure;
+
+      if (i < policy.attempts - 1) {
+        await sleep(backoffDelay(i, policy), signal);
+      }
+    } finally {
+      current.dispose();
+    }
+  }
+
+  throw lastError ?? new AppError("Failed to generate game after multiple attempts.", false);
+}
+
+const parseResponse = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new InvalidResponseError({ cause: error });
   }
-  
-  if (!apiKey) {
-    console.error("API Key Check Failed. Checked: import.meta.env.VITE_GEMINI_API_KEY, process.env.API_KEY, window.GEMINI_API_KEY");
-    throw new Error("No API key detected. Please click the setup button to connect your key.");
+};
+
+// The cache is a shortcut only: when it is unavailable (e.g. private browsing) games are generated as usual
+const lookUpCachedGame = async (key: string, type: GameType): Promise<GameData | undefined> => {
+  try {
+    const cached = await readCachedGame(key);
+    // Games cached by an older version may not meet today's rules
+    if (cached && validateAndRepairGame(cached, type).violations.length === 0) return cached;
+  } catch (error) {
+    console.warn("Could not read the generation cache:", error);
   }
+  return undefined;
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const typeSpecificInstructions = getInstructionsForType(type);
-  const prompt = `You are a creative Jewish educator and game designer for MyShliach. 
-  Create a ${type} game for students (ages 8-12) based on the provided Koivetz content.
-  The Koivetz usually contains stories of Tzaddikim, Sichos, or Halachos.
-  
-  Activity Requirements for ${type}:
-  ${typeSpecificInstructions}
-  
-  Mentor Corner Requirement:
-  Provide a 'mentorKey' with 5-10 bullet points that help a mentor summarize the main lesson or discuss the core values of the story with their student.
-  
-  Ensure all content is engaging, accurate to the source, and uses appropriate terminology.
-  Return only JSON matching the schema.`;
-
-    const parts: any[] = [{ text: prompt }];
-
-    if (input.type === 'text') {
-      parts.push({ text: `Source content:\n${input.value}` });
-    } else {
-      parts.push({
-        inlineData: {
-          mimeType: input.mimeType,
-          data: input.data,
-        },
-      });
-    }
+const storeCachedGame = async (key: string, data: GameData, input: GameGenerationInput, model: string) => {
+  try {
+    await writeCachedGame(key, data, { input, model });
+  } catch (error) {
+    console.warn("Could not write the generation cache:", error);
+  }
+};
+
+// The crossword grid as players will see it
+const crosswordLayoutOf = (game: GameData) =>
+  layoutCrossword((game.crosswordContent ?? []).map(item => gridLetters(item.word)), { seed: gameSeed(game), fallbackSeed: game.crosswordSeed });
+
+// A replacement crossword answer must cross the grid and must not push another answer out of it
+const crosswordFitViolations = (game: GameData, candidate: GameData, index: number): string[] => {
+  if (game.type !== GameType.CROSSWORD) return [];
+  const { unplaced } = crosswordLayoutOf(candidate);
+  if (!unplaced.includes(index) && unplaced.length <= crosswordLayoutOf(game).unplaced.length) return [];
+  return [`"${candidate.crosswordContent![index].word}" can't cross the other words in the crossword. Write a word that shares letters with them.`];
+};
+
+// Asks for a new word in place of each crossword answer that can't cross any other; the answer is kept if none is found
+const fitCrossword = async (
+  input: GameGenerationInput,
+  game: GameData,
+  options: GenerationOptions | undefined,
+  { signal, timeoutMs, retry }: GenerationControl
+): Promise<GameData> => {
+  if (game.type !== GameType.CROSSWORD) return game;
 
+  let fitted = game;
+  for (const index of crosswordLayoutOf(game).unplaced) {
     try {
-      let lastError: any;
-      // Retry up to 3 times for robustness
-      for (let attempt = 0; attempt < 3; attempt++) {
-      try {
-        const response = await ai.models.generateContent({
-          model: GEMINI_MODEL,
-          contents: { parts },
-          config: {
-            responseMimeType: "application/json",
-            responseSchema: gameSchema as any,
-          },
-        });
-
-        const text = response.text;
-        if (!text) {
-          throw new Error("The AI returned an empty response.");
-        }
+      const item = await regenerateGameItem(input, fitted, index, options, { signal, timeoutMs, retry });
+      // The item comes back repaired; validating the game again keeps every answer a single grid word
+      fitted = validateAndRepairGame(replaceContentItem(fitted, index, item), fitted.type).data;
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) throw error;
+      console.warn(`Could not find a crossing word for crossword answer ${index + 1}:`, error);
+    }
+  }
+  // New shuffles change the seed; this one is known to place every answer that could be fitted
+  return { ...fitted, crosswordSeed: gameSeed(fitted) };
+};
 
-        return JSON.parse(text) as GameData;
-      } catch (error: any) {
-        console.warn(`Attempt ${attempt + 1} failed:`, error);
-        lastError = error;
-        
-        // Don't retry if it's an API key or permission issue
-        if (error.message?.includes("not found") || error.message?.includes("key") || error.message?.includes("API_KEY") || error.message?.includes("403")) {
-          throw error;
-        }
-        
-        // If it's the last attempt, don't wait
-        if (attempt === 2) break;
-        
-        // Wait a short bit before retrying
-        await new Promise(resolve => setTimeout(resolve, 1000));
+/**
+ * Generates game data through the active game generator (Gemini unless GAME_GENERATOR says otherwise).
+ * Crossword answers that can't cross the others are replaced one by one (see services/crosswordLayout.ts).
+ * Items' source quotes are checked against the source (see services/citations.ts). Identical requests are answered from the generation cache unless `control.fresh` is set.
+ */
+export async function generateGameFromContent(
+  input: GameGenerationInput,
+  type: GameType,
+  options?: GenerationOptions,
+  control: GenerationControl = {}
+): Promise<GameData> {
+  const { onPreview, fresh, onCacheHit } = control;
+  const onPartialText = onPreview && ((text: string) => {
+    const preview = parsePartialJson(text);
+    if (preview && typeof preview === 'object' && !Array.isArray(preview)) {
+      onPreview(preview as Partial<GameData>);
+    }
+  });
+
+  // Carries the failed answer and its problems into the next attempt when the output fails validation
+  let repair: GenerationRequest['repair'];
+
+  try {
+    const generator = getGameGenerator();
+    const model = `${generator.id}:${generator.model}`;
+    const cacheKey = await generationCacheKey(input, type, options, model).catch(() => undefined);
+
+    if (cacheKey && !fresh) {
+      const cached = await lookUpCachedGame(cacheKey, type);
+      if (cached) {
+        onCacheHit?.();
+        return cached;
       }
     }
-    
-    throw lastError || new Error("Failed to generate game after multiple attempts.");
 
+    const generated = await runAttempts<GameData>(async (signal) => {
+      const text = await generator.generateGame({ input, type, options, signal, onPartialText, repair });
+
+      const { data, violations } = validateAndRepairGame(parseResponse(text), type);
+      if (violations.length === 0) {
+        return { value: data };
+      }
+
+      repair = { previousResponse: text, violations };
+      return { rejected: new GameValidationError(type, violations) };
+    }, control);
+
+    // Every new game gets its own seed; a cached game keeps the one it was generated with.
+    // Options left unset are left out, as Firestore rejects undefined fields.
+    const generationOptions = options && Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as GenerationOptions;
+    const seeded = { ...generated, seed: newSeed(), difficulty: options?.difficulty, ...(generationOptions ? { generationOptions } : {}) };
+    // Flag items whose quote can't be found in the source before anyone plays them
+    const game = verifyCitations(await fitCrossword(input, seeded, options, control), input);
+    if (cacheKey) await storeCachedGame(cacheKey, game, input, model);
+    return game;
   } catch (error: any) {
-    console.error("Gemini API Error:", error);
-    
-    if (error.message?.includes("not found") || error.message?.includes("key") || error.message?.includes("API_KEY")) {
-      throw new Error("Invalid API Key. Please select a billing-enabled API key to continue.");
+    if (!(error instanceof GenerationCancelledError)) {
+      console.error("Game generation error:", error);
     }
-    
-    throw new Error(error.message || "Something went wrong while creating your game.");
+    throw toAppError(error, "Something went wrong while creating your game.");
   }
 }
 
-// Helper function to get specific instructions for each game type
-const getInstructionsForType = (type: GameType): string => {
-  switch (type) {
-    case GameType.QUIZ:
-      return "Generate 10 multiple-choice questions with 4 options each, one correct answer, and a short explanation.";
-    case GameType.TRUE_FALSE:
-      return "Generate 10 true or false statements using the quizContent format with 2 options: 'True' and 'False'.";
-    case GameType.MATCHING:
-    case GameType.MEMORY:
-      return "Generate 8-10 pairs of distinct terms and their corresponding definitions.";
-    case GameType.SEQUENCE:
-      return "Generate 5-7 segments of a story or process that must be arranged in chronological order (order 1-7).";
-    case GameType.WORD_SEARCH:
-      return "Extract a list of 12-15 thematic words related to the content for a word search.";
-    case GameType.SORTING:
-      return "Define 2-3 logical categories and 12 items that each belong to one category.";
-    case GameType.UNSCRAMBLE:
-      return "Select 10 key vocabulary words to unscramble with a short hint for each.";
-    case GameType.FILL_IN_BLANK:
-      return "Generate a story summary with 6-8 missing words. Return full text split into segments and the missing words.";
-    case GameType.RIDDLE:
-      return "Create 5 riddles. Each must have 3 clues and an answer.";
-    case GameType.CROSSWORD:
-      return "Provide a list of 8-10 words and their clues.";
-    case GameType.EMOJI_CHALLENGE:
-      return "Generate 8 challenges where emojis represent a concept. Provide 4 options.";
-    case GameType.TRIVIA_TRAIL:
-      return "Generate 10 trivia questions that serve as steps on a journey.";
-    case GameType.FIND_MATCH:
-      return "Extract 20-30 distinct terms for a fast matching game.";
-    default:
-      return "Create an engaging educational activity.";
-  }
-};
+/**
+ * Asks the active generator for one new item to replace the item at `index` of an existing game.
+ * The replacement is only accepted if the game stays valid and the item doesn't repeat another one.
+ */
+export async function regenerateGameItem(
+  input: GameGenerationInput,
+  game: GameData,
+  index: number,
+  options?: GenerationOptions,
+  control: GenerationControl = {}
+): Promise<ContentItem> {
+  const items = getContentItems(game);
 
-const gameSchema = {
-  type: Type.OBJECT,
-  properties: {
-    title: { type: Type.STRING },
-    instructions: { type: Type.STRING },
-    type: { type: Type.STRING, enum: Object.values(GameType) },
-    mentorKey: { type: Type.ARRAY, items: { type: Type.STRING } },
-    quizContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          question: { type: Type.STRING },
-          options: { type: Type.ARRAY, items: { type: Type.STRING } },
-          correctAnswer: { type: Type.STRING },
-          explanation: { type: Type.STRING }
-        },
-        required: ["question", "options", "correctAnswer"]
-      }
-    },
-    matchingContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          term: { type: Type.STRING },
-          definition: { type: Type.STRING }
-        },
-        required: ["id", "term", "definition"]
-      }
-    },
-    sequenceContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          text: { type: Type.STRING },
-          order: { type: Type.INTEGER }
-        },
-        required: ["id", "text", "order"]
-      }
-    },
-    sortingContent: {
-      type: Type.OBJECT,
-      properties: {
-        categories: { type: Type.ARRAY, items: { type: Type.STRING } },
-        items: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              text: { type: Type.STRING },
-              category: { type: Type.STRING }
-            },
-            required: ["id", "text", "category"]
-          }
+  // Problems the game already has (e.g. an item still being edited) are not the new item's fault
+  const current = validateAndRepairGame(game, game.type);
+  const existing = new Set(current.violations);
+  // Validation drops blank and duplicate items and reorders some games, so the new item is found
+  // afterwards as the one whose key the game didn't have, not by its index
+  const keptKeys = new Set(getContentItems(current.data).map(itemKey));
+
+  let repair: ItemGenerationRequest['repair'];
+
+  try {
+    const generator = getGameGenerator();
+
+    return await runAttempts<ContentItem>(async (signal) => {
+      const text = await generator.generateItem({ input, game, index, options, signal, repair });
+      const item: ContentItem | undefined = parseResponse(text)?.item;
+
+      let violations: string[];
+      // The new item after validation's repairs (trimmed text, one-word answers...), with its source checked
+      let repaired: ContentItem | undefined;
+      if (item === undefined || item === null) {
+        violations = ["The response did not contain an item."];
+      } else if (items.some(other => itemKey(other) === itemKey(item))) {
+        violations = [`"${itemKey(item)}" is already in the game. Write a different item.`];
+      } else {
+        const checked = validateAndRepairGame(replaceContentItem(game, index, item), game.type);
+        const repairedIndex = getContentItems(checked.data).findIndex(other => !keptKeys.has(itemKey(other)));
+        violations = checked.violations.filter(v => !existing.has(v));
+        if (repairedIndex === -1) {
+          violations = [...violations, "The new item was empty or repeated another one. Write a different item."];
+        } else if (violations.length === 0) {
+          violations = crosswordFitViolations(current.data, checked.data, repairedIndex);
+          repaired = getContentItems(verifyCitations(checked.data, input))[repairedIndex];
         }
-      },
-      required: ["categories", "items"]
-    },
-    unscrambleContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          original: { type: Type.STRING },
-          hint: { type: Type.STRING }
-        },
-        required: ["id", "original", "hint"]
-      }
-    },
-    wordSearchContent: { type: Type.ARRAY, items: { type: Type.STRING } },
-    fillBlankContent: {
-      type: Type.OBJECT,
-      properties: {
-        storySegments: { type: Type.ARRAY, items: { type: Type.STRING } },
-        missingWords: { type: Type.ARRAY, items: { type: Type.STRING } }
-      },
-      required: ["storySegments", "missingWords"]
-    },
-    riddleContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          clues: { type: Type.ARRAY, items: { type: Type.STRING } },
-          answer: { type: Type.STRING }
-        },
-        required: ["id", "clues", "answer"]
-      }
-    },
-    crosswordContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          word: { type: Type.STRING },
-          clue: { type: Type.STRING }
-        },
-        required: ["word", "clue"]
-      }
-    },
-    emojiContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          emojis: { type: Type.STRING },
-          answer: { type: Type.STRING },
-          hint: { type: Type.STRING },
-          options: { type: Type.ARRAY, items: { type: Type.STRING } }
-        },
-        required: ["id", "emojis", "answer", "hint", "options"]
       }
-    },
-    triviaTrailContent: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          id: { type: Type.STRING },
-          question: { type: Type.STRING },
-          options: { type: Type.ARRAY, items: { type: Type.STRING } },
-          correctAnswer: { type: Type.STRING }
-        },
-        required: ["id", "question", "options", "correctAnswer"]
+
+      if (violations.length === 0 && repaired !== undefined) {
+        return { value: repaired };
       }
-    },
-    findMatchContent: { type: Type.ARRAY, items: { type: Type.STRING } }
-  },
-  required: ["title", "instructions", "type", "mentorKey"]
-};
+
+      repair = { previousResponse: text, violations };
+      return { rejected: new GameValidationError(game.type, violations) };
+    }, control);
+  } catch (error: any) {
+    if (!(error instanceof GenerationCancelledError)) {
+      console.error("Item generation error:", error);
+    }
+    throw toAppError(error, "Couldn't create a new item. Please try again.");
+  }
+}
@@ -0,0 +1,95 @@
+import { GameData, GameType, GameGenerationInput, GenerationOptions } from "../types";
+import { DEFAULT_GENERATION_OPTIONS } from "../constants";
+import { getRecord, getAllRecords, putRecord, deleteRecord, clearStore } from "./localDb";
+import { describeSource } from "./libraryService";
+
+/**
+ * Content-addressed cache of generated games, kept in IndexedDB. Generating the same game from the
+ * same source, with the same options and model, is answered from here instead of calling the model again.
+ */
+
+export interface GenerationCacheEntry {
+  // SHA-256 of the source, game type, options and model (see generationCacheKey)
+  key: string;
+  type: GameType;
+  title: string;
+  sourceSnippet: string;
+  model: string;
+  createdAt: string;
+  lastUsedAt: string;
+  // Number of times the entry saved a generation
+  hits: number;
+  sizeBytes: number;
+  data: GameData;
+}
+
+// Least recently used entries beyond this are dropped
+const MAX_CACHE_ENTRIES = 100;
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+/**
+ * The cache key of a generation. Options are spelled out with their defaults and in a fixed order,
+ * so equivalent requests hash the same.
+ */
+export const generationCacheKey = (
+  input: GameGenerationInput,
+  type: GameType,
+  options: GenerationOptions | undefined,
+  model: string
+): Promise<string> => {
+  const { ageBand, difficulty, itemCount, language, hebrewTerms } = { ...DEFAULT_GENERATION_OPTIONS, ...options };
+  // File names are left out: the same content under another name is the same source
+  const source = input.parts.map(part => (part.type === 'text' ? [part.type, part.value] : [part.type, part.mimeType, part.data]));
+  return sha256(JSON.stringify([source, type, [ageBand, difficulty, itemCount ?? null, language, hebrewTerms], model]));
+};
+
+// Returns the cached game for a key, counting the hit
+export const readCachedGame = async (key: string): Promise<GameData | undefined> => {
+  const entry = await getRecord<GenerationCacheEntry>('generationCache', key);
+  if (!entry) return undefined;
+
+  await putRecord('generationCache', { ...entry, lastUsedAt: new Date().toISOString(), hits: entry.hits + 1 });
+  return entry.data;
+};
+
+// Stores a freshly generated game, replacing what was cached under the same key
+export const writeCachedGame = async (
+  key: string,
+  data: GameData,
+  { input, model }: { input: GameGenerationInput; model: string }
+): Promise<void> => {
+  const now = new Date().toISOString();
+  const entry: GenerationCacheEntry = {
+    key,
+    type: data.type,
+    title: data.title,
+    sourceSnippet: describeSource(input),
+    model,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+    sizeBytes: new Blob([JSON.stringify(data)]).size,
+    data,
+  };
+  await putRecord('generationCache', entry);
+  await pruneCache();
+};
+
+const pruneCache = async () => {
+  const entries = await listCacheEntries();
+  await Promise.all(entries.slice(MAX_CACHE_ENTRIES).map(entry => deleteCacheEntry(entry.key)));
+};
+
+// Most recently used first
+export const listCacheEntries = async (): Promise<GenerationCacheEntry[]> => {
+  const entries = await getAllRecords<GenerationCacheEntry>('generationCache');
+  return entries.sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+};
+
+export const deleteCacheEntry = (key: string): Promise<void> => deleteRecord('generationCache', key);
+
+export const clearGenerationCache = (): Promise<void> => clearStore('generationCache');
@@ -0,0 +1,302 @@
+import { GameData, GameType, GameGenerationInput, GenerationOptions, SortingItem } from "../../types";
+import { GAME_TYPE_SPECS, resolveGameSpec } from "../gameSchema";
+import { getContentItems, itemKey } from "../gameItems";
+import { GameGenerator } from "./types";
+
+/**
+ * Offline generator used for development and testing without an API key or network.
+ * It builds a valid game for every GameType straight from the source text, deterministically:
+ * the same text and type always produce the same game.
+ */
+
+// Used when the source has too few usable words (or is only PDFs and photos, which we can't read locally)
+const FALLBACK_TEXT = `The Rebbe taught that every Mitzvah brings light into the world.
+A young Chassid asked his Mashpia how to prepare for Shabbos.
+The Mashpia answered that Tefillah and Tzedakah open the heart.
+Before dawn the Chassid gave Tzedakah quietly to a neighbor in need.
+On Shabbos the whole family sang Niggunim around the table.
+The Rebbe explained that Ahavas Yisroel means caring for every Yid.
+Every Shliach brings Torah and Emunah to a distant community.
+Bitachon means trusting that Hashem arranges everything for the good.
+The children learned Chumash and Mishnayos together each evening.
+The story teaches that Simcha and Achdus bring Moshiach closer.`;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'that', 'this', 'with', 'from', 'have', 'were', 'they', 'them', 'their', 'there', 'what',
+  'when', 'which', 'would', 'could', 'should', 'about', 'into', 'every', 'each', 'after', 'before', 'because',
+  'also', 'been', 'will', 'your', 'said', 'asked', 'answered', 'very', 'more', 'much', 'than', 'then', 'only',
+  'some', 'such', 'other', 'over', 'even', 'just', 'like', 'where', 'while', 'those', 'these', 'means',
+]);
+
+const EMOJIS = ['📜', '🕯️', '🍷', '🍞', '🌙', '⭐', '🔥', '💧', '🏠', '📖', '🙏', '🎶', '🌳', '🐑', '👑', '🤝'];
+
+interface SourceText {
+  sentences: string[];
+  // Distinct candidate words, most frequent first
+  words: string[];
+}
+
+const tokenize = (text: string) => text.match(/[\p{L}]+/gu) ?? [];
+
+const analyze = (text: string): SourceText => {
+  const sentences = text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.replace(/\s+/g, ' ').trim())
+    .filter(s => tokenize(s).length >= 4);
+
+  const counts = new Map<string, { word: string; count: number; first: number }>();
+  tokenize(text).forEach((word, position) => {
+    if (word.length < 4 || word.length > 12 || STOP_WORDS.has(word.toLowerCase())) return;
+    const key = word.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { word, count: 1, first: position });
+  });
+
+  const words = [...counts.values()]
+    .sort((a, b) => b.count - a.count || a.first - b.first)
+    .map(e => e.word);
+
+  return { sentences, words };
+};
+
+const readSource = (input: GameGenerationInput): SourceText => {
+  const text = input.parts.map(part => (part.type === 'text' ? part.value : "")).join("\n");
+  const own = analyze(text);
+  if (own.sentences.length >= 10 && own.words.length >= 30) return own;
+
+  // Top up thin sources with the built-in sample so every game type can be filled
+  const fallback = analyze(FALLBACK_TEXT);
+  const words = [...own.words];
+  fallback.words.forEach(w => {
+    if (!words.some(existing => existing.toLowerCase() === w.toLowerCase())) words.push(w);
+  });
+  return { sentences: [...own.sentences, ...fallback.sentences], words };
+};
+
+// Picks `count` entries, cycling through the list if it is shorter than that
+const take = <T>(list: T[], count: number, offset = 0): T[] =>
+  Array.from({ length: count }, (_, i) => list[(offset + i) % list.length]);
+
+// The most "interesting" word of a sentence that we also know as a candidate word
+const keywordOf = (sentence: string, words: string[]): string | undefined =>
+  tokenize(sentence)
+    .filter(t => words.some(w => w.toLowerCase() === t.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+
+const blankOut = (sentence: string, word: string) =>
+  sentence.replace(new RegExp(`(?<![\\p{L}])${word}(?![\\p{L}])`, 'u'), '_____');
+
+// Correct answer plus distractors taken from the other candidate words, in a rotating position
+const optionsFor = (answer: string, words: string[], count: number, seed: number): string[] => {
+  const distractors = words.filter(w => w.toLowerCase() !== answer.toLowerCase());
+  const options = take(distractors, count - 1, seed * 3);
+  options.splice(seed % count, 0, answer);
+  return options;
+};
+
+interface Clue {
+  sentence: string;
+  keyword: string;
+}
+
+const cluesFrom = ({ sentences, words }: SourceText): Clue[] => {
+  const seen = new Set<string>();
+  const clues: Clue[] = [];
+  sentences.forEach(sentence => {
+    const keyword = keywordOf(sentence, words);
+    if (keyword && !seen.has(keyword.toLowerCase())) {
+      seen.add(keyword.toLowerCase());
+      clues.push({ sentence, keyword });
+    }
+  });
+  return clues;
+};
+
+const buildContent = (type: GameType, source: SourceText, count = GAME_TYPE_SPECS[type].items.min): Partial<GameData> => {
+  const spec = GAME_TYPE_SPECS[type];
+  const clues = cluesFrom(source);
+  const { words, sentences } = source;
+  const gridWords = words.filter(w => w.length <= 10);
+
+  switch (type) {
+    case GameType.QUIZ:
+      return {
+        quizContent: take(clues, count).map((c, i) => ({
+          question: `Which word completes this line from the Koivetz? "${blankOut(c.sentence, c.keyword)}"`,
+          options: optionsFor(c.keyword, words, spec.options!.min, i),
+          correctAnswer: c.keyword,
+          explanation: `The full line reads: "${c.sentence}"`,
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.TRUE_FALSE:
+      return {
+        quizContent: take(clues, count).map((c, i) => {
+          const isTrue = i % 2 === 0;
+          const swapped = words.find(w => w.toLowerCase() !== c.keyword.toLowerCase() && !c.sentence.includes(w))!;
+          return {
+            question: isTrue ? c.sentence : blankOut(c.sentence, c.keyword).replace('_____', swapped),
+            options: ['True', 'False'],
+            correctAnswer: isTrue ? 'True' : 'False',
+            explanation: `The Koivetz says: "${c.sentence}"`,
+            sourceQuote: c.sentence,
+          };
+        }),
+      };
+    case GameType.MATCHING:
+    case GameType.MEMORY:
+      return {
+        matchingContent: clues.slice(0, count).map((c, i) => ({
+          id: `pair-${i + 1}`,
+          term: c.keyword,
+          definition: blankOut(c.sentence, c.keyword),
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.SEQUENCE:
+      return {
+        sequenceContent: sentences.slice(0, count).map((text, i) => ({ id: `step-${i + 1}`, text, order: i + 1, sourceQuote: text })),
+      };
+    case GameType.WORD_SEARCH:
+      return { wordSearchContent: gridWords.slice(0, count) };
+    case GameType.SORTING: {
+      const short = words.filter(w => w.length <= 5);
+      const long = words.filter(w => w.length > 5);
+      const half = Math.ceil(count / 2);
+      const categories = ['Short words (up to 5 letters)', 'Long words (6+ letters)'];
+      return {
+        sortingContent: {
+          categories,
+          items: [
+            ...short.slice(0, half).map(text => ({ text, category: categories[0] })),
+            ...long.slice(0, count - Math.min(half, short.length)).map(text => ({ text, category: categories[1] })),
+          ].map((item, i) => ({ id: `item-${i + 1}`, ...item, sourceQuote: item.text })),
+        },
+      };
+    }
+    case GameType.UNSCRAMBLE:
+      return {
+        unscrambleContent: clues.slice(0, count).map((c, i) => ({
+          id: `word-${i + 1}`,
+          original: c.keyword,
+          hint: blankOut(c.sentence, c.keyword),
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.FILL_IN_BLANK: {
+      const story = take(clues, count);
+      // Each clue sentence contributes one blank; the text after a blank runs into the next sentence
+      const storySegments = [''];
+      story.forEach(c => {
+        const [before, after] = blankOut(c.sentence, c.keyword).split('_____');
+        storySegments[storySegments.length - 1] += `${before}`;
+        storySegments.push(`${after} `);
+      });
+      return {
+        fillBlankContent: {
+          storySegments: storySegments.map((s, i) => (i === storySegments.length - 1 ? s.trimEnd() : s)),
+          missingWords: story.map(c => c.keyword),
+        },
+      };
+    }
+    case GameType.RIDDLE:
+      return {
+        riddleContent: clues.slice(0, count).map((c, i) => ({
+          id: `riddle-${i + 1}`,
+          clues: [
+            `I have ${c.keyword.length} letters.`,
+            `I start with "${c.keyword[0]}".`,
+            `You can find me here: "${blankOut(c.sentence, c.keyword)}"`,
+          ].slice(0, spec.clues!.max),
+          answer: c.keyword,
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.CROSSWORD:
+      return {
+        crosswordContent: clues.filter(c => c.keyword.length <= 10).slice(0, count).map(c => ({
+          word: c.keyword.toUpperCase(),
+          clue: blankOut(c.sentence, c.keyword),
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.EMOJI_CHALLENGE:
+      return {
+        emojiContent: take(clues, count).map((c, i) => ({
+          id: `emoji-${i + 1}`,
+          emojis: take(EMOJIS, 3, i * 2).join(''),
+          answer: c.keyword,
+          hint: `Starts with "${c.keyword[0]}" and has ${c.keyword.length} letters.`,
+          options: optionsFor(c.keyword, words, spec.options!.min, i),
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.TRIVIA_TRAIL:
+      return {
+        triviaTrailContent: take(clues, count).map((c, i) => ({
+          id: `step-${i + 1}`,
+          question: `Fill in the missing word: "${blankOut(c.sentence, c.keyword)}"`,
+          options: optionsFor(c.keyword, words, spec.options!.min, i),
+          correctAnswer: c.keyword,
+          sourceQuote: c.sentence,
+        })),
+      };
+    case GameType.FIND_MATCH:
+      return { findMatchContent: words.slice(0, count) };
+  }
+};
+
+export function createFixtureGame(input: GameGenerationInput, type: GameType, options?: GenerationOptions): GameData {
+  const source = readSource(input);
+  const label = type.replace(/_/g, ' ').toLowerCase();
+
+  return {
+    title: `Practice ${label}: ${source.words.slice(0, 2).join(' & ')}`,
+    instructions: `Offline practice ${label} built from the source text.`,
+    type,
+    mentorKey: source.sentences.slice(0, 5).map(s => `Discuss: "${s}"`),
+    ...buildContent(type, source, resolveGameSpec(type, options).items.min),
+  };
+}
+
+const STREAM_CHUNK = 160;
+const STREAM_DELAY_MS = 40;
+
+// Hands the JSON out in pieces, like a streamed response, so the loading preview and cancel work offline
+const streamText = async (text: string, signal?: AbortSignal, onPartialText?: (text: string) => void): Promise<string> => {
+  if (!onPartialText) return text;
+  for (let end = STREAM_CHUNK; end < text.length; end += STREAM_CHUNK) {
+    signal?.throwIfAborted();
+    onPartialText(text.slice(0, end));
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+  }
+  signal?.throwIfAborted();
+  onPartialText(text);
+  return text;
+};
+
+export const fixtureGenerator: GameGenerator = {
+  id: 'fixture',
+  model: 'fixture',
+  async generateGame({ input, type, options, signal, onPartialText }) {
+    return streamText(JSON.stringify(createFixtureGame(input, type, options)), signal, onPartialText);
+  },
+  async generateItem({ input, game, index }) {
+    const items = getContentItems(game);
+    const taken = new Set(items.map(itemKey));
+
+    // Build a bigger game from the same source and offer its first item this game doesn't have yet
+    const candidates = getContentItems({ ...game, ...buildContent(game.type, readSource(input), items.length * 2 + 1) });
+    let item = candidates.find(c => !taken.has(itemKey(c))) ?? items[index];
+
+    if (game.type === GameType.SORTING) {
+      const sorting = item as SortingItem;
+      const categories = game.sortingContent?.categories ?? [];
+      if (!categories.includes(sorting.category)) {
+        item = { ...sorting, category: (items[index] as SortingItem).category };
+      }
+    }
+    return JSON.stringify({ item });
+  },
+};
@@ -0,0 +1,157 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { GameGenerationInput, SourcePart } from "../../types";
+import { GEMINI_MODEL } from "../../constants";
+import { buildGameSchema, buildItemSchema } from "../gameSchema";
+import { buildGamePrompt, buildItemPrompt, buildRepairPrompt } from "../prompts";
+import { AppError, AuthError, EmptyResponseError, NetworkError, QuotaError, RequestError, ServiceUnavailableError } from "../errors";
+import { GameGenerator, GenerationRequest } from "./types";
+
+const resolveApiKey = (): string | undefined => {
+  // Check multiple sources for the API key to ensure compatibility with various environments
+  let apiKey = import.meta.env.VITE_GEMINI_API_KEY || process.env.API_KEY || process.env.GEMINI_API_KEY;
+
+  // Runtime fallback for browser environments where env vars might be injected into window
+  if (!apiKey && typeof window !== 'undefined') {
+    const win = window as any;
+    apiKey = win.GEMINI_API_KEY || win.API_KEY || (win.process && win.process.env && win.process.env.API_KEY);
+  }
+  return apiKey;
+};
+
+const toRequestPart = (part: SourcePart): any =>
+  part.type === 'text'
+    ? { text: part.value }
+    : { inlineData: { mimeType: part.mimeType, data: part.data } };
+
+// The source content as request parts, each labelled so the model reads them as one text in order
+const sourceParts = ({ parts }: GameGenerationInput): any[] => {
+  if (parts.length === 1) {
+    return [{ text: "Source content:" }, toRequestPart(parts[0])];
+  }
+  return [
+    { text: `Source content, in ${parts.length} parts to be read in this order as one text:` },
+    ...parts.flatMap((part, i) => [
+      { text: `Part ${i + 1}${part.name ? ` (${part.name})` : ""}:` },
+      toRequestPart(part),
+    ]),
+  ];
+};
+
+const buildContents = (
+  prompt: string,
+  input: GameGenerationInput,
+  repair?: GenerationRequest['repair'],
+  subject: 'game' | 'item' = 'game'
+): any[] => {
+  const parts: any[] = [{ text: prompt }, ...sourceParts(input)];
+
+  if (!repair) {
+    return [{ role: "user", parts }];
+  }
+
+  // Replay the failed answer and ask for a corrected one, so the model fixes its own output
+  return [
+    { role: "user", parts },
+    { role: "model", parts: [{ text: repair.previousResponse }] },
+    { role: "user", parts: [{ text: buildRepairPrompt(repair.violations, subject) }] },
+  ];
+};
+
+// The SDK reports HTTP failures as plain errors whose message carries the status code
+const HTTP_STATUS = /got status: (\d{3})|"code":\s*(\d{3})/;
+
+// Translates an SDK failure into a typed error the retry loop understands
+const toGenerationError = (error: unknown): unknown => {
+  if (error instanceof AppError || !(error instanceof Error)) return error;
+
+  const match = error.message.match(HTTP_STATUS);
+  if (!match) {
+    // fetch() rejects with a TypeError when the request never reached the server
+    return error instanceof TypeError ? new NetworkError(undefined, { cause: error }) : error;
+  }
+
+  const status = Number(match[1] ?? match[2]);
+  if (status === 429) return new QuotaError(undefined, { cause: error });
+  if (status >= 500) return new ServiceUnavailableError({ cause: error });
+  // A rejected key comes back as 400 "API key not valid"; the platform key bridge answers 404
+  // "Requested entity was not found" when the selected key has to be picked again
+  if (status === 401 || status === 403 || status === 404 || /API key/i.test(error.message)) {
+    return new AuthError(undefined, { cause: error });
+  }
+  return new RequestError(`The AI service rejected the request (HTTP ${status}).`, { cause: error });
+};
+
+/**
+ * Gemini backed generator. Create a fresh instance per generation so the latest API key
+ * injected by the platform bridge is picked up.
+ */
+export function createGeminiGenerator(): GameGenerator {
+  const apiKey = resolveApiKey();
+
+  if (!apiKey) {
+    console.error("API Key Check Failed. Checked: import.meta.env.VITE_GEMINI_API_KEY, process.env.API_KEY, window.GEMINI_API_KEY");
+    throw new AuthError("No API key detected. Please click the setup button to connect your key.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (contents: any[], responseSchema: Schema, signal?: AbortSignal): Promise<string> => {
+    let text: string | undefined;
+    try {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema,
+          abortSignal: signal,
+        },
+      });
+      text = response.text;
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+
+    if (!text) {
+      throw new EmptyResponseError();
+    }
+    return text;
+  };
+
+  // Games are streamed so the loading screen can preview them as they are written
+  const generateStream = async ({ input, type, options, repair, signal, onPartialText }: GenerationRequest): Promise<string> => {
+    let text = "";
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: GEMINI_MODEL,
+        contents: buildContents(buildGamePrompt(type, options), input, repair),
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: buildGameSchema(type, options),
+          abortSignal: signal,
+        },
+      });
+
+      for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        text += chunk.text ?? "";
+        onPartialText?.(text);
+      }
+    } catch (error) {
+      throw toGenerationError(error);
+    }
+
+    if (!text) {
+      throw new EmptyResponseError();
+    }
+    return text;
+  };
+
+  return {
+    id: 'gemini',
+    model: GEMINI_MODEL,
+    generateGame: generateStream,
+    generateItem: ({ input, game, index, options, repair, signal }) =>
+      generate(buildContents(buildItemPrompt(game, index, options), input, repair, 'item'), buildItemSchema(game), signal),
+  };
+}
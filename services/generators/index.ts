@@ -0,0 +1,12 @@
+import { createGeminiGenerator } from "./geminiGenerator";
+import { fixtureGenerator } from "./fixtureGenerator";
+import { GameGenerator, GeneratorId } from "./types";
+
+export type { GameGenerator, GenerationRequest, ItemGenerationRequest, GeneratorId } from "./types";
+
+// Selected at build time with the GAME_GENERATOR env var ("gemini" by default, "fixture" for offline work)
+export const ACTIVE_GENERATOR: GeneratorId = process.env.GAME_GENERATOR === 'fixture' ? 'fixture' : 'gemini';
+
+export function getGameGenerator(id: GeneratorId = ACTIVE_GENERATOR): GameGenerator {
+  return id === 'fixture' ? fixtureGenerator : createGeminiGenerator();
+}
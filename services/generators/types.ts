@@ -0,0 +1,47 @@
+import { GameData, GameType, GameGenerationInput, GenerationOptions } from "../../types";
+
+export type GeneratorId = 'gemini' | 'fixture';
+
+export interface GenerationRequest {
+  input: GameGenerationInput;
+  type: GameType;
+  // Audience, difficulty, item count and language; provider defaults when not set
+  options?: GenerationOptions;
+  // Aborts the in-flight request; the returned promise then rejects
+  signal?: AbortSignal;
+  // Called with all the JSON text received so far, each time more of it streams in
+  onPartialText?: (text: string) => void;
+  // Set when the previous attempt failed validation, so the provider can ask for a corrected version
+  repair?: {
+    previousResponse: string;
+    violations: string[];
+  };
+}
+
+export interface ItemGenerationRequest {
+  input: GameGenerationInput;
+  // The game the item belongs to, so the replacement fits in with (and differs from) the other items
+  game: GameData;
+  index: number;
+  options?: GenerationOptions;
+  signal?: AbortSignal;
+  // Same as GenerationRequest.repair, for a replacement that failed validation or duplicated an item
+  repair?: {
+    previousResponse: string;
+    violations: string[];
+  };
+}
+
+/**
+ * A source of generated games. Implementations return the raw JSON text of a single attempt;
+ * parsing, validation and retries are handled by generateGameFromContent. Failures are reported
+ * with the typed errors of services/errors.ts, which tell the retry loop what is worth retrying.
+ */
+export interface GameGenerator {
+  readonly id: GeneratorId;
+  // The model behind the generator; part of the generation cache key, so switching models misses the cache
+  readonly model: string;
+  generateGame(request: GenerationRequest): Promise<string>;
+  // Returns the raw JSON text of `{ "item": ... }` replacing one item of an existing game
+  generateItem(request: ItemGenerationRequest): Promise<string>;
+}
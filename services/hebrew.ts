@@ -0,0 +1,53 @@
+/**
+ * Helpers for games played in Hebrew (or Yiddish) letters: telling the text direction, stripping
+ * nikud, and the five letters with a final form (ך ם ן ף ץ), which count as the same letter in play.
+ */
+
+// Hebrew letters, including the Yiddish double vav / vav yod / double yod
+const HEBREW_LETTER = /[\u05D0-\u05EA\u05F0-\u05F2]/g;
+const LATIN_LETTER = /[A-Za-z]/g;
+// Nikud, cantillation and the other marks placed on Hebrew letters
+const HEBREW_MARKS = /[\u0591-\u05C7]/g;
+
+// Filler letters for Hebrew grids; final forms only appear at the end of a placed word
+export const HEBREW_ALPHABET = "אבגדהוזחטיכלמנסעפצקרשת";
+export const LATIN_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+const FINAL_TO_BASE: Record<string, string> = { "ך": "כ", "ם": "מ", "ן": "נ", "ף": "פ", "ץ": "צ" };
+const BASE_TO_FINAL: Record<string, string> = Object.fromEntries(
+  Object.entries(FINAL_TO_BASE).map(([final, base]) => [base, final])
+);
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+// True when the texts have more Hebrew letters than Latin ones
+export const isHebrewText = (...texts: (string | undefined)[]): boolean => {
+  const text = texts.filter(Boolean).join(" ");
+  const hebrew = countMatches(text, HEBREW_LETTER);
+  return hebrew > 0 && hebrew > countMatches(text, LATIN_LETTER);
+};
+
+export const textDirection = (...texts: (string | undefined)[]): 'rtl' | 'ltr' =>
+  isHebrewText(...texts) ? 'rtl' : 'ltr';
+
+// Presentation forms (שׁ, בּ...) are decomposed first so their marks can be removed too
+export const stripNikud = (text: string): string =>
+  text.normalize("NFD").replace(HEBREW_MARKS, "").normalize("NFC");
+
+export const toBaseForms = (text: string): string =>
+  text.replace(/[ךםןףץ]/g, letter => FINAL_TO_BASE[letter]);
+
+// Writes כ מ נ פ צ at the end of a word in their final form
+export const toFinalForms = (text: string): string =>
+  text.replace(/[כמנפצ](?![\u05D0-\u05EA])/g, letter => BASE_TO_FINAL[letter]);
+
+/**
+ * The letters a game compares: no nikud, Latin letters in upper case and final forms as their
+ * base letter, so "שָׁלוֹם" matches "שלומ" and "Shalom" matches "SHALOM".
+ */
+export const gridLetters = (text: string): string => toBaseForms(stripNikud(text).toUpperCase());
+
+export const sameLetters = (a: string, b: string): boolean => gridLetters(a) === gridLetters(b);
+
+// The alphabet to fill a grid around the given words with
+export const alphabetFor = (words: string[]): string => (isHebrewText(...words) ? HEBREW_ALPHABET : LATIN_ALPHABET);
@@ -0,0 +1,114 @@
+import { GameData, GameType, GameGenerationInput } from "../types";
+import { getRecord, getAllRecords, putRecord, deleteRecord } from "./localDb";
+import { NotFoundError } from "./errors";
+import { seedFromText } from "./random";
+
+/**
+ * Local game library: every game generated or opened on this device, kept in IndexedDB
+ * so it can be played again without calling Gemini.
+ */
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  type: GameType;
+  sourceSnippet: string;
+  origin: 'generated' | 'shared' | 'duplicate';
+  createdAt: string;
+  updatedAt: string;
+  data: GameData;
+}
+
+const SNIPPET_LENGTH = 140;
+
+// Stable entry id for a shared link, so opening the same link twice doesn't create duplicates
+export const sharedLinkEntryId = (linkKey: string): string => `shared-${seedFromText(linkKey).toString(36)}`;
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+// Short human readable description of what a game was generated from
+export const describeSource = (input?: GameGenerationInput): string => {
+  if (!input) return "";
+  const text = input.parts
+    .map(part => (part.type === 'text' ? part.value : ""))
+    .join(" ")
+    .replace(/\s+/g, ' ')
+    .trim();
+  // Only files we can't read here (PDFs, photos): list them instead
+  if (!text) {
+    const names = input.parts.map(part => part.name ?? "Uploaded file");
+    return names.length === 1 ? names[0] : `${names.length} files: ${names.join(", ")}`;
+  }
+  return text.length > SNIPPET_LENGTH ? `${text.substring(0, SNIPPET_LENGTH)}…` : text;
+};
+
+export const listLibraryEntries = async (): Promise<LibraryEntry[]> => {
+  const entries = await getAllRecords<LibraryEntry>('library');
+  return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getLibraryEntry = (id: string): Promise<LibraryEntry | undefined> =>
+  getRecord<LibraryEntry>('library', id);
+
+/**
+ * Records a game in the library. Passing an id (e.g. the short id of a shared link) makes the call
+ * idempotent: an existing entry is only bumped to the top, keeping any rename the user made.
+ */
+export const saveToLibrary = async (
+  data: GameData,
+  options: { id?: string; sourceSnippet?: string; origin?: LibraryEntry['origin'] } = {}
+): Promise<LibraryEntry> => {
+  const now = new Date().toISOString();
+
+  if (options.id) {
+    const existing = await getLibraryEntry(options.id);
+    if (existing) {
+      const touched = { ...existing, updatedAt: now };
+      await putRecord('library', touched);
+      return touched;
+    }
+  }
+
+  const entry: LibraryEntry = {
+    id: options.id ?? newId(),
+    title: data.title,
+    type: data.type,
+    sourceSnippet: options.sourceSnippet ?? "",
+    origin: options.origin ?? 'generated',
+    createdAt: now,
+    updatedAt: now,
+    data,
+  };
+  await putRecord('library', entry);
+  return entry;
+};
+
+export const renameLibraryEntry = async (id: string, title: string): Promise<LibraryEntry> => {
+  const entry = await getLibraryEntry(id);
+  if (!entry) throw new NotFoundError("Game not found in your library.");
+
+  // The title lives on the game too, so a re-opened game shows the new name
+  const renamed = { ...entry, title, data: { ...entry.data, title }, updatedAt: new Date().toISOString() };
+  await putRecord('library', renamed);
+  return renamed;
+};
+
+// Replaces the stored game after it was edited
+export const updateLibraryEntryGame = async (id: string, data: GameData): Promise<LibraryEntry> => {
+  const entry = await getLibraryEntry(id);
+  if (!entry) throw new NotFoundError("Game not found in your library.");
+
+  const updated = { ...entry, title: data.title, data, updatedAt: new Date().toISOString() };
+  await putRecord('library', updated);
+  return updated;
+};
+
+// `copyTitle` names the copy in the mentor's language (see library.copyTitle in the message catalogs)
+export const duplicateLibraryEntry = async (id: string, copyTitle: (title: string) => string): Promise<LibraryEntry> => {
+  const entry = await getLibraryEntry(id);
+  if (!entry) throw new NotFoundError("Game not found in your library.");
+
+  return saveToLibrary({ ...entry.data, title: copyTitle(entry.title) }, { sourceSnippet: entry.sourceSnippet, origin: 'duplicate' });
+};
+
+export const deleteLibraryEntry = (id: string): Promise<void> => deleteRecord('library', id);
@@ -0,0 +1,65 @@
+import { GameData, GameType } from "../types";
+import { LiveProgress } from "./firebaseService";
+
+/**
+ * Progress reporting for competitive live board games. Each player's game sends small events as
+ * they play; they are added up in the session document (see reportProgress) so the host can watch
+ * every student at once and see who is stuck.
+ */
+
+export type ProgressEvent =
+  // Items solved, keyed as in progressItems
+  | { type: "completed"; items: string[] }
+  // A wrong answer, on the items it was about when the game knows them
+  | { type: "mistake"; items?: string[] }
+  | { type: "hint" }
+  | { type: "finished" };
+
+// A player is stuck after this long without solving anything...
+export const STUCK_AFTER_MS = 60_000;
+// ...or after this many wrong answers in a row
+export const STUCK_MISTAKES = 3;
+
+const ids = (items: { id: string }[] | undefined): string[] => (items || []).map(item => item.id);
+const indices = (items: unknown[] | undefined): string[] => (items || []).map((_, i) => String(i));
+
+// The items a player works through, as the keys their progress events use; null for games without an end
+export const progressItems = (data: GameData): string[] | null => {
+  switch (data.type) {
+    case GameType.MATCHING:
+    case GameType.MEMORY:
+      return ids(data.matchingContent);
+    case GameType.SEQUENCE:
+      return ids(data.sequenceContent);
+    case GameType.SORTING:
+      return ids(data.sortingContent?.items);
+    case GameType.FILL_IN_BLANK:
+      return indices(data.fillBlankContent?.missingWords);
+    case GameType.RIDDLE:
+      return indices(data.riddleContent);
+    case GameType.EMOJI_CHALLENGE:
+      return indices(data.emojiContent);
+    case GameType.TRIVIA_TRAIL:
+      return indices(data.triviaTrailContent);
+    default:
+      // Find the Match deals rounds until the players stop
+      return null;
+  }
+};
+
+export const completedCount = (progress: LiveProgress | undefined): number =>
+  Object.values(progress?.items || {}).filter(status => status === "done").length;
+
+// `startedAtMs` is when the game started, for players who haven't solved anything yet
+export const isStuck = (progress: LiveProgress | undefined, startedAtMs: number | undefined, nowMs: number): boolean => {
+  if (progress?.finishedAt) return false;
+  if ((progress?.mistakeStreak || 0) >= STUCK_MISTAKES) return true;
+  const since = progress?.lastProgressAt?.toMillis() ?? startedAtMs;
+  return since !== undefined && nowMs - since > STUCK_AFTER_MS;
+};
+
+// Time from the start of the game to the player finishing, as m:ss
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
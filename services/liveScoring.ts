@@ -0,0 +1,47 @@
+import type { LiveAnswer, LivePlayer } from "./firebaseService";
+
+/**
+ * Scoring for the competitive live quiz. A right answer is worth BASE_POINTS plus up to
+ * SPEED_POINTS more the faster it came in; the speed bonus runs out after SPEED_WINDOW_MS.
+ * Times are the server's, so a slow clock on one device doesn't help or hurt anyone.
+ */
+
+export const BASE_POINTS = 500;
+export const SPEED_POINTS = 500;
+export const SPEED_WINDOW_MS = 20_000;
+
+export const scoreAnswer = (correct: boolean, elapsedMs: number): number => {
+  if (!correct) return 0;
+  const speed = Math.min(1, Math.max(0, 1 - elapsedMs / SPEED_WINDOW_MS));
+  return BASE_POINTS + Math.round(SPEED_POINTS * speed);
+};
+
+// Points won by each player for the current question; answers without a server time get no speed bonus
+export const scoreAnswers = (
+  answers: Record<string, LiveAnswer>,
+  correctAnswer: string,
+  startedAtMs: number | undefined
+): Record<string, number> => {
+  const points: Record<string, number> = {};
+  Object.entries(answers).forEach(([playerId, { option, answeredAt }]) => {
+    const elapsed = answeredAt && startedAtMs !== undefined ? answeredAt.toMillis() - startedAtMs : SPEED_WINDOW_MS;
+    points[playerId] = scoreAnswer(option === correctAnswer, elapsed);
+  });
+  return points;
+};
+
+export interface RankedPlayer extends LivePlayer {
+  id: string;
+  rank: number;
+}
+
+// Highest score first; players with the same score share a rank
+export const rankPlayers = (players: Record<string, LivePlayer>): RankedPlayer[] => {
+  const sorted = Object.entries(players)
+    .map(([id, player]) => ({ ...player, id, score: player.score || 0 }))
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return sorted.map((player, i) => ({
+    ...player,
+    rank: i > 0 && sorted[i - 1].score === player.score ? sorted.findIndex(p => p.score === player.score) + 1 : i + 1,
+  }));
+};
@@ -0,0 +1,81 @@
+import type { LivePresence, LiveSessionState } from "./firebaseService";
+
+/**
+ * Live session lifecycle. Sessions expire SESSION_TTL_MS after they are created, and this device
+ * remembers the sessions it hosts or has joined so a reload doesn't lose the host's control or a
+ * student's place. Players send a heartbeat to their own presence document while the page is open;
+ * one that stops is shown as disconnected.
+ */
+
+export const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+export const HEARTBEAT_MS = 20_000;
+// A player is shown as disconnected after missing a couple of heartbeats
+export const OFFLINE_AFTER_MS = 3 * HEARTBEAT_MS;
+
+const STORAGE_KEY = "myshliach.liveSessions";
+
+export interface RememberedSession {
+  // The session's hostId, kept only by the device that created it
+  hostId?: string;
+  playerId?: string;
+  playerName?: string;
+  expiresAt: number;
+}
+
+const readAll = (): Record<string, RememberedSession> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    // Storage can be blocked (e.g. private mode); the session then only lasts until a reload
+    return {};
+  }
+};
+
+const writeAll = (sessions: Record<string, RememberedSession>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch {
+    // See readAll
+  }
+};
+
+export const rememberedSession = (sessionId: string): RememberedSession | undefined => {
+  const session = readAll()[sessionId];
+  return session && session.expiresAt > Date.now() ? session : undefined;
+};
+
+export const rememberSession = (sessionId: string, details: Partial<RememberedSession>) => {
+  const sessions = readAll();
+  sessions[sessionId] = { expiresAt: Date.now() + SESSION_TTL_MS, ...sessions[sessionId], ...details };
+  writeAll(sessions);
+};
+
+export const forgetSession = (sessionId: string) => {
+  const sessions = readAll();
+  delete sessions[sessionId];
+  writeAll(sessions);
+};
+
+// Forgets every expired session and returns the ones this device hosted, so their documents can be deleted
+export const takeExpiredHostedSessions = (): string[] => {
+  const sessions = readAll();
+  const expired = Object.keys(sessions).filter(id => sessions[id].expiresAt <= Date.now());
+  const hosted = expired.filter(id => !!sessions[id].hostId);
+  expired.forEach(id => delete sessions[id]);
+  writeAll(sessions);
+  return hosted;
+};
+
+// Takes the #live= link out of the address once the session is left or over, so a reload doesn't go back to it
+export const clearLiveLink = () => {
+  if (window.location.hash.startsWith("#live=")) {
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+  }
+};
+
+export const isSessionExpired = (session: LiveSessionState, nowMs: number): boolean =>
+  !!session.expiresAt && session.expiresAt.toMillis() <= nowMs;
+
+// Players whose first heartbeat is still on its way count as online
+export const isPlayerOnline = (presence: LivePresence | undefined, nowMs: number): boolean =>
+  presence?.connected !== false && (!presence?.lastSeen || nowMs - presence.lastSeen.toMillis() < OFFLINE_AFTER_MS);
@@ -0,0 +1,86 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB, shared by the local (per-device) stores.
+ */
+
+const DB_NAME = "myshliach-game-gen";
+const DB_VERSION = 2;
+
+export type StoreName = 'library' | 'generationCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Creates or migrates the object stores. Each version only adds what it introduced.
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const library = db.createObjectStore('library', { keyPath: 'id' });
+    library.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 2) {
+    const cache = db.createObjectStore('generationCache', { keyPath: 'key' });
+    cache.createIndex('lastUsedAt', 'lastUsedAt');
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("Local storage is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Allow a later call to try again (e.g. after the user closes another tab blocking the upgrade)
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = await requestToPromise(run(transaction.objectStore(storeName)));
+
+  if (mode === 'readwrite') {
+    // Only resolve writes once they are durable
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+  return result;
+};
+
+export const getRecord = <T>(storeName: StoreName, key: string): Promise<T | undefined> =>
+  withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const getAllRecords = <T>(storeName: StoreName): Promise<T[]> =>
+  withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const putRecord = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.put(value));
+};
+
+export const deleteRecord = async (storeName: StoreName, key: string): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const clearStore = async (storeName: StoreName): Promise<void> => {
+  await withStore(storeName, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,67 @@
+/**
+ * Best-effort parsing of an incomplete JSON document, as received while a response is streaming.
+ * Open strings, arrays and objects are closed; a trailing fragment that can't be completed
+ * (half a key, a key without its value, a cut-off literal) is dropped.
+ */
+
+interface CutPoint {
+  // Length of the prefix to keep
+  end: number;
+  // Containers still open at that point, innermost last
+  open: string;
+}
+
+const closeAll = (open: string) =>
+  [...open].reverse().map(c => (c === '{' ? '}' : ']')).join("");
+
+const tryParse = (text: string): unknown | undefined => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+export function parsePartialJson(text: string): unknown | undefined {
+  const complete = tryParse(text);
+  if (complete !== undefined) return complete;
+
+  let open = "";
+  let inString = false;
+  let escaped = false;
+  // Places where the document can be cut and still be valid once its containers are closed
+  const cuts: CutPoint[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') {
+      open += char;
+      cuts.push({ end: i + 1, open });
+    } else if (char === '}' || char === ']') {
+      open = open.slice(0, -1);
+      cuts.push({ end: i + 1, open });
+    } else if (char === ',') {
+      cuts.push({ end: i, open });
+    }
+  }
+
+  // Most of the time the text only needs its last string and containers closed
+  let tail = text;
+  if (inString) tail = (escaped ? tail.slice(0, -1) : tail) + '"';
+  const closed = tryParse(tail + closeAll(open));
+  if (closed !== undefined) return closed;
+
+  for (let i = cuts.length - 1; i >= 0; i--) {
+    const { end, open: openAtCut } = cuts[i];
+    const parsed = tryParse(text.slice(0, end) + closeAll(openAtCut));
+    if (parsed !== undefined) return parsed;
+  }
+  return undefined;
+}
@@ -0,0 +1,139 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { SourcePart } from "../types";
+
+/**
+ * Reads PDFs in the browser, so only the pages (or the passage) the mentor picks are sent to the model,
+ * as text. Pages without a text layer (scanned Koivetz pages) are sent as images instead.
+ */
+
+export interface PdfPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface PdfSource {
+  name: string;
+  pages: PdfPage[];
+  document: PDFDocumentProxy;
+}
+
+// What to send from a PDF: a page range, or just a passage highlighted in it
+export interface PdfSelection {
+  from: number;
+  to: number;
+  passage?: string;
+}
+
+// Fewer characters than this and the page is treated as a scan
+const MIN_PAGE_TEXT = 20;
+const SCAN_IMAGE_WIDTH = 1400;
+
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+
+// Character maps and fonts some PDFs need, copied next to the app by the pdfjs-assets plugin in vite.config.ts
+const PDFJS_ASSETS = `${import.meta.env.BASE_URL}pdfjs`;
+
+// pdf.js is large, so it is only loaded once a PDF is picked. The worker is bundled with the app like the rest of pdf.js.
+const loadPdfJs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist").then((pdfjs) => {
+      pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+      return pdfjs;
+    }).catch((error) => {
+      pdfjsPromise = null;
+      throw error;
+    });
+  }
+  return pdfjsPromise;
+};
+
+const readPageText = async (document: PDFDocumentProxy, pageNumber: number): Promise<string> => {
+  const page = await document.getPage(pageNumber);
+  const content = await page.getTextContent();
+  return content.items
+    .map(item => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .trim();
+};
+
+export const openPdf = async (file: File): Promise<PdfSource> => {
+  const pdfjs = await loadPdfJs();
+  const document = await pdfjs.getDocument({
+    data: new Uint8Array(await file.arrayBuffer()),
+    cMapUrl: `${PDFJS_ASSETS}/cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `${PDFJS_ASSETS}/standard_fonts/`,
+  }).promise;
+
+  const pages: PdfPage[] = [];
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    pages.push({ pageNumber, text: await readPageText(document, pageNumber) });
+  }
+  return { name: file.name, pages, document };
+};
+
+export const closePdf = (source: PdfSource): void => {
+  source.document.destroy();
+};
+
+export const isScannedPage = (page: PdfPage): boolean => page.text.replace(/\s/g, "").length < MIN_PAGE_TEXT;
+
+// Renders a page to a JPEG data URL, `width` pixels wide
+export const renderPdfPage = async (source: PdfSource, pageNumber: number, width: number): Promise<string> => {
+  const page = await source.document.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+
+  const canvas = window.document.createElement("canvas");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  await page.render({ canvasContext: canvas.getContext("2d")!, viewport }).promise;
+  return canvas.toDataURL("image/jpeg", 0.85);
+};
+
+export const selectedPages = (source: PdfSource, { from, to }: PdfSelection): PdfPage[] =>
+  source.pages.filter(page => page.pageNumber >= from && page.pageNumber <= to);
+
+// The text of the selected pages, each headed by its page number
+export const selectionText = (source: PdfSource, selection: PdfSelection): string =>
+  selectedPages(source, selection)
+    .filter(page => !isScannedPage(page))
+    .map(page => `[Page ${page.pageNumber}]\n${page.text}`)
+    .join("\n\n");
+
+/**
+ * The source parts for a selection: the highlighted passage, or the pages in range, in order.
+ * Consecutive text pages are sent as one text part; scanned pages in between as page images.
+ */
+export const pdfSelectionParts = async (source: PdfSource, selection: PdfSelection): Promise<SourcePart[]> => {
+  if (selection.passage?.trim()) {
+    return [{ type: 'text', value: selection.passage.trim(), name: `${source.name}, selected passage` }];
+  }
+
+  const parts: SourcePart[] = [];
+  let textPages: PdfPage[] = [];
+  const flushText = () => {
+    if (textPages.length === 0) return;
+    const first = textPages[0].pageNumber;
+    const last = textPages[textPages.length - 1].pageNumber;
+    parts.push({
+      type: 'text',
+      value: textPages.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join("\n\n"),
+      name: `${source.name}, ${first === last ? `page ${first}` : `pages ${first}-${last}`}`,
+    });
+    textPages = [];
+  };
+
+  for (const page of selectedPages(source, selection)) {
+    if (!isScannedPage(page)) {
+      textPages.push(page);
+      continue;
+    }
+    flushText();
+    const image = await renderPdfPage(source, page.pageNumber, SCAN_IMAGE_WIDTH);
+    parts.push({ type: 'file', data: image.split(",")[1], mimeType: "image/jpeg", name: `${source.name}, page ${page.pageNumber}` });
+  }
+  flushText();
+  return parts;
+};
@@ -0,0 +1,170 @@
+import { GameData, GameType, GenerationOptions } from "../types";
+import { DEFAULT_GENERATION_OPTIONS } from "../constants";
+import { formatCount, hasCitations, resolveGameSpec } from "./gameSchema";
+import { getContentItems } from "./gameItems";
+
+const AUDIENCE: Record<GenerationOptions['ageBand'], string> = {
+  '6-8': "young students (ages 6-8)",
+  '8-12': "students (ages 8-12)",
+  '12-16': "teenagers (ages 12-16)",
+};
+
+const AGE_GUIDANCE: Record<GenerationOptions['ageBand'], string> = {
+  '6-8': "They are early readers: use very short sentences, simple everyday words and concrete ideas.",
+  '8-12': "Use clear language suited to their age.",
+  '12-16': "Use richer vocabulary and go into the deeper ideas and the reasons behind them.",
+};
+
+const DIFFICULTY_GUIDANCE: Record<GenerationOptions['difficulty'], string> = {
+  easy: "Keep it easy: ask about the main events and ideas, and make wrong options clearly wrong.",
+  medium: "Use a medium difficulty: mix main ideas with a few details.",
+  hard: "Make it challenging: ask about details, reasons and lessons, with plausible wrong options.",
+};
+
+const LANGUAGE_GUIDANCE: Record<GenerationOptions['language'], string> = {
+  en: "Write all text in English.",
+  he: "Write all text (title, instructions, items and mentorKey) in Hebrew, without nikud.",
+  yi: "Write all text (title, instructions, items and mentorKey) in Yiddish, in Hebrew letters without nikud.",
+  mixed: "Write in English, using the Hebrew and Yiddish words and expressions naturally used in a Chassidish home.",
+};
+
+const HEBREW_TERM_GUIDANCE: Record<GenerationOptions['hebrewTerms'], string> = {
+  transliterate: "Keep Hebrew and Yiddish terms in Ashkenazi transliteration (Shabbos, Tzedakah, Chassid).",
+  gloss: "Keep Hebrew and Yiddish terms in Ashkenazi transliteration and add a short English explanation in parentheses the first time each appears (Tzedakah (charity)).",
+  translate: "Translate Hebrew and Yiddish terms into plain English wherever a good translation exists.",
+};
+
+// Audience, difficulty and language lines shared by the game and item prompts
+const describeOptions = (options: GenerationOptions): string => {
+  const lines = [AGE_GUIDANCE[options.ageBand], DIFFICULTY_GUIDANCE[options.difficulty], LANGUAGE_GUIDANCE[options.language]];
+  // Term spelling only matters when the text is in English
+  if (options.language === 'en' || options.language === 'mixed') {
+    lines.push(HEBREW_TERM_GUIDANCE[options.hebrewTerms]);
+  }
+  if (options.language === 'he' || options.language === 'yi') {
+    lines.push("True/False options must still be exactly 'True' and 'False'.");
+  }
+  return lines.join("\n  ");
+};
+
+const CITATION_GUIDANCE = `Set 'sourceQuote' to the passage of the source content the item is based on (at most 25 words), copied exactly as written there, in the source's own language.
+  If the source has pages (a PDF, or text marked [Page n]), set 'sourcePage' to the page the quote is on.`;
+
+/**
+ * Main instruction prompt for generating one game. Provider agnostic: the source content is sent
+ * alongside it as separate parts.
+ */
+export const buildGamePrompt = (type: GameType, options: GenerationOptions = DEFAULT_GENERATION_OPTIONS): string => {
+  const typeSpecificInstructions = getInstructionsForType(type, options);
+  return `You are a creative Jewish educator and game designer for MyShliach. 
+  Create a ${type} game for ${AUDIENCE[options.ageBand]} based on the provided Koivetz content.
+  The Koivetz usually contains stories of Tzaddikim, Sichos, or Halachos.
+  
+  Activity Requirements for ${type}:
+  ${typeSpecificInstructions}
+  ${describeOptions(options)}
+  ${hasCitations(type) ? `
+  Source Citations:
+  For every item: ${CITATION_GUIDANCE}
+  ` : ""}
+  Mentor Corner Requirement:
+  Provide a 'mentorKey' with 5-10 bullet points that help a mentor summarize the main lesson or discuss the core values of the story with their student.
+  
+  Ensure all content is engaging, accurate to the source, and uses appropriate terminology.
+  Return only JSON matching the schema.`;
+};
+
+// Follow-up turn asking the model to fix the problems found by the validator
+export const buildRepairPrompt = (violations: string[], subject: 'game' | 'item' = 'game'): string =>
+  `Your previous JSON response cannot be played because of these problems:
+${violations.map(v => `- ${v}`).join("\n")}
+
+Fix every problem listed above and return the complete corrected ${subject} as JSON matching the schema.
+Keep all other content unchanged.`;
+
+/**
+ * Prompt for replacing one item of an existing game. The whole item list is included so the model
+ * can match its style and avoid repeating any of the other items.
+ */
+export const buildItemPrompt = (
+  game: GameData,
+  index: number,
+  options: GenerationOptions = DEFAULT_GENERATION_OPTIONS
+): string => {
+  const items = getContentItems(game);
+  return `You are a creative Jewish educator and game designer for MyShliach.
+  Below is a ${game.type} game titled "${game.title}" for ${AUDIENCE[options.ageBand]}, created from the provided Koivetz content.
+  Its current items, as JSON:
+  ${JSON.stringify(items, null, 2)}
+
+  Write ONE new item to replace item number ${index + 1}:
+  ${JSON.stringify(items[index])}
+
+  Requirements:
+  - Base it on the source content and keep it accurate to it.
+  - Match the style, length, language and difficulty of the other items.
+  - It must be different from the item it replaces and must not repeat or closely resemble any other item.
+  ${getItemRequirements(game, index)}
+  ${hasCitations(game.type) ? `- ${CITATION_GUIDANCE}` : ""}
+
+  ${describeOptions(options)}
+
+  Return only JSON of the form { "item": ... } matching the schema.`;
+};
+
+// Extra constraints so the replacement still fits where it sits in the game
+const getItemRequirements = (game: GameData, index: number): string => {
+  switch (game.type) {
+    case GameType.SEQUENCE:
+      return `- It must describe step ${index + 1} of the order, happening after the step before it and before the step after it.`;
+    case GameType.SORTING:
+      return `- Its category must be one of: ${game.sortingContent?.categories.join(", ")}.`;
+    case GameType.FILL_IN_BLANK:
+      return `- "storySegment" is the story text leading up to the blank and "missingWord" the word that fills it. The story continues with: "${game.fillBlankContent?.storySegments[index + 1] ?? ""}"`;
+    case GameType.WORD_SEARCH:
+      return `- The word must be a single word made of letters only.`;
+    case GameType.CROSSWORD:
+      return `- The word must be a single word made of letters only, sharing letters with the other words so it can cross them: ${game.crosswordContent?.filter((_, i) => i !== index).map(item => item.word).join(", ")}.`;
+    default:
+      return "";
+  }
+};
+
+// Helper function to get specific instructions for each game type.
+// Item counts come from resolveGameSpec so they always agree with the response schema.
+const getInstructionsForType = (type: GameType, options: GenerationOptions): string => {
+  const spec = resolveGameSpec(type, options);
+  const items = formatCount(spec.items);
+
+  switch (type) {
+    case GameType.QUIZ:
+      return `Generate ${items} multiple-choice questions with ${formatCount(spec.options!)} options each, one correct answer, and a short explanation.`;
+    case GameType.TRUE_FALSE:
+      return `Generate ${items} true or false statements using the quizContent format with 2 options: 'True' and 'False'.`;
+    case GameType.MATCHING:
+    case GameType.MEMORY:
+      return `Generate ${items} pairs of distinct terms and their corresponding definitions.`;
+    case GameType.SEQUENCE:
+      return `Generate ${items} segments of a story or process that must be arranged in chronological order (order 1-${spec.items.max}).`;
+    case GameType.WORD_SEARCH:
+      return `Extract a list of ${items} thematic words related to the content for a word search.`;
+    case GameType.SORTING:
+      return `Define ${formatCount(spec.categories!)} logical categories and ${items} items that each belong to one category.`;
+    case GameType.UNSCRAMBLE:
+      return `Select ${items} key vocabulary words to unscramble with a short hint for each.`;
+    case GameType.FILL_IN_BLANK:
+      return `Generate a story summary with ${items} missing words. Return full text split into segments and the missing words (always exactly one more segment than missing words).`;
+    case GameType.RIDDLE:
+      return `Create ${items} riddles. Each must have ${formatCount(spec.clues!)} clues and an answer.`;
+    case GameType.CROSSWORD:
+      return `Provide a list of ${items} words and their clues. The words are laid out crossing each other, so choose words that share letters.`;
+    case GameType.EMOJI_CHALLENGE:
+      return `Generate ${items} challenges where emojis represent a concept. Provide ${formatCount(spec.options!)} options.`;
+    case GameType.TRIVIA_TRAIL:
+      return `Generate ${items} trivia questions with ${formatCount(spec.options!)} options each that serve as steps on a journey.`;
+    case GameType.FIND_MATCH:
+      return `Extract ${items} distinct terms for a fast matching game.`;
+    default:
+      return "Create an engaging educational activity.";
+  }
+};
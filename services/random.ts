@@ -0,0 +1,50 @@
+import { GameData } from "../types";
+import { getContentItems } from "./gameItems";
+
+/**
+ * Seeded pseudo-random numbers, for layouts that must come out the same on every device
+ * (e.g. the host and the players of a live session, or a printed sheet and the screen).
+ */
+
+// Mulberry32: small, fast and good enough for shuffling game content
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a hash of a text, to derive a stable seed from game content (or a stable id, see sharedLinkEntryId)
+export const seedFromText = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// A fresh seed, for a new game or a new shuffle of an existing one
+export const newSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Games saved before seeds existed get one derived from their content, so they stay stable too
+export const gameSeed = (data: GameData): number =>
+  data.seed ?? seedFromText(JSON.stringify(getContentItems(data)));
+
+// The random source for one part of a game; each `purpose` (e.g. "cards") gets its own sequence
+export const gameRandom = (data: GameData, purpose: string): (() => number) =>
+  createRandom(gameSeed(data) ^ seedFromText(purpose));
+
+// Fisher-Yates shuffle into a new array
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,158 @@
+import { SourcePart } from "../types";
+import { ValidationError } from "./errors";
+
+/**
+ * Turns the files a mentor picks into source parts. PDFs and photos are sent to the model as they are;
+ * Word documents and text files are read here, as the model only takes their text.
+ */
+
+export type SourceFileKind = 'pdf' | 'image' | 'docx' | 'text';
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Browsers often leave the type of HEIC photos (and some text files) empty, so the extension decides then
+const KINDS: { kind: SourceFileKind; mimeTypes: string[]; extensions: string[] }[] = [
+  { kind: 'pdf', mimeTypes: ["application/pdf"], extensions: ["pdf"] },
+  { kind: 'image', mimeTypes: ["image/jpeg", "image/png", "image/heic", "image/heif"], extensions: ["jpg", "jpeg", "png", "heic", "heif"] },
+  { kind: 'docx', mimeTypes: [DOCX_MIME], extensions: ["docx"] },
+  { kind: 'text', mimeTypes: ["text/plain", "text/markdown"], extensions: ["txt", "md"] },
+];
+
+const IMAGE_MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  heic: "image/heic",
+  heif: "image/heif",
+};
+
+// Inline request data is limited to about 20 MB; base64 makes files a third bigger
+export const MAX_INLINE_BYTES = 15 * 1024 * 1024;
+
+// The `accept` attribute of the file picker
+export const ACCEPTED_FILES = KINDS.flatMap(k => [...k.mimeTypes, ...k.extensions.map(ext => `.${ext}`)]).join(",");
+
+const extensionOf = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+export const getSourceFileKind = (file: File): SourceFileKind | undefined => {
+  const extension = extensionOf(file.name);
+  return KINDS.find(k => (file.type ? k.mimeTypes.includes(file.type) : false) || k.extensions.includes(extension))?.kind;
+};
+
+const readAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Remove the data URL prefix (e.g., "data:application/pdf;base64,")
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/**
+ * Reads one file into a source part. Throws a ValidationError for files we can't use.
+ */
+export const readSourceFile = async (file: File): Promise<SourcePart> => {
+  const kind = getSourceFileKind(file);
+  if (!kind) {
+    throw new ValidationError(`"${file.name}" can't be used. Upload PDFs, photos (JPEG, PNG, HEIC), Word documents or text files.`, []);
+  }
+
+  switch (kind) {
+    case 'text':
+      return { type: 'text', value: await file.text(), name: file.name };
+    case 'docx': {
+      const value = await extractDocxText(await file.arrayBuffer()).catch((error) => {
+        throw new ValidationError(`"${file.name}" could not be read as a Word document.`, [], { cause: error });
+      });
+      if (!value.trim()) throw new ValidationError(`"${file.name}" doesn't contain any text.`, []);
+      return { type: 'text', value, name: file.name };
+    }
+    default: {
+      const mimeType = kind === 'pdf' ? "application/pdf" : file.type || IMAGE_MIME_BY_EXTENSION[extensionOf(file.name)];
+      return { type: 'file', data: await readAsBase64(file), mimeType, name: file.name };
+    }
+  }
+};
+
+// Approximate size of a part in the request
+export const sourcePartBytes = (part: SourcePart): number =>
+  part.type === 'text' ? new Blob([part.value]).size : Math.floor(part.data.length * 3 / 4);
+
+// --- DOCX ---
+
+/**
+ * A .docx file is a zip archive; its text lives in word/document.xml. Reads that one entry with the
+ * browser's own inflate, so no zip library is needed.
+ */
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<Uint8Array> => {
+  const view = new DataView(buffer);
+
+  // The end of central directory record sits at the end, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a zip archive.");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Corrupt zip directory.");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return data;
+      if (method !== 8) throw new Error(`Unsupported zip compression method ${method}.`);
+
+      const inflated = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(inflated).arrayBuffer());
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  throw new Error(`${entryName} not found in the archive.`);
+};
+
+const WORD_NS = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+const isParagraph = (node: Element) => node.namespaceURI === WORD_NS && node.localName === "p";
+
+// The paragraph a node belongs to (text boxes put paragraphs inside paragraphs)
+const paragraphOf = (node: Element): Element | null => {
+  let current = node.parentElement;
+  while (current && !isParagraph(current)) current = current.parentElement;
+  return current;
+};
+
+// One line per paragraph; tabs and line breaks inside paragraphs are kept
+const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const xml = new TextDecoder().decode(await readZipEntry(buffer, "word/document.xml"));
+  const document = new DOMParser().parseFromString(xml, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) throw new Error("Invalid document.xml.");
+
+  const paragraphs = Array.from(document.getElementsByTagNameNS(WORD_NS, "p"));
+  return paragraphs
+    .map(paragraph => {
+      let text = "";
+      paragraph.querySelectorAll("*").forEach(node => {
+        if (node.namespaceURI !== WORD_NS || paragraphOf(node) !== paragraph) return;
+        if (node.localName === "t") text += node.textContent ?? "";
+        else if (node.localName === "tab") text += "\t";
+        else if (node.localName === "br" || node.localName === "cr") text += "\n";
+      });
+      return text;
+    })
+    .join("\n");
+};
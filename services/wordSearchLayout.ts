@@ -0,0 +1,139 @@
+import { Difficulty } from "../types";
+import { alphabetFor, sameLetters } from "./hebrew";
+import { shuffle } from "./random";
+
+/**
+ * Word search layout: hides every word in a square grid sized to the word list, then fills the
+ * rest with random letters. The difficulty decides the directions words may run in: easy only
+ * reads forwards across and down, medium adds the forward diagonals, hard allows all eight
+ * directions including backwards.
+ */
+
+export interface GridPoint {
+  r: number;
+  c: number;
+}
+
+export interface WordSearchPlacement {
+  word: string;
+  cells: GridPoint[];
+}
+
+export interface WordSearchLayout {
+  grid: string[][];
+  placements: WordSearchPlacement[];
+}
+
+type Step = [number, number];
+
+const FORWARD: Step[] = [[0, 1], [1, 0]];
+const DIAGONAL: Step[] = [[1, 1], [-1, 1]];
+const BACKWARD: Step[] = [[0, -1], [-1, 0], [-1, -1], [1, -1]];
+
+export const DIRECTIONS_BY_DIFFICULTY: Record<Difficulty, Step[]> = {
+  easy: FORWARD,
+  medium: [...FORWARD, ...DIAGONAL],
+  hard: [...FORWARD, ...DIAGONAL, ...BACKWARD],
+};
+
+// Letters per cell the grid starts from: easier grids are roomier, harder ones have fewer filler letters
+const ROOM_BY_DIFFICULTY: Record<Difficulty, number> = { easy: 2.4, medium: 2, hard: 1.7 };
+
+const MIN_SIZE = 8;
+// Random tries for each word before every position is checked in turn
+const RANDOM_TRIES = 60;
+
+const cellsOf = (word: string, r: number, c: number, [dr, dc]: Step): GridPoint[] =>
+  Array.from(word, (_, i) => ({ r: r + dr * i, c: c + dc * i }));
+
+// A word fits where it stays inside the grid and only crosses cells holding the same letter
+const fits = (grid: string[][], word: string, cells: GridPoint[]): boolean =>
+  cells.every(({ r, c }, i) => r >= 0 && c >= 0 && r < grid.length && c < grid.length && (grid[r][c] === "" || grid[r][c] === word[i]));
+
+const tryPlace = (grid: string[][], word: string, directions: Step[], random: () => number): GridPoint[] | null => {
+  const size = grid.length;
+  for (let attempt = 0; attempt < RANDOM_TRIES; attempt++) {
+    const step = directions[Math.floor(random() * directions.length)];
+    const cells = cellsOf(word, Math.floor(random() * size), Math.floor(random() * size), step);
+    if (fits(grid, word, cells)) return cells;
+  }
+  // A crowded grid may only have a few spots left; look at every one before giving up
+  for (const step of shuffle(directions, random)) {
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        const cells = cellsOf(word, r, c, step);
+        if (fits(grid, word, cells)) return cells;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Places every word, longest first. When a word can't be placed the whole grid is built again one
+ * size larger, so no word is ever left out.
+ */
+export const layoutWordSearch = (words: string[], difficulty: Difficulty, random: () => number): WordSearchLayout => {
+  const directions = DIRECTIONS_BY_DIFFICULTY[difficulty];
+  const letters = words.reduce((sum, word) => sum + word.length, 0);
+  const longest = Math.max(0, ...words.map(word => word.length));
+  const order = [...words].sort((a, b) => b.length - a.length);
+
+  for (let size = Math.max(MIN_SIZE, longest, Math.ceil(Math.sqrt(letters * ROOM_BY_DIFFICULTY[difficulty]))); ; size++) {
+    const grid: string[][] = Array.from({ length: size }, () => Array(size).fill(""));
+    const placements: WordSearchPlacement[] = [];
+
+    for (const word of order) {
+      const cells = tryPlace(grid, word, directions, random);
+      if (!cells) break;
+      cells.forEach(({ r, c }, i) => { grid[r][c] = word[i]; });
+      placements.push({ word, cells });
+    }
+
+    if (placements.length === order.length) {
+      const alphabet = alphabetFor(words);
+      grid.forEach(row => row.forEach((letter, c) => {
+        if (letter === "") row[c] = alphabet[Math.floor(random() * alphabet.length)];
+      }));
+      return { grid, placements };
+    }
+  }
+};
+
+/**
+ * The straight line of cells from `start` towards `end`, snapped to the nearest of the eight
+ * directions and kept inside a grid of `size` cells, so a rough drag still selects a clean line.
+ */
+export const lineBetween = (start: GridPoint, end: GridPoint, size: number): GridPoint[] => {
+  const dr = end.r - start.r;
+  const dc = end.c - start.c;
+  if (dr === 0 && dc === 0) return [start];
+
+  const angle = Math.round(Math.atan2(dr, dc) / (Math.PI / 4)) * (Math.PI / 4);
+  const step: Step = [Math.round(Math.sin(angle)), Math.round(Math.cos(angle))];
+  const length = Math.max(Math.abs(dr), Math.abs(dc));
+
+  const cells: GridPoint[] = [];
+  for (let i = 0; i <= length; i++) {
+    const r = start.r + step[0] * i;
+    const c = start.c + step[1] * i;
+    if (r < 0 || c < 0 || r >= size || c >= size) break;
+    cells.push({ r, c });
+  }
+  return cells;
+};
+
+// Where a word sits in a grid, in any of the eight directions; used for grids built on another device
+export const findWordCells = (grid: string[][], word: string): GridPoint[] | null => {
+  const size = grid.length;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      for (const step of DIRECTIONS_BY_DIFFICULTY.hard) {
+        const cells = cellsOf(word, r, c, step);
+        const inside = cells.every(cell => cell.r >= 0 && cell.c >= 0 && cell.r < size && cell.c < size);
+        if (inside && sameLetters(cells.map(cell => grid[cell.r][cell.c]).join(""), word)) return cells;
+      }
+    }
+  }
+  return null;
+};
@@ -1,7 +1,29 @@
 
-export type GameGenerationInput = 
-  | { type: 'text'; value: string }
-  | { type: 'file'; data: string; mimeType: string };
+// One piece of source material: text (pasted, or read from a text or Word file) or a file sent inline (PDF, photo)
+export type SourcePart =
+  | { type: 'text'; value: string; name?: string }
+  | { type: 'file'; data: string; mimeType: string; name?: string };
+
+// Everything a game is generated from, in reading order (e.g. several PDFs or photos of the pages)
+export interface GameGenerationInput {
+  parts: SourcePart[];
+}
+
+export type AgeBand = '6-8' | '8-12' | '12-16';
+export type Difficulty = 'easy' | 'medium' | 'hard';
+// 'mixed' is English with the Hebrew and Yiddish expressions used in a Chassidish home
+export type OutputLanguage = 'en' | 'he' | 'yi' | 'mixed';
+// How Hebrew terms (Shabbos, Tzedakah...) appear in English text
+export type HebrewTermStyle = 'transliterate' | 'gloss' | 'translate';
+
+export interface GenerationOptions {
+  ageBand: AgeBand;
+  difficulty: Difficulty;
+  // Number of items (questions, pairs, words...); the game type's default when not set
+  itemCount?: number;
+  language: OutputLanguage;
+  hebrewTerms: HebrewTermStyle;
+}
 
 export enum GameType {
   QUIZ = 'QUIZ',
@@ -20,26 +42,37 @@ export enum GameType {
   FIND_MATCH = 'FIND_MATCH',
 }
 
-export interface QuizItem {
+// Result of checking an item's quote against the source text after generation:
+// 'unchecked' when the quote wasn't found but part of the source (a PDF or photo sent as is) can't be searched
+export type CitationStatus = 'found' | 'approximate' | 'not-found' | 'unchecked';
+
+// Where in the source an item comes from, so mentors can tell grounded content from invented content
+export interface SourceCitation {
+  sourceQuote?: string; // Short verbatim quote from the source the item is based on
+  sourcePage?: number; // Page of the quote, for PDFs
+  sourceCheck?: CitationStatus;
+}
+
+export interface QuizItem extends SourceCitation {
   question: string;
   options: string[];
   correctAnswer: string;
   explanation?: string;
 }
 
-export interface MatchingItem {
+export interface MatchingItem extends SourceCitation {
   id: string;
   term: string;
   definition: string;
 }
 
-export interface SequenceItem {
+export interface SequenceItem extends SourceCitation {
   id: string;
   text: string;
   order: number;
 }
 
-export interface SortingItem {
+export interface SortingItem extends SourceCitation {
   id: string;
   text: string;
   category: string;
@@ -50,7 +83,7 @@ export interface SortingData {
   items: SortingItem[];
 }
 
-export interface UnscrambleItem {
+export interface UnscrambleItem extends SourceCitation {
   id: string;
   original: string;
   hint: string;
@@ -61,18 +94,18 @@ export interface FillBlankData {
   missingWords: string[]; // The words that go into the blanks
 }
 
-export interface RiddleItem {
+export interface RiddleItem extends SourceCitation {
   id: string;
   clues: string[]; // List of clues to reveal one by one
   answer: string;
 }
 
-export interface CrosswordItem {
+export interface CrosswordItem extends SourceCitation {
   word: string;
   clue: string;
 }
 
-export interface EmojiChallengeItem {
+export interface EmojiChallengeItem extends SourceCitation {
   id: string;
   emojis: string;
   answer: string;
@@ -80,7 +113,7 @@ export interface EmojiChallengeItem {
   options: string[]; // Multiple choice options
 }
 
-export interface TriviaTrailItem {
+export interface TriviaTrailItem extends SourceCitation {
   id: string;
   question: string;
   options: string[];
@@ -104,13 +137,44 @@ export interface GameData {
   triviaTrailContent?: TriviaTrailItem[];
   findMatchContent?: string[]; // List of 20-30 words/icons to use for generation
   mentorKey: string[];
+  // Seed for every shuffle and grid of the game, so the same game looks the same everywhere (see services/random.ts)
+  seed?: number;
+  // Seed the crossword was checked with when it was made; a new shuffle that leaves words out goes back to it
+  crosswordSeed?: number;
+  // Difficulty the game was generated at; also sets how words are hidden in a word search
+  difficulty?: Difficulty;
+  // Everything the game was generated with, so a regenerated item matches the rest of the game
+  generationOptions?: GenerationOptions;
+}
+
+export interface ActivityPackItem {
+  type: GameType;
+  status: 'loading' | 'ready' | 'error';
+  data?: GameData;
+  error?: string;
+  libraryEntryId?: string;
+}
+
+// Several games generated from the same Koivetz, sharing one Mentor's Corner
+export interface ActivityPack {
+  id: string;
+  items: ActivityPackItem[];
+  mentorKey: string[];
+  // Settings the pack was generated with, reused when retrying an activity
+  options: GenerationOptions;
 }
 
 export interface GameState {
-  view: 'INPUT' | 'MENU' | 'LOADING' | 'GAME' | 'ERROR' | 'LIVE_LOBBY' | 'LIVE_SESSION';
+  view: 'INPUT' | 'MENU' | 'LOADING' | 'GAME' | 'ERROR' | 'LIVE_LOBBY' | 'LIVE_SESSION' | 'PACK' | 'LIBRARY' | 'EDIT';
   inputData?: GameGenerationInput;
   data: GameData | null;
+  pack?: ActivityPack;
+  activePackIndex?: number; // Set while playing a game opened from the pack dashboard
+  libraryEntryId?: string; // Local library entry of the game currently shown
+  openedFromLibrary?: boolean;
+  fromCache?: boolean; // The game shown was answered from the generation cache
   error?: string;
+  errorDetails?: string[]; // e.g. validation problems the model couldn't fix
   liveSessionId?: string;
   isHost?: boolean;
 }
@@ -1,7 +1,30 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// pdf.js loads character maps and standard fonts by URL, so they are served under /pdfjs/ in dev
+// and copied there in the build instead of being fetched from a CDN (see services/pdfSource.ts)
+const pdfjsAssets = (): Plugin => {
+  const root = path.resolve(__dirname, 'node_modules/pdfjs-dist');
+  const dirs = ['cmaps', 'standard_fonts'];
+  return {
+    name: 'pdfjs-assets',
+    configureServer(server) {
+      server.middlewares.use('/pdfjs', (req, res, next) => {
+        const file = path.join(root, decodeURIComponent((req.url || '').split('?')[0]));
+        if (!dirs.some(dir => file.startsWith(path.join(root, dir) + path.sep)) || !fs.existsSync(file)) return next();
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      dirs.forEach(dir => fs.readdirSync(path.join(root, dir)).forEach(name => {
+        this.emitFile({ type: 'asset', fileName: `pdfjs/${dir}/${name}`, source: fs.readFileSync(path.join(root, dir, name)) });
+      }));
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +32,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pdfjsAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GAME_GENERATOR': JSON.stringify(env.GAME_GENERATOR)
       },
       resolve: {
         alias: {